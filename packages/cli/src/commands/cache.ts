@@ -0,0 +1,50 @@
+import type { Result } from 'shared'
+import { cacheDir, listCacheEntries, verifyCache, cleanCache, type CacheEntry, type CacheVerifyResult } from '../lib/cache.js'
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`
+}
+
+/** Tarballs fetched from a plain URL are cached without a version */
+function entryLabel(entry: CacheEntry): string {
+  return entry.version ? `${entry.name}@${entry.version}` : entry.name
+}
+
+export async function cacheListCommand(options: { json?: boolean } = {}): Promise<Result<CacheEntry[], string>> {
+  const entries = await listCacheEntries()
+
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2))
+  } else if (entries.length === 0) {
+    console.error(`Cache is empty (${cacheDir()})`)
+  } else {
+    console.error(`\nCached packages (${cacheDir()}):`)
+    for (const entry of entries) {
+      console.error(`  ${entryLabel(entry)}  ${formatSize(entry.size)}  ${entry.integrity}`)
+    }
+    console.error('')
+  }
+
+  return { ok: true, value: entries }
+}
+
+export async function cacheVerifyCommand(options: { json?: boolean } = {}): Promise<Result<CacheVerifyResult, string>> {
+  const result = await verifyCache()
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2))
+  } else {
+    for (const entry of result.removed) {
+      console.error(`  ✗ ${entryLabel(entry)} is corrupt or missing; removed from the cache`)
+    }
+    console.error(`✅ Verified ${result.valid} cached package(s)${result.removed.length > 0 ? `, removed ${result.removed.length}` : ''}`)
+  }
+
+  return { ok: true, value: result }
+}
+
+export async function cacheCleanCommand(): Promise<Result<number, string>> {
+  const removed = await cleanCache()
+  console.error(`✅ Removed ${removed} cached package(s) from ${cacheDir()}`)
+  return { ok: true, value: removed }
+}
@@ -7,26 +7,105 @@ import type { Result, SpecPackage } from 'shared'
 import { listInstalledSpecs } from '../lib/loader.js'
 import { checkEntity, type CheckResult } from '../lib/checker/entity-checker.js'
 import { checkPattern } from '../lib/checker/pattern-checker.js'
+import { selectWorkspaces, type WorkspaceSelection } from '../lib/workspace.js'
 
-export interface CheckOptions {
+export interface CheckOptions extends WorkspaceSelection {
   spec?: string
   json?: boolean
   strict?: boolean
+  /** Project to check (default: the current directory) */
+  cwd?: string
+}
+
+export interface CheckSummary {
+  pass: number
+  fail: number
+  warn: number
+  skip: number
 }
 
 export interface CheckReport {
   timestamp: string
-  summary: { pass: number; fail: number; warn: number; skip: number }
+  summary: CheckSummary
   results: CheckResult[]
   specs: string[]
+  /** One entry per workspace when run with --workspace or -r */
+  workspaces?: { name: string; path: string; summary: CheckSummary }[]
 }
 
 async function fileExists(filePath: string): Promise<boolean> {
   try { await access(filePath); return true } catch { return false }
 }
 
+function summarize(results: CheckResult[]): CheckSummary {
+  return {
+    pass: results.filter(r => r.status === 'pass').length,
+    fail: results.filter(r => r.status === 'fail').length,
+    warn: results.filter(r => r.status === 'warn').length,
+    skip: results.filter(r => r.status === 'skip').length,
+  }
+}
+
+function formatSummary(summary: CheckSummary): string {
+  return `Pass: ${summary.pass} | Fail: ${summary.fail} | Warn: ${summary.warn} | Skip: ${summary.skip}`
+}
+
 export async function checkCommand(options: CheckOptions): Promise<Result<CheckReport, string>> {
-  const projectRoot = process.cwd()
+  const cwd = options.cwd ?? process.cwd()
+
+  const selected = await selectWorkspaces(cwd, options)
+  if (!selected.ok) return selected
+  if (!selected.value) {
+    const result = await checkProject(cwd, options)
+    if (!result.ok) return result
+    if (options.json) {
+      console.log(JSON.stringify(result.value, null, 2))
+    } else {
+      printReport(result.value)
+    }
+    return result
+  }
+
+  // One aggregated report; results are tagged with the workspace they came from
+  const workspaces: NonNullable<CheckReport['workspaces']> = []
+  const report: CheckReport = {
+    timestamp: new Date().toISOString(),
+    summary: { pass: 0, fail: 0, warn: 0, skip: 0 },
+    results: [],
+    specs: [],
+    workspaces,
+  }
+  for (const workspace of selected.value) {
+    const result = await checkProject(workspace.directory, options)
+    if (!result.ok) {
+      return { ok: false, error: `${workspace.name}: ${result.error}` }
+    }
+    if (!options.json) {
+      console.error(`\n━━ ${workspace.name} (${workspace.path})`)
+      printReport(result.value)
+    }
+    report.results.push(...result.value.results.map(r => ({ ...r, workspace: workspace.name })))
+    report.specs.push(...result.value.specs.filter(spec => !report.specs.includes(spec)))
+    workspaces.push({ name: workspace.name, path: workspace.path, summary: result.value.summary })
+  }
+  report.summary = summarize(report.results)
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    console.error(`\nWorkspaces`)
+    console.error(`${'─'.repeat(40)}`)
+    for (const workspace of workspaces) {
+      const failed = workspace.summary.fail > 0 || (options.strict && workspace.summary.warn > 0)
+      console.error(`  ${failed ? '❌' : '✅'} ${workspace.name} (${workspace.path})  ${formatSummary(workspace.summary)}`)
+    }
+    console.error(`${'─'.repeat(40)}`)
+    console.error(`Total: ${formatSummary(report.summary)}\n`)
+  }
+  return { ok: true, value: report }
+}
+
+async function checkProject(projectRoot: string, options: CheckOptions): Promise<Result<CheckReport, string>> {
 
   // Load installed specs
   const specsResult = await listInstalledSpecs(projectRoot)
@@ -49,11 +128,6 @@ export async function checkCommand(options: CheckOptions): Promise<Result<CheckR
       results: [],
       specs: [],
     }
-    if (options.json) {
-      console.log(JSON.stringify(report, null, 2))
-    } else {
-      console.error('No spec packages installed. Run `specpm install` first.')
-    }
     return { ok: true, value: report }
   }
 
@@ -78,8 +152,7 @@ export async function checkCommand(options: CheckOptions): Promise<Result<CheckR
   const sourceFilePaths: string[] = []
   for (const pattern of includePatterns) {
     try {
-      for await (const entry of glob(join(projectRoot, pattern))) {
-        const path = typeof entry === 'string' ? entry : entry.toString()
+      for await (const path of glob(join(projectRoot, pattern))) {
         const shouldExclude = excludePatterns.some(ex => {
           const simple = ex.replace(/\*\*/g, '').replace(/\*/g, '')
           return path.includes(simple.replace(/\//g, '/'))
@@ -128,38 +201,32 @@ export async function checkCommand(options: CheckOptions): Promise<Result<CheckR
     }
   }
 
-  const summary = {
-    pass: allResults.filter(r => r.status === 'pass').length,
-    fail: allResults.filter(r => r.status === 'fail').length,
-    warn: allResults.filter(r => r.status === 'warn').length,
-    skip: allResults.filter(r => r.status === 'skip').length,
-  }
-
   const report: CheckReport = {
     timestamp: new Date().toISOString(),
-    summary,
+    summary: summarize(allResults),
     results: allResults,
     specs: specNames,
   }
+  return { ok: true, value: report }
+}
 
-  if (options.json) {
-    console.log(JSON.stringify(report, null, 2))
-  } else {
-    console.error(`\nSpec Check Report`)
-    console.error(`${'─'.repeat(40)}`)
-    for (const spec of specNames) {
-      console.error(`\n📦 ${spec}`)
-      const specResults = allResults.filter(r => r.package === spec)
-      for (const r of specResults) {
-        const icon = r.status === 'pass' ? '✅' : r.status === 'fail' ? '❌' : r.status === 'warn' ? '⚠️' : '⏭️'
-        const location = r.file ? ` (${r.file}${r.line ? ':' + r.line : ''})` : ''
-        console.error(`  ${icon} [${r.constraint}] ${r.message}${location}`)
-      }
-    }
-    console.error(`\n${'─'.repeat(40)}`)
-    console.error(`Pass: ${summary.pass} | Fail: ${summary.fail} | Warn: ${summary.warn} | Skip: ${summary.skip}\n`)
+function printReport(report: CheckReport): void {
+  if (report.specs.length === 0) {
+    console.error('No spec packages installed. Run `specpm install` first.')
+    return
   }
 
-  const hasFail = summary.fail > 0 || (options.strict && summary.warn > 0)
-  return { ok: true, value: report }
+  console.error(`\nSpec Check Report`)
+  console.error(`${'─'.repeat(40)}`)
+  for (const spec of report.specs) {
+    console.error(`\n📦 ${spec}`)
+    const specResults = report.results.filter(r => r.package === spec)
+    for (const r of specResults) {
+      const icon = r.status === 'pass' ? '✅' : r.status === 'fail' ? '❌' : r.status === 'warn' ? '⚠️' : '⏭️'
+      const location = r.file ? ` (${r.file}${r.line ? ':' + r.line : ''})` : ''
+      console.error(`  ${icon} [${r.constraint}] ${r.message}${location}`)
+    }
+  }
+  console.error(`\n${'─'.repeat(40)}`)
+  console.error(`${formatSummary(report.summary)}\n`)
 }
@@ -9,13 +9,17 @@ import { checkCommand, type CheckReport } from './check.js'
 import { teamCheckCommand, type TeamCheckResult } from './team.js'
 import { formatJUnit } from '../lib/reporters/junit.js'
 import { formatGitHub } from '../lib/reporters/github.js'
+import { listInstalledSpecs } from '../lib/loader.js'
+import { selectWorkspaces, type Workspace, type WorkspaceSelection } from '../lib/workspace.js'
 
-export interface CiOptions {
+export interface CiOptions extends WorkspaceSelection {
   check?: boolean
   team?: boolean
   verify?: boolean
   reporter?: 'text' | 'json' | 'junit' | 'github'
   strict?: boolean
+  /** Project to run in (default: the current directory) */
+  cwd?: string
 }
 
 export interface CiResult {
@@ -24,60 +28,49 @@ export interface CiResult {
   checkResults: CheckResult[]
   teamIssues: string[]
   teamRecommended: string[]
+  /** One entry per workspace when run with --workspace or -r */
+  workspaces?: { name: string; path: string; passed: boolean }[]
 }
 
 async function fileExists(filePath: string): Promise<boolean> {
   try { await access(filePath); return true } catch { return false }
 }
 
-export async function ciCommand(options: CiOptions): Promise<Result<CiResult, string>> {
-  const projectRoot = process.cwd()
-
-  // Auto-detect reporter from env
-  let reporter = options.reporter ?? 'text'
-  if (!options.reporter && process.env.GITHUB_ACTIONS === 'true') {
-    reporter = 'github'
-  }
-
-  const result: CiResult = {
+function emptyResult(): CiResult {
+  return {
     passed: true,
     verifyIssues: [],
     checkResults: [],
     teamIssues: [],
     teamRecommended: [],
   }
+}
 
-  // Check specpm.yaml exists
-  if (!(await fileExists(join(projectRoot, 'specpm.yaml')))) {
-    return { ok: false, error: 'specpm.yaml not found. Not a SpecPM project.' }
-  }
+/**
+ * Verify installed specs, run `check` and the team check for one project
+ */
+async function runProject(projectRoot: string, options: CiOptions, verify = options.verify !== false): Promise<CiResult> {
+  const result = emptyResult()
 
   // Determine which checks to run
-  const runVerify = options.verify !== false
   const runCheck = options.check !== false
   const runTeam = options.team !== false
 
   // 1. Verify installed specs
-  if (runVerify) {
-    const specsDir = join(projectRoot, '.specpm', 'specs')
-    if (await fileExists(specsDir)) {
-      const { listInstalledSpecs } = await import('../lib/loader.js')
-      const specsResult = await listInstalledSpecs(projectRoot)
-      if (specsResult.ok) {
-        for (const spec of specsResult.value) {
-          const verifyResult = await verifyL0(spec.directory)
-          result.verifyIssues.push(...verifyResult.issues)
-          if (!verifyResult.passed) {
-            result.passed = false
-          }
-        }
+  if (verify) {
+    const specsResult = await listInstalledSpecs(projectRoot)
+    if (specsResult.ok) {
+      const verifyResult = await verifySpecs(specsResult.value.map(spec => spec.directory))
+      result.verifyIssues.push(...verifyResult.issues)
+      if (!verifyResult.passed) {
+        result.passed = false
       }
     }
   }
 
   // 2. Run check
   if (runCheck) {
-    const checkResult = await checkCommand({ strict: options.strict, json: false })
+    const checkResult = await checkCommand({ strict: options.strict, json: false, cwd: projectRoot })
     if (checkResult.ok) {
       result.checkResults = checkResult.value.results
       if (checkResult.value.summary.fail > 0) {
@@ -91,7 +84,7 @@ export async function ciCommand(options: CiOptions): Promise<Result<CiResult, st
 
   // 3. Team check (if team config exists)
   if (runTeam) {
-    const teamResult = await teamCheckCommand({})
+    const teamResult = await teamCheckCommand({ cwd: projectRoot })
     if (teamResult.ok && teamResult.value) {
       if (!teamResult.value.passed) {
         result.passed = false
@@ -99,12 +92,87 @@ export async function ciCommand(options: CiOptions): Promise<Result<CiResult, st
           ...teamResult.value.missing.map(m => `Missing required spec: ${m}`),
           ...teamResult.value.outdated.map(o => `Outdated spec: ${o.name} (${o.installed} vs ${o.required})`),
           ...teamResult.value.enforcementIssues,
+          ...teamResult.value.peerIssues.map(p => `Peer dependency: ${p.message}`),
         )
       }
       result.teamRecommended = teamResult.value.recommended
     }
   }
 
+  return result
+}
+
+async function verifySpecs(directories: string[]): Promise<{ passed: boolean; issues: VerificationIssue[] }> {
+  const issues: VerificationIssue[] = []
+  let passed = true
+  for (const directory of directories) {
+    const verifyResult = await verifyL0(directory)
+    issues.push(...verifyResult.issues)
+    if (!verifyResult.passed) {
+      passed = false
+    }
+  }
+  return { passed, issues }
+}
+
+/**
+ * Run every workspace and merge the results. Hoisted specs are shared, so each is verified once.
+ */
+async function runWorkspaces(workspaces: Workspace[], options: CiOptions): Promise<CiResult> {
+  const outcomes: NonNullable<CiResult['workspaces']> = []
+  const result: CiResult = { ...emptyResult(), workspaces: outcomes }
+
+  if (options.verify !== false) {
+    const directories = new Set<string>()
+    for (const workspace of workspaces) {
+      const specsResult = await listInstalledSpecs(workspace.directory)
+      for (const spec of specsResult.ok ? specsResult.value : []) directories.add(spec.directory)
+    }
+    const verifyResult = await verifySpecs([...directories].sort())
+    result.verifyIssues.push(...verifyResult.issues)
+    if (!verifyResult.passed) {
+      result.passed = false
+    }
+  }
+
+  for (const workspace of workspaces) {
+    const workspaceResult = await runProject(workspace.directory, options, false)
+    result.checkResults.push(...workspaceResult.checkResults.map(r => ({ ...r, workspace: workspace.name })))
+    result.teamIssues.push(...workspaceResult.teamIssues.map(issue => `${workspace.name}: ${issue}`))
+    for (const name of workspaceResult.teamRecommended) {
+      if (!result.teamRecommended.includes(name)) result.teamRecommended.push(name)
+    }
+    outcomes.push({ name: workspace.name, path: workspace.path, passed: workspaceResult.passed })
+    if (!workspaceResult.passed) {
+      result.passed = false
+    }
+  }
+  return result
+}
+
+export async function ciCommand(options: CiOptions): Promise<Result<CiResult, string>> {
+  const cwd = options.cwd ?? process.cwd()
+
+  // Auto-detect reporter from env
+  let reporter = options.reporter ?? 'text'
+  if (!options.reporter && process.env.GITHUB_ACTIONS === 'true') {
+    reporter = 'github'
+  }
+
+  const selected = await selectWorkspaces(cwd, options)
+  if (!selected.ok) return selected
+
+  let result: CiResult
+  if (selected.value) {
+    result = await runWorkspaces(selected.value, options)
+  } else {
+    // Check specpm.yaml exists
+    if (!(await fileExists(join(cwd, 'specpm.yaml')))) {
+      return { ok: false, error: 'specpm.yaml not found. Not a SpecPM project.' }
+    }
+    result = await runProject(cwd, options)
+  }
+
   // Output
   switch (reporter) {
     case 'json':
@@ -135,6 +203,10 @@ export async function ciCommand(options: CiOptions): Promise<Result<CiResult, st
         console.error(`\nTeam issues:`)
         for (const i of result.teamIssues) console.error(`  ❌ ${i}`)
       }
+      if (result.workspaces) {
+        console.error(`\nWorkspaces:`)
+        for (const w of result.workspaces) console.error(`  ${w.passed ? '✅' : '❌'} ${w.name} (${w.path})`)
+      }
       console.error(`\n${result.passed ? '✅ CI PASSED' : '❌ CI FAILED'}\n`)
       break
     }
@@ -1,15 +1,38 @@
-import { readFile } from 'node:fs/promises'
-import { join } from 'node:path'
+import { readFile, realpath, rm } from 'node:fs/promises'
+import { join, relative, sep } from 'node:path'
 import { parse as parseYaml } from 'yaml'
-import type { Result } from 'shared'
+import type { Result, SpecPackage } from 'shared'
 import { listInstalledSpecs } from '../lib/loader.js'
-import { generateClaudeContext } from '../lib/context/claude.js'
-import { generateCursorContext } from '../lib/context/cursor.js'
-import { generateCopilotContext } from '../lib/context/copilot.js'
-import type { ProjectConfig, OverrideConfig } from '../lib/context/generator.js'
+import {
+  loadTargets, writeTargetContext, generatedSection, targetConfig, type ContextTarget,
+} from '../lib/context/targets.js'
+import { packContext, groupSteps, type ProjectConfig, type OverrideConfig } from '../lib/context/generator.js'
+import { estimateTokens } from '../lib/context/packer.js'
+import {
+  contextInputs, readContextManifest, writeContextManifest, compareInputs, contentChecksum, CONTEXT_MANIFEST,
+  type ContextManifestEntry, type ContextInputs,
+} from '../lib/context/manifest.js'
+import { selectWorkspaces, findInstallRoot, type WorkspaceSelection } from '../lib/workspace.js'
+import { createDebouncedWatcher, type DebouncedWatcher, type WatchTarget } from '../lib/watcher.js'
 
-export interface ContextOptions {
+export interface ContextOptions extends WorkspaceSelection {
+  /** Target name, comma-separated names, or `all` (default: claude) */
   target?: string
+  /** Token budget for all specs together, in place of `context.tokenBudget` in specpm.yaml */
+  tokenBudget?: string | number
+  /** Check that generated files are up to date with the installed specs instead of generating them */
+  check?: boolean
+  /** Project to generate context for (default: the current directory) */
+  cwd?: string
+}
+
+function parseTokenBudget(value: unknown, source: string): Result<number | undefined, string> {
+  if (value === undefined) return { ok: true, value: undefined }
+  const budget = Number(value)
+  if (!Number.isInteger(budget) || budget <= 0) {
+    return { ok: false, error: `Invalid ${source}: ${value}. Expected a positive number of tokens` }
+  }
+  return { ok: true, value: budget }
 }
 
 async function loadProjectConfig(projectRoot: string): Promise<Result<ProjectConfig, string>> {
@@ -17,13 +40,25 @@ async function loadProjectConfig(projectRoot: string): Promise<Result<ProjectCon
   try {
     const content = await readFile(configPath, 'utf-8')
     const config = parseYaml(content) as Record<string, unknown>
+    const context = config['context'] as Record<string, unknown> | undefined
+    const tokenBudget = parseTokenBudget(context?.['tokenBudget'], 'context.tokenBudget in specpm.yaml')
+    if (!tokenBudget.ok) return tokenBudget
+    if (context?.['output'] !== undefined) {
+      console.error('⚠️  context.output in specpm.yaml has no effect: each target writes to its own file. Remove it.')
+    }
+    const plugins = context?.['plugins']
+    if (plugins !== undefined && !(Array.isArray(plugins) && plugins.every(p => typeof p === 'string'))) {
+      return { ok: false, error: 'context.plugins in specpm.yaml must be a list of module paths or package names' }
+    }
     return {
       ok: true,
       value: {
         name: (config['name'] as string) ?? 'unknown',
         version: config['version'] as string | undefined,
         description: config['description'] as string | undefined,
-        targets: (config['context'] as Record<string, unknown> | undefined)?.['targets'] as string[] | undefined,
+        targets: context?.['targets'] as string[] | undefined,
+        plugins: plugins as string[] | undefined,
+        tokenBudget: tokenBudget.value,
         overrides: config['overrides'] as Record<string, OverrideConfig> | undefined,
       },
     }
@@ -33,62 +68,357 @@ async function loadProjectConfig(projectRoot: string): Promise<Result<ProjectCon
 }
 
 export async function contextCommand(options: ContextOptions): Promise<Result<string[], string>> {
-  const projectRoot = process.cwd()
+  const cwd = options.cwd ?? process.cwd()
+
+  const run = options.check ? checkProjectContext : generateProjectContext
+
+  const selected = await selectWorkspaces(cwd, options)
+  if (!selected.ok) return selected
+  if (!selected.value) return run(cwd, options)
+
+  // Each workspace gets its own context files, built from the specs it depends on
+  const outputs: string[] = []
+  for (const workspace of selected.value) {
+    console.error(`\n📦 ${workspace.name} (${workspace.path})`)
+    const result = await run(workspace.directory, options)
+    if (!result.ok) {
+      return { ok: false, error: `${workspace.name}: ${result.error}` }
+    }
+    outputs.push(...result.value)
+  }
+  const verb = options.check ? 'Checked' : 'Generated'
+  console.error(`\n✅ ${verb} ${outputs.length} context file(s) across ${selected.value.length} workspace(s)`)
+  return { ok: true, value: outputs }
+}
+
+/**
+ * Generate context, then regenerate it whenever an installed spec, specpm.yaml or
+ * specpm-team.yaml changes, rewriting only the targets that went stale. Problems met along
+ * the way, such as a spec deleted mid-edit, are reported and the watch carries on.
+ */
+export async function watchContext(options: ContextOptions, debounceMs = 200): Promise<Result<DebouncedWatcher, string>> {
+  if (options.check) {
+    return { ok: false, error: '--watch and --check cannot be combined' }
+  }
+  const cwd = options.cwd ?? process.cwd()
+  const selected = await selectWorkspaces(cwd, options)
+  if (!selected.ok) return selected
+  const projects = selected.value
+    ? selected.value.map(workspace => ({ directory: workspace.directory, label: ` (${workspace.name})` }))
+    : [{ directory: cwd, label: '' }]
+
+  const initial = await contextCommand(options)
+  if (!initial.ok) return initial
+
+  const directories = projects.map(project => project.directory)
+
+  const watcher = createDebouncedWatcher(async () => {
+    for (const project of projects) {
+      try {
+        await refreshProjectContext(project.directory, options, project.label)
+      } catch (error) {
+        console.error(`⚠️  Could not regenerate context${project.label}: ${error}`)
+      }
+    }
+    watcher.sync(await watchedPaths(directories))
+  }, debounceMs)
+  watcher.sync(await watchedPaths(directories))
+
+  console.error('\n👀 Watching specs, specpm.yaml and specpm-team.yaml for changes (Ctrl+C to stop)')
+  return { ok: true, value: watcher }
+}
 
+/**
+ * Each project's specpm.yaml and specpm-team.yaml, the install root's as well for a
+ * workspace, `.specpm/specs/` for installs and removals, and every installed spec's
+ * directory, read through links so edits to linked specs are seen
+ */
+async function watchedPaths(projects: string[]): Promise<WatchTarget[]> {
+  const names = ['specpm.yaml', 'specpm-team.yaml', '.specpm']
+  const paths: WatchTarget[] = []
+  for (const projectRoot of projects) {
+    const installRoot = await findInstallRoot(projectRoot)
+    paths.push({ path: projectRoot, names }, { path: installRoot, names })
+    paths.push({ path: join(installRoot, '.specpm', 'specs'), recursive: true })
+
+    const specs = await listInstalledSpecs(projectRoot)
+    for (const spec of specs.ok ? specs.value : []) {
+      const directory = await realpath(spec.directory).catch(() => null)
+      if (directory) paths.push({ path: directory, recursive: true })
+    }
+  }
+  return paths
+}
+
+/**
+ * Regenerate the targets whose files no longer match the specs and settings, leaving the rest alone
+ */
+async function refreshProjectContext(
+  projectRoot: string,
+  options: ContextOptions,
+  label: string,
+): Promise<void> {
+  const sources = await loadContextSources(projectRoot, options)
+  const targets = sources.ok ? selectTargets(options.target ?? 'claude', sources.value.targets) : sources
+  if (!targets.ok) {
+    console.error(`⚠️  Could not regenerate context${label}: ${targets.error}`)
+    return
+  }
+  if (!sources.ok) return
+
+  const manifest = await readContextManifest(projectRoot)
+  const recorded = manifest.ok ? manifest.value?.targets ?? {} : {}
+  const current = await contextInputs(sources.value.packages, sources.value.config)
+  const stale: ContextTarget[] = []
+  for (const t of targets.value) {
+    const entry = recorded[t.name]
+    const problems = entry ? await targetProblems(projectRoot, t, entry, current) : ['never generated']
+    if (problems.length === 0) continue
+    console.error(`🔄 ${t.name}${label}: ${problems.join('; ')}`)
+    stale.push(t)
+  }
+  if (stale.length === 0) return
+
+  const result = await writeTargets(projectRoot, sources.value, stale)
+  if (!result.ok) console.error(`⚠️  Could not regenerate context${label}: ${result.error}`)
+}
+
+/** The specpm.yaml settings, installed specs and targets a project's context is generated from */
+interface ContextSources {
+  config: ProjectConfig
+  packages: SpecPackage[]
+  targets: Map<string, ContextTarget>
+}
+
+async function loadContextSources(projectRoot: string, options: ContextOptions): Promise<Result<ContextSources, string>> {
   const configResult = await loadProjectConfig(projectRoot)
   if (!configResult.ok) return configResult
 
   const config = configResult.value
+  const budgetOverride = parseTokenBudget(options.tokenBudget, '--token-budget')
+  if (!budgetOverride.ok) return budgetOverride
+  if (budgetOverride.value !== undefined) config.tokenBudget = budgetOverride.value
 
   const specsResult = await listInstalledSpecs(projectRoot)
   if (!specsResult.ok) {
     return { ok: false, error: specsResult.error.map(e => e.message).join(', ') }
   }
 
-  const packages = specsResult.value
-  const target = options.target ?? 'claude'
-  const outputs: string[] = []
+  const targets = await loadTargets(projectRoot, config.plugins)
+  if (!targets.ok) return targets
+  return { ok: true, value: { config, packages: specsResult.value, targets: targets.value } }
+}
 
-  const targets = target === 'all'
-    ? ['claude', 'cursor', 'copilot']
-    : [target]
+/** `all`, or comma-separated target names */
+function selectTargets(names: string, targets: Map<string, ContextTarget>): Result<ContextTarget[], string> {
+  if (names === 'all') return { ok: true, value: [...targets.values()] }
 
-  for (const t of targets) {
-    let result: Result<string, string>
-    switch (t) {
-      case 'claude':
-        result = await generateClaudeContext(projectRoot, packages, config)
-        break
-      case 'cursor':
-        result = await generateCursorContext(projectRoot, packages, config)
-        break
-      case 'copilot':
-        result = await generateCopilotContext(projectRoot, packages, config)
-        break
-      default:
-        return { ok: false, error: `Unknown target: ${t}. Valid targets: claude, cursor, copilot` }
+  const selected: ContextTarget[] = []
+  for (const name of names.split(',').map(n => n.trim()).filter(Boolean)) {
+    const target = targets.get(name)
+    if (!target) {
+      return { ok: false, error: `Unknown target: ${name}. Valid targets: ${[...targets.keys()].join(', ')}` }
+    }
+    selected.push(target)
+  }
+  return { ok: true, value: selected }
+}
+
+async function generateProjectContext(projectRoot: string, options: ContextOptions): Promise<Result<string[], string>> {
+  const sources = await loadContextSources(projectRoot, options)
+  if (!sources.ok) return sources
+
+  const targets = selectTargets(options.target ?? 'claude', sources.value.targets)
+  if (!targets.ok) return targets
+  const outputs = await writeTargets(projectRoot, sources.value, targets.value)
+  if (!outputs.ok) return outputs
+
+  // Targets get the same specs, so what was cut to fit the budgets is reported once,
+  // plus whatever a target's own size limit cut on top of that
+  const { packages, config } = sources.value
+  const packed = packContext(packages, config)
+  if (packed.steps.length > 0) {
+    console.error(`✂️  Cut to fit token budgets (~${packed.tokens.toLocaleString()} tokens of specs):`)
+    for (const [name, actions] of groupSteps(packed)) {
+      console.error(`   ${name}: ${actions.join(', ')}`)
+    }
+  }
+  for (const target of targets.value) {
+    if (target.maxTokens === undefined) continue
+    const limited = packContext(packages, targetConfig(target, config))
+    if (limited.steps.length <= packed.steps.length) continue
+    console.error(`✂️  Cut further to fit ${target.name}'s ~${target.maxTokens.toLocaleString()}-token limit:`)
+    for (const [name, actions] of groupSteps(limited)) {
+      console.error(`   ${name}: ${actions.join(', ')}`)
     }
+  }
+
+  return outputs
+}
 
+/**
+ * Write each target's context file and record it in the context manifest
+ */
+async function writeTargets(
+  projectRoot: string,
+  sources: ContextSources,
+  targets: ContextTarget[],
+): Promise<Result<string[], string>> {
+  const { config, packages } = sources
+  const outputs: string[] = []
+  const entries: Record<string, ContextManifestEntry> = {}
+  const inputs = await contextInputs(packages, config)
+  const manifest = await readContextManifest(projectRoot)
+  const recorded = manifest.ok ? manifest.value?.targets ?? {} : {}
+
+  for (const t of targets) {
+    const result = await writeTargetContext(projectRoot, t, packages, config)
     if (!result.ok) return result
-    outputs.push(result.value)
+    outputs.push(...result.value)
 
-    // Token counting and size warnings
-    try {
-      const { readFile: rf } = await import('node:fs/promises')
-      const content = await rf(result.value, 'utf-8')
-      const estimatedTokens = Math.ceil(content.length / 4)
+    // Record what each file was generated from, so `specpm context --check` can tell when it goes stale
+    const files: Record<string, string> = {}
+    let tokens = 0
+    for (const path of result.value) {
+      const content = await readFile(path, 'utf-8')
+      const generated = generatedSection(t, content) ?? content
+      files[relative(projectRoot, path).split(sep).join('/')] = contentChecksum(generated)
+      tokens += estimateTokens(generated)
+
+      // Token counting and size warnings
+      const estimatedTokens = estimateTokens(content)
       const sizeKb = (content.length / 1024).toFixed(1)
       let sizeInfo = `${sizeKb}KB, ~${estimatedTokens.toLocaleString()} tokens`
-      if (estimatedTokens > 100_000) {
+      if (t.maxTokens !== undefined && estimatedTokens > t.maxTokens) {
+        sizeInfo += ` ⚠️  Over ${t.name}'s ~${t.maxTokens.toLocaleString()}-token limit`
+      } else if (estimatedTokens > 100_000) {
         sizeInfo += ' ⚠️  Very large context — consider reducing token budgets'
       } else if (estimatedTokens > 50_000) {
         sizeInfo += ' ⚠️  Large context'
       }
-      console.error(`✅ Generated context for ${t}: ${result.value} (${sizeInfo})`)
-    } catch {
-      console.error(`✅ Generated context for ${t}: ${result.value}`)
+      console.error(`✅ Generated context for ${t.name}: ${path} (${sizeInfo})`)
+    }
+
+    entries[t.name] = {
+      file: t.output,
+      checksum: t.split ? contentChecksum(JSON.stringify(files)) : Object.values(files)[0],
+      tokens,
+      ...(t.split ? { files } : {}),
+      ...inputs,
     }
+    await removeStaleOutputs(projectRoot, t, recorded[t.name], files)
   }
 
+  const manifestResult = await writeContextManifest(projectRoot, entries)
+  if (!manifestResult.ok) return manifestResult
+
   return { ok: true, value: outputs }
 }
+
+/** The files a manifest entry records, with their checksums */
+function recordedFiles(entry: ContextManifestEntry): Record<string, string> {
+  return entry.files ?? { [entry.file]: entry.checksum }
+}
+
+/**
+ * Delete files a target wrote last time but not this time, unless they have been edited since:
+ * its output moved (as Claude's did, from `.specpm/CLAUDE.md` to `CLAUDE.md`), or a spec with
+ * its own file was uninstalled
+ */
+async function removeStaleOutputs(
+  projectRoot: string,
+  target: ContextTarget,
+  previous: ContextManifestEntry | undefined,
+  written: Record<string, string>,
+): Promise<void> {
+  if (!previous) return
+  for (const [file, checksum] of Object.entries(recordedFiles(previous))) {
+    if (file in written) continue
+    try {
+      if (contentChecksum(await readFile(join(projectRoot, file), 'utf-8')) !== checksum) continue
+      await rm(join(projectRoot, file))
+      console.error(`🧹 Removed ${file} (no longer generated for ${target.name})`)
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Why a target's file no longer matches what it would be generated as now; empty when it does
+ */
+async function targetProblems(
+  projectRoot: string,
+  target: ContextTarget,
+  entry: ContextManifestEntry,
+  current: ContextInputs,
+): Promise<string[]> {
+  const problems = compareInputs(entry, current)
+  if (entry.file !== target.output) {
+    problems.push(`output moved from ${entry.file} to ${target.output}`)
+    return problems
+  }
+  for (const [file, checksum] of Object.entries(recordedFiles(entry))) {
+    let content: string
+    try {
+      content = await readFile(join(projectRoot, file), 'utf-8')
+    } catch {
+      problems.push(`${file} is missing`)
+      continue
+    }
+    const generated = generatedSection(target, content)
+    if (generated === null) {
+      problems.push(`the generated section was removed from ${file}`)
+    } else if (contentChecksum(generated) !== checksum) {
+      problems.push(`${file} was edited by hand`)
+    }
+  }
+  return problems
+}
+
+/**
+ * Compare each generated file with the context manifest: stale when the specs or settings it
+ * was generated from have changed, or when the generated content was edited by hand
+ */
+async function checkProjectContext(projectRoot: string, options: ContextOptions): Promise<Result<string[], string>> {
+  const sources = await loadContextSources(projectRoot, options)
+  if (!sources.ok) return sources
+
+  const manifest = await readContextManifest(projectRoot)
+  if (!manifest.ok) return manifest
+  const recorded = manifest.value?.targets ?? {}
+
+  // Without --target, every target generated so far is checked
+  const targets = selectTargets(options.target ?? Object.keys(recorded).join(','), sources.value.targets)
+  if (!targets.ok) return targets
+  if (targets.value.length === 0) {
+    return { ok: false, error: `No context has been generated yet (${CONTEXT_MANIFEST} not found). Run \`specpm context\`.` }
+  }
+
+  const current = await contextInputs(sources.value.packages, sources.value.config)
+  const checked: string[] = []
+  const stale: string[] = []
+  for (const t of targets.value) {
+    const entry = recorded[t.name]
+    if (!entry) {
+      console.error(`❌ ${t.name}: never generated`)
+      stale.push(t.name)
+      continue
+    }
+
+    const problems = await targetProblems(projectRoot, t, entry, current)
+    checked.push(...Object.keys(recordedFiles(entry)).map(file => join(projectRoot, file)))
+    if (problems.length === 0) {
+      console.error(`✅ ${t.name}: ${entry.file} is up to date`)
+    } else {
+      console.error(`❌ ${t.name}: ${entry.file} is stale`)
+      for (const problem of problems) console.error(`   - ${problem}`)
+      stale.push(t.name)
+    }
+  }
+
+  if (stale.length > 0) {
+    return { ok: false, error: `Context is out of date (${stale.join(', ')}). Run \`specpm context\` to regenerate.` }
+  }
+  return { ok: true, value: checked }
+}
@@ -3,6 +3,7 @@ import { join, basename } from 'node:path'
 import { createInterface } from 'node:readline'
 import { stringify } from 'yaml'
 import type { Result } from 'shared'
+import { BUILTIN_TARGETS } from '../lib/context/targets.js'
 
 export interface InitOptions {
   name?: string
@@ -18,7 +19,7 @@ interface InitAnswers {
 }
 
 const DEFAULT_TARGETS = ['claude']
-const VALID_TARGETS = ['claude', 'cursor', 'copilot']
+const VALID_TARGETS = BUILTIN_TARGETS.map(target => target.name)
 
 function sanitizeProjectName(dirName: string): string {
   return dirName.toLowerCase().replace(/[^a-z0-9-]/g, '-').replace(/^-+|-+$/g, '') || 'my-project'
@@ -74,7 +75,7 @@ export async function initCommand(options: InitOptions): Promise<Result<string,
   } else {
     const name = await prompt('Project name', options.name ?? defaultName)
     const description = await prompt('Description', '')
-    const targetsInput = await prompt('AI targets (claude,cursor,copilot)', options.targets ?? 'claude')
+    const targetsInput = await prompt(`AI targets (${VALID_TARGETS.join(',')})`, options.targets ?? 'claude')
     answers = {
       name,
       description,
@@ -94,7 +95,6 @@ export async function initCommand(options: InitOptions): Promise<Result<string,
     specs: { directory: '.specpm/specs' },
     context: {
       targets: answers.targets,
-      output: '.specpm',
     },
     registry: 'https://registry.specpm.dev',
     dependencies: {},
@@ -1,22 +1,47 @@
-import { mkdir, readFile, writeFile, cp, access } from 'node:fs/promises'
+import { readFile, cp, access, rm, symlink } from 'node:fs/promises'
 import { join, resolve, isAbsolute } from 'node:path'
-import { parse as parseYaml, stringify } from 'yaml'
-import { createHash } from 'node:crypto'
-import { execSync } from 'node:child_process'
-import { mkdtemp, rm } from 'node:fs/promises'
-import { tmpdir } from 'node:os'
-import { homedir } from 'node:os'
-import { loadSpecPackage } from '../lib/loader.js'
-import type { Result } from 'shared'
+import { parse as parseYaml } from 'yaml'
+import { loadSpecPackage, listInstalledSpecs } from '../lib/loader.js'
+import { beginInstallTransaction, type InstallTransaction } from '../lib/install-transaction.js'
+import { resolveRegistryDependencies, satisfiesRange, findPeerIssues, type RegistryResolution } from '../lib/resolver.js'
+import {
+  fetchMetadataForPackage, downloadTarball, fetchTarball, selectVersion, tarballUrl, resolveRegistryUrl, noRegistryError,
+} from '../lib/registry-client.js'
+import {
+  readLockfile, computeIntegrity, checkLockfileAgreement, localResolved, localSourcePath,
+  linkResolved, linkSourcePath, installedLinkTarget, lockedClosure, LOCKFILE_NAME, LOCKFILE_VERSION, type Lockfile, type LockedPackage,
+} from '../lib/lockfile.js'
+import { parseRequirement } from '../lib/team-config.js'
+import { networkMode, type NetworkMode } from '../lib/cache.js'
+import {
+  parsePackageSource, fetchPackageSource, extractTarball, isRegistryTarball, isSourceSpecifier, sourceSpecifier,
+} from '../lib/sources.js'
+import { findInstallRoot, projectDependencies } from '../lib/workspace.js'
+import { storePath } from '../lib/store.js'
+import { parseAlias, aliasSpecifier, projectReplacements } from '../lib/aliases.js'
+import { qualitySummary, minimumLevel, checkMinimumLevel } from '../lib/quality.js'
+import type { Result, SpecPackage } from 'shared'
+
+export { generateLockfile } from '../lib/lockfile.js'
 
 export interface InstallOptions {
   saveDev?: boolean
   dryRun?: boolean
   force?: boolean
   registry?: string
+  /** Skip devDependencies when installing everything from specpm.yaml */
+  production?: boolean
+  /** Install only from the package cache; fail instead of using the network */
+  offline?: boolean
+  /** Use cached metadata and tarballs when present, fetching only what is missing */
+  preferOffline?: boolean
+  /** Link a local directory in place of copying it, so edits to it are read live */
+  link?: boolean
+  /** Refuse registry packages published below this verification level (`L1` or `1`) */
+  minLevel?: string
 }
 
-interface ProjectManifest {
+export interface ProjectManifest {
   name: string
   version: string
   dependencies?: Record<string, string>
@@ -28,7 +53,7 @@ async function fileExists(filePath: string): Promise<boolean> {
   try { await access(filePath); return true } catch { return false }
 }
 
-async function loadProjectManifest(cwd: string): Promise<Result<ProjectManifest, string>> {
+export async function loadProjectManifest(cwd: string): Promise<Result<ProjectManifest, string>> {
   const manifestPath = join(cwd, 'specpm.yaml')
   if (!(await fileExists(manifestPath))) {
     return { ok: false, error: 'Not a SpecPM project. Run `specpm init` first.' }
@@ -41,19 +66,53 @@ async function loadProjectManifest(cwd: string): Promise<Result<ProjectManifest,
   }
 }
 
-export async function installFromLocalPath(
-  sourcePath: string,
-  options: InstallOptions = {}
-): Promise<Result<string, string>> {
-  const cwd = process.cwd()
+/**
+ * Replacements declared in the install root's specpm.yaml
+ */
+export async function loadReplacements(root: string): Promise<Result<Record<string, string>, string>> {
+  const manifest = await loadProjectManifest(root)
+  if (!manifest.ok) return manifest
+  return projectReplacements(root, manifest.value.overrides)
+}
 
-  // Check project is initialized
-  const manifestResult = await loadProjectManifest(cwd)
-  if (!manifestResult.ok) return manifestResult
+/**
+ * Warn about peerDependencies that the installed specs leave missing or out of range
+ */
+export async function reportPeerIssues(cwd: string): Promise<void> {
+  const installedResult = await listInstalledSpecs(cwd)
+  if (!installedResult.ok) return
+  for (const issue of findPeerIssues(installedResult.value.map(spec => spec.manifest))) {
+    console.error(`⚠️  ${issue.message}`)
+  }
+}
 
-  // Resolve source path
-  const resolvedSource = isAbsolute(sourcePath) ? sourcePath : resolve(cwd, sourcePath)
+/**
+ * Replace a staging directory with a link to `source`
+ */
+async function linkDirectory(source: string, dir: string): Promise<void> {
+  if (!(await fileExists(join(source, 'spec.yaml')))) {
+    throw new Error(`Source not found: ${source}`)
+  }
+  await rm(dir, { recursive: true, force: true })
+  // Junctions need no extra privileges on Windows; elsewhere the type is ignored
+  await symlink(resolve(source), dir, 'junction')
+}
 
+/**
+ * Install a package from a directory and record `resolved` as its source in the lockfile.
+ * A `link:` source is linked rather than copied, and specpm.yaml records the link; it records
+ * `specifier` (a git or tarball source) when given, else the installed version.
+ * Packages go into `root` (the workspace root for a workspace); `cwd`'s specpm.yaml records the dependency.
+ */
+async function installFromDirectory(
+  root: string,
+  cwd: string,
+  manifest: ProjectManifest,
+  resolvedSource: string,
+  resolved: string,
+  options: InstallOptions,
+  specifier?: string,
+): Promise<Result<string, string>> {
   // Validate the package
   const loadResult = await loadSpecPackage(resolvedSource)
   if (!loadResult.ok) {
@@ -73,61 +132,143 @@ export async function installFromLocalPath(
     return { ok: true, value: packageName }
   }
 
-  // Copy to .specpm/specs/@scope/name/
-  const targetDir = join(cwd, '.specpm', 'specs', `@${match[1]}`, match[2])
-  await mkdir(targetDir, { recursive: true })
-  await cp(resolvedSource, targetDir, { recursive: true })
+  // Copy (or link) into staging; .specpm/specs/@scope/name/ is only swapped on commit
+  const linked = resolved.startsWith('link:')
+  const transaction = await beginInstallTransaction(root, { manifestPath: join(cwd, 'specpm.yaml') })
+  const stageResult = await transaction.stage(
+    packageName,
+    dir => linked ? linkDirectory(resolvedSource, dir) : cp(resolvedSource, dir, { recursive: true }),
+    { version: spec.manifest.version, resolved },
+  )
+  if (!stageResult.ok) {
+    await transaction.abort()
+    return stageResult
+  }
 
   // Update specpm.yaml
-  const manifest = manifestResult.value
   const depKey = options.saveDev ? 'devDependencies' : 'dependencies'
   if (!manifest[depKey]) {
     manifest[depKey] = {}
   }
-  ;(manifest[depKey] as Record<string, string>)[packageName] = spec.manifest.version
+  ;(manifest[depKey] as Record<string, string>)[packageName] = linked
+    ? linkResolved(cwd, resolvedSource)
+    : specifier ?? spec.manifest.version
+  transaction.setManifest(manifest)
+
+  // Swap in the package, write specpm.yaml and regenerate the lockfile
+  const commitResult = await transaction.commit()
+  if (!commitResult.ok) return commitResult
+
+  if (linked) {
+    console.error(`✅ Linked ${packageName}@${spec.manifest.version} → ${resolvedSource}`)
+  } else {
+    const from = resolved.startsWith('local:') ? '' : ` from ${resolved}`
+    console.error(`✅ Installed ${packageName}@${spec.manifest.version}${from}`)
+  }
+  await reportPeerIssues(root)
+  return { ok: true, value: packageName }
+}
 
-  await writeFile(join(cwd, 'specpm.yaml'), stringify(manifest))
+export async function installFromLocalPath(
+  sourcePath: string,
+  options: InstallOptions = {}
+): Promise<Result<string, string>> {
+  const cwd = process.cwd()
 
-  // Generate lockfile
-  await generateLockfile(cwd)
+  // Check project is initialized
+  const manifestResult = await loadProjectManifest(cwd)
+  if (!manifestResult.ok) return manifestResult
 
-  console.error(`✅ Installed ${packageName}@${spec.manifest.version}`)
-  return { ok: true, value: packageName }
+  // Resolve source path; the lockfile records it relative to the install root
+  const root = await findInstallRoot(cwd)
+  const resolvedSource = isAbsolute(sourcePath) ? sourcePath : resolve(cwd, sourcePath)
+  const resolved = options.link ? linkResolved(root, resolvedSource) : localResolved(root, resolvedSource)
+  return installFromDirectory(root, cwd, manifestResult.value, resolvedSource, resolved, options)
 }
 
-export async function generateLockfile(cwd: string): Promise<void> {
-  const specsDir = join(cwd, '.specpm', 'specs')
-  if (!(await fileExists(specsDir))) return
-
-  const { listInstalledSpecs } = await import('../lib/loader.js')
-  const result = await listInstalledSpecs(cwd)
-  if (!result.ok) return
+/**
+ * Install from a git repository (`git+https:`, `git+file:`, `github:`), a local `.tgz` or a
+ * tarball URL. specpm.yaml records the source; the lockfile records the commit or content
+ * hash that was installed.
+ */
+export async function installFromSource(
+  source: string,
+  options: InstallOptions = {}
+): Promise<Result<string, string>> {
+  const cwd = process.cwd()
 
-  const packages: Record<string, unknown> = {}
-  for (const spec of result.value) {
-    const specYamlPath = join(spec.directory, 'spec.yaml')
-    const content = await readFile(specYamlPath, 'utf-8')
-    const hash = createHash('sha256').update(content).digest('hex')
+  const manifestResult = await loadProjectManifest(cwd)
+  if (!manifestResult.ok) return manifestResult
 
-    const key = `${spec.manifest.name}@${spec.manifest.version}`
-    packages[key] = {
-      resolved: `local:${spec.directory}`,
-      integrity: `sha256-${hash}`,
-      dependencies: spec.manifest.dependencies ?? {},
-      installedAt: new Date().toISOString(),
-    }
+  const parsedResult = parsePackageSource(source)
+  if (!parsedResult.ok) return parsedResult
+  let parsed = parsedResult.value
+  if (!parsed) {
+    return { ok: false, error: `Unsupported source: ${source}` }
+  }
+  // Tarball paths are given relative to where the command runs, but locked relative to the install root
+  if (parsed.type === 'tarball' && !isAbsolute(parsed.path)) {
+    parsed = { ...parsed, path: resolve(cwd, parsed.path) }
   }
 
-  const lockfile = {
-    lockfileVersion: 1,
-    packages,
+  const root = await findInstallRoot(cwd)
+  const fetched = await fetchPackageSource(parsed, root, networkMode(options))
+  if (!fetched.ok) return fetched
+  try {
+    return await installFromDirectory(
+      root, cwd, manifestResult.value, fetched.value.directory, fetched.value.resolved, options, sourceSpecifier(parsed, cwd),
+    )
+  } finally {
+    await fetched.value.cleanup()
   }
+}
+
+/**
+ * Download, verify and stage resolved registry packages into a transaction.
+ * Each package comes from the registry that serves its scope; a directory the
+ * resolver picked in place of a package is linked instead.
+ */
+export async function stageRegistryPackages(
+  transaction: InstallTransaction,
+  packages: RegistryResolution[],
+  options: { registry?: string; offline?: boolean; preferOffline?: boolean } = {},
+): Promise<Result<void, string>> {
+  const network = networkMode(options)
+  for (const pkg of packages) {
+    if (pkg.link) {
+      const source = pkg.link
+      const stageResult = await transaction.stage(pkg.name, dir => linkDirectory(source, dir), { package: pkg.package })
+      if (!stageResult.ok) return stageResult
+      continue
+    }
+    if (!pkg.metadata) {
+      return { ok: false, error: `No registry metadata for ${pkg.name}@${pkg.version}` }
+    }
+    const versionMeta = pkg.metadata
+    const packageName = pkg.package ?? pkg.name
+    const registry = await resolveRegistryUrl(options.registry, packageName)
+    if (!registry) {
+      return { ok: false, error: noRegistryError(packageName) }
+    }
+
+    // Download tarball and verify integrity
+    const tarballResult = await downloadTarball(registry, versionMeta, network)
+    if (!tarballResult.ok) {
+      return { ok: false, error: `${pkg.name}@${pkg.version}: ${tarballResult.error}` }
+    }
 
-  await writeFile(join(cwd, 'specpm-lock.yaml'), stringify(lockfile))
+    const stageResult = await transaction.stage(
+      pkg.name,
+      dir => extractTarball(tarballResult.value, dir),
+      { version: pkg.version, resolved: tarballUrl(registry, versionMeta), package: pkg.package },
+    )
+    if (!stageResult.ok) return stageResult
+  }
+  return { ok: true, value: undefined }
 }
 
 export async function installFromRegistry(
-  packageName: string,
+  packageSpec: string,
   options: InstallOptions = {}
 ): Promise<Result<string, string>> {
   const cwd = process.cwd()
@@ -135,91 +276,467 @@ export async function installFromRegistry(
   const manifestResult = await loadProjectManifest(cwd)
   if (!manifestResult.ok) return manifestResult
 
-  // Determine registry URL
-  let registryUrl = options.registry
-  if (!registryUrl) {
-    const authPath = join(homedir(), '.specpm', 'auth.json')
-    if (await fileExists(authPath)) {
-      const authContent = await readFile(authPath, 'utf-8')
-      registryUrl = JSON.parse(authContent).registry
-    }
+  // Parse package name and optional range or dist-tag; `<name>@npm:<package>@<range>` installs an alias
+  const aliasIndex = packageSpec.indexOf('@npm:')
+  const alias = aliasIndex > 0 ? parseAlias(packageSpec.slice(aliasIndex + 1)) : null
+  if (aliasIndex > 0 && !alias) {
+    return { ok: false, error: `Invalid alias: ${packageSpec}. Expected <name>@npm:@scope/name@<range>` }
   }
-  if (!registryUrl) {
-    return { ok: false, error: 'No registry configured. Run `specpm login` or pass --registry.' }
+  const { name: packageName, versionRange: requested } = alias
+    ? { name: packageSpec.slice(0, aliasIndex), versionRange: alias.range === 'latest' ? null : alias.range }
+    : parseRequirement(packageSpec)
+  if (!/^@[a-z0-9-]+\/[a-z0-9-]+$/.test(packageName)) {
+    return { ok: false, error: `Invalid package name: ${packageName}. Expected @scope/name` }
+  }
+  const sourceName = alias?.name ?? packageName
+
+  // Fetch metadata to get the available versions
+  const network = networkMode(options)
+  const metaResult = await fetchMetadataForPackage(sourceName, { registry: options.registry, network })
+  if (!metaResult.ok) return metaResult
+  const meta = metaResult.value
+
+  const selectResult = selectVersion(meta, requested)
+  if (!selectResult.ok) return selectResult
+  const version = selectResult.value
+
+  // Resolve transitive dependencies into one flat tree
+  const root = await findInstallRoot(cwd)
+  const replacements = await loadReplacements(root)
+  if (!replacements.ok) return replacements
+  const resolution = await resolveRegistryDependencies(
+    { [packageName]: alias ? aliasSpecifier(sourceName, version) : version },
+    name => name === sourceName
+      ? Promise.resolve(metaResult)
+      : fetchMetadataForPackage(name, { registry: options.registry, network }),
+    root,
+    replacements.value,
+  )
+  if (!resolution.ok) {
+    return { ok: false, error: resolution.error.message }
   }
 
-  // Parse package name
-  const match = packageName.match(/^@([a-z0-9-]+)\/([a-z0-9-]+)$/)
-  if (!match) {
-    return { ok: false, error: `Invalid package name: ${packageName}. Expected @scope/name` }
+  // The requested package is always (re)installed; dependencies only when missing or mismatched.
+  // A reused installed copy has no metadata, which `meta` only holds for the requested package.
+  const toInstall = resolution.value
+    .filter(p => p.name === packageName || !p.installed)
+    .map(pkg => pkg.link || pkg.metadata || (pkg.package ?? pkg.name) !== sourceName
+      ? pkg
+      : { ...pkg, metadata: meta.versions[pkg.version] })
+
+  // Show what the registry knows about each package, and hold it to the verification threshold
+  for (const pkg of toInstall) {
+    if (pkg.metadata) console.error(qualitySummary(pkg.name, pkg.metadata).join('\n'))
   }
-  const [, scope, name] = match
+  const level = await minimumLevel(cwd, options.minLevel)
+  if (!level.ok) return level
+  const levelCheck = checkMinimumLevel(toInstall, level.value)
+  if (!levelCheck.ok) return levelCheck
 
-  // Fetch metadata to get latest version
-  const metaRes = await fetch(`${registryUrl}/api/v1/packages/${scope}/${name}`)
-  if (!metaRes.ok) {
-    if (metaRes.status === 404) {
-      return { ok: false, error: `Package ${packageName} not found in registry` }
+  if (options.dryRun) {
+    for (const pkg of toInstall) {
+      const suffix = pkg.name === packageName ? '' : ' (dependency)'
+      console.error(`Would install ${pkg.name}@${pkg.version}${pkg.package ? ` (${pkg.package})` : ''} from registry${suffix}`)
     }
-    return { ok: false, error: `Registry error: ${metaRes.status}` }
+    return { ok: true, value: packageName }
   }
 
-  const meta = await metaRes.json() as any
-  const versions = Object.keys(meta.versions)
-  if (versions.length === 0) {
-    return { ok: false, error: `No versions found for ${packageName}` }
+  // Download and extract everything into staging before touching .specpm/specs/
+  const transaction = await beginInstallTransaction(root, { manifestPath: join(cwd, 'specpm.yaml') })
+  const stageResult = await stageRegistryPackages(transaction, toInstall, options)
+  if (!stageResult.ok) {
+    await transaction.abort()
+    return stageResult
   }
 
-  // Pick latest version (simple: last published)
-  const latestVersion = versions[0]
-  const versionMeta = meta.versions[latestVersion]
+  // Update specpm.yaml
+  const projectManifest = manifestResult.value
+  const depKey = options.saveDev ? 'devDependencies' : 'dependencies'
+  if (!projectManifest[depKey]) {
+    projectManifest[depKey] = {}
+  }
+  // Keep an explicit range; otherwise save a caret range on the selected version
+  const savedRange = requested && requested !== 'latest' && !meta.distTags?.[requested] ? requested : `^${version}`
+  ;(projectManifest[depKey] as Record<string, string>)[packageName] = alias ? aliasSpecifier(sourceName, savedRange) : savedRange
+  transaction.setManifest(projectManifest)
+
+  // Swap in the packages, write specpm.yaml and regenerate the lockfile
+  const commitResult = await transaction.commit()
+  if (!commitResult.ok) return commitResult
+
+  console.error(`✅ Installed ${packageName}@${version}${alias ? ` (${sourceName})` : ''} from registry`)
+  for (const pkg of toInstall) {
+    if (pkg.name !== packageName) {
+      console.error(`   + ${pkg.name}@${pkg.version} (dependency)`)
+    }
+  }
+  await reportPeerIssues(root)
+  return { ok: true, value: packageName }
+}
 
-  if (options.dryRun) {
-    console.error(`Would install ${packageName}@${latestVersion} from registry`)
-    return { ok: true, value: packageName }
+async function populateFromLockfile(
+  cwd: string,
+  pkg: LockedPackage,
+  targetDir: string,
+  network: NetworkMode,
+): Promise<void> {
+  if (pkg.resolved.startsWith('link:')) {
+    await linkDirectory(linkSourcePath(cwd, pkg.resolved), targetDir)
+    return
   }
 
-  // Download tarball
-  const tarballRes = await fetch(`${registryUrl}${versionMeta.tarballUrl}`)
-  if (!tarballRes.ok) {
-    return { ok: false, error: `Failed to download tarball: ${tarballRes.status}` }
+  if (pkg.resolved.startsWith('local:')) {
+    const sourcePath = localSourcePath(cwd, pkg.resolved)
+    if (!(await fileExists(sourcePath))) {
+      throw new Error(`Source not found: ${sourcePath}`)
+    }
+    await cp(sourcePath, targetDir, { recursive: true })
+    return
   }
 
-  const tarballBuffer = Buffer.from(await tarballRes.arrayBuffer())
+  if (/^https?:\/\//.test(pkg.resolved)) {
+    const tarballResult = await fetchTarball(pkg.resolved, pkg, network)
+    if (!tarballResult.ok) throw new Error(tarballResult.error)
+    await extractTarball(tarballResult.value, targetDir)
+    return
+  }
 
-  // Verify integrity
-  const computedHash = 'sha256-' + createHash('sha256').update(tarballBuffer).digest('hex')
-  if (computedHash !== versionMeta.integrity) {
-    return { ok: false, error: `Integrity check failed. Expected ${versionMeta.integrity}, got ${computedHash}` }
+  // Git and tarball sources are pinned to a commit or hash in `resolved`
+  const source = parsePackageSource(pkg.resolved)
+  if (!source.ok) throw new Error(source.error)
+  if (source.value) {
+    const fetched = await fetchPackageSource(source.value, cwd, network)
+    if (!fetched.ok) throw new Error(fetched.error)
+    try {
+      await cp(fetched.value.directory, targetDir, { recursive: true })
+    } finally {
+      await fetched.value.cleanup()
+    }
+    return
   }
 
-  // Extract to .specpm/specs/@scope/name/
-  const targetDir = join(cwd, '.specpm', 'specs', `@${scope}`, name)
-  await mkdir(targetDir, { recursive: true })
+  throw new Error(`Unsupported source: ${pkg.resolved}`)
+}
+
+/**
+ * Stage a locked package from its recorded source and check it against the locked integrity.
+ * Linked packages are taken as they are now: their version and contents may have moved on.
+ */
+async function stageLockedPackage(
+  cwd: string,
+  transaction: InstallTransaction,
+  pkg: LockedPackage,
+  lockfileVersion: number,
+  network: NetworkMode,
+): Promise<Result<void, string>> {
+  const linked = pkg.resolved.startsWith('link:')
+
+  // A version still in the store is relinked without fetching, once its contents check out
+  const stored = storePath(cwd, pkg.package ?? pkg.name, pkg.version)
+  if (!linked && await computeIntegrity(stored, lockfileVersion).catch(() => null) === pkg.integrity) {
+    const reused = await transaction.useStored(pkg.name, pkg.version, { resolved: pkg.resolved, package: pkg.package })
+    if (reused.ok) return { ok: true, value: undefined }
+  }
 
-  // Extract tarball
-  const tempDir = await mkdtemp(join(tmpdir(), 'specpm-install-'))
+  const stageResult = await transaction.stage(
+    pkg.name,
+    dir => populateFromLockfile(cwd, pkg, dir, network),
+    { version: linked ? undefined : pkg.version, resolved: pkg.resolved, package: pkg.package },
+  )
+  if (!stageResult.ok) return stageResult
+  if (linked) return { ok: true, value: undefined }
+
+  const integrity = await computeIntegrity(stageResult.value.directory, lockfileVersion)
+  if (integrity !== pkg.integrity) {
+    return {
+      ok: false,
+      error: `Integrity check failed for ${pkg.name}@${pkg.version}. Expected ${pkg.integrity}, got ${integrity}`,
+    }
+  }
+  return { ok: true, value: undefined }
+}
+
+/**
+ * Fetch a git or tarball source declared in specpm.yaml and stage it, to be locked at the
+ * commit or content hash it has now
+ */
+async function stageSource(
+  cwd: string,
+  transaction: InstallTransaction,
+  name: string,
+  specifier: string,
+  network: NetworkMode,
+): Promise<Result<SpecPackage, string>> {
+  const source = parsePackageSource(specifier)
+  if (!source.ok) return source
+  const fetched = await fetchPackageSource(source.value!, cwd, network)
+  if (!fetched.ok) return fetched
   try {
-    const tarballPath = join(tempDir, 'package.tgz')
-    await writeFile(tarballPath, tarballBuffer)
-    execSync(`tar xzf ${tarballPath} -C ${targetDir}`, { stdio: 'pipe' })
+    return await transaction.stage(name, dir => cp(fetched.value.directory, dir, { recursive: true }), {
+      resolved: fetched.value.resolved,
+    })
   } finally {
-    await rm(tempDir, { recursive: true, force: true })
+    await fetched.value.cleanup()
   }
+}
 
-  // Update specpm.yaml
-  const projectManifest = manifestResult.value
-  const depKey = options.saveDev ? 'devDependencies' : 'dependencies'
-  if (!projectManifest[depKey]) {
-    projectManifest[depKey] = {}
+/**
+ * Whether the installed copy of a locked package is the same package with the locked contents,
+ * or for a linked package, links to the locked directory
+ */
+async function isLockedInstalled(
+  cwd: string,
+  installed: SpecPackage[],
+  pkg: LockedPackage,
+  lockfileVersion: number,
+): Promise<boolean> {
+  const current = installed.find(spec => spec.manifest.name === pkg.name)
+  if (!current || current.aliasOf !== pkg.package) return false
+  if (pkg.resolved.startsWith('link:')) {
+    return await installedLinkTarget(cwd, current.directory) === linkSourcePath(cwd, pkg.resolved)
   }
-  ;(projectManifest[depKey] as Record<string, string>)[packageName] = latestVersion
+  return current.manifest.version === pkg.version &&
+    await computeIntegrity(current.directory, lockfileVersion) === pkg.integrity
+}
 
-  await writeFile(join(cwd, 'specpm.yaml'), stringify(projectManifest))
+/**
+ * Make .specpm/specs/ hold exactly `wanted` from the lockfile. The lockfile is the
+ * source of truth here, so it is never rewritten.
+ */
+async function restoreFromLockfile(
+  cwd: string,
+  lockfile: Lockfile,
+  wanted: LockedPackage[],
+  options: InstallOptions,
+): Promise<Result<string[], string>> {
+  // Skip packages that are already installed with the locked contents
+  const installedResult = await listInstalledSpecs(cwd)
+  const installed = installedResult.ok ? installedResult.value : []
+  const toInstall: LockedPackage[] = []
+  for (const pkg of wanted) {
+    if (!(await isLockedInstalled(cwd, installed, pkg, lockfile.lockfileVersion))) {
+      toInstall.push(pkg)
+    }
+  }
+  const wantedNames = new Set(wanted.map(pkg => pkg.name))
+  const toRemove = installed.map(spec => spec.manifest.name).filter(name => !wantedNames.has(name))
 
-  // Generate lockfile
-  await generateLockfile(cwd)
+  if (options.dryRun) {
+    for (const pkg of toInstall) {
+      console.error(`Would install ${pkg.name}@${pkg.version} from ${pkg.resolved}`)
+    }
+    for (const name of toRemove) {
+      console.error(`Would remove ${name}`)
+    }
+    return { ok: true, value: toInstall.map(pkg => pkg.name) }
+  }
 
-  console.error(`✅ Installed ${packageName}@${latestVersion} from registry`)
-  return { ok: true, value: packageName }
+  const transaction = await beginInstallTransaction(cwd, { writeLockfile: false })
+  for (const pkg of toInstall) {
+    const stageResult = await stageLockedPackage(cwd, transaction, pkg, lockfile.lockfileVersion, networkMode(options))
+    if (!stageResult.ok) {
+      await transaction.abort()
+      return stageResult
+    }
+  }
+  for (const name of toRemove) {
+    transaction.remove(name)
+  }
+
+  const commitResult = await transaction.commit()
+  if (!commitResult.ok) return commitResult
+
+  if (toInstall.length === 0 && toRemove.length === 0) {
+    console.error(`✅ Installed specs already match ${LOCKFILE_NAME}`)
+  } else {
+    console.error(`✅ Installed ${toInstall.length} package(s) from ${LOCKFILE_NAME}`)
+    for (const pkg of toInstall) {
+      console.error(`   + ${pkg.name}@${pkg.version}`)
+    }
+    for (const name of toRemove) {
+      console.error(`   - ${name}`)
+    }
+  }
+  await reportPeerIssues(cwd)
+  return { ok: true, value: toInstall.map(pkg => pkg.name) }
+}
+
+/**
+ * Install exactly the versions recorded in specpm-lock.yaml. Nothing is re-resolved:
+ * the install fails if specpm.yaml and the lockfile disagree or an integrity hash differs.
+ */
+export async function installFromLockfile(
+  options: InstallOptions = {}
+): Promise<Result<string[], string>> {
+  // Inside a workspace, everything is installed for the whole workspace root
+  const cwd = await findInstallRoot(process.cwd())
+
+  const manifestResult = await loadProjectManifest(cwd)
+  if (!manifestResult.ok) return manifestResult
+  const manifest = manifestResult.value
+
+  const lockResult = await readLockfile(cwd)
+  if (!lockResult.ok) return lockResult
+  if (!lockResult.value) {
+    return { ok: false, error: `No ${LOCKFILE_NAME} found. Run \`specpm install\` to create one.` }
+  }
+  const lockfile = lockResult.value
+
+  const allDependencies = await projectDependencies(cwd, manifest)
+  if (!allDependencies.ok) return allDependencies
+  const replacements = projectReplacements(cwd, manifest.overrides)
+  if (!replacements.ok) return replacements
+  const problems = checkLockfileAgreement(allDependencies.value, lockfile, satisfiesRange, replacements.value)
+  if (problems.length > 0) {
+    const details = problems.map(p => `  ${p}`).join('\n')
+    return {
+      ok: false,
+      error: `specpm.yaml and ${LOCKFILE_NAME} are out of sync:\n${details}\nRun \`specpm install\` to update the lockfile.`,
+    }
+  }
+
+  const roots = await projectDependencies(cwd, manifest, { production: options.production })
+  if (!roots.ok) return roots
+  return restoreFromLockfile(cwd, lockfile, lockedClosure(Object.keys(roots.value), lockfile), options)
+}
+
+/**
+ * Install everything specpm.yaml declares (`specpm install` with no argument).
+ * A lockfile that matches specpm.yaml is followed exactly; otherwise missing or
+ * mismatched packages are resolved again and the lockfile is rewritten.
+ */
+export async function installAll(
+  options: InstallOptions = {}
+): Promise<Result<string[], string>> {
+  // Inside a workspace, everything is installed for the whole workspace root
+  const cwd = await findInstallRoot(process.cwd())
+
+  const manifestResult = await loadProjectManifest(cwd)
+  if (!manifestResult.ok) return manifestResult
+  const manifest = manifestResult.value
+
+  const lockResult = await readLockfile(cwd)
+  if (!lockResult.ok) return lockResult
+  const lockfile = lockResult.value
+
+  // A workspace root installs every workspace's dependencies too, hoisted into its own .specpm/specs/
+  const allDependencies = await projectDependencies(cwd, manifest)
+  if (!allDependencies.ok) return allDependencies
+  const rootsResult = await projectDependencies(cwd, manifest, { production: options.production })
+  if (!rootsResult.ok) return rootsResult
+  const roots = rootsResult.value
+  const replacements = projectReplacements(cwd, manifest.overrides)
+  if (!replacements.ok) return replacements
+  if (lockfile && checkLockfileAgreement(allDependencies.value, lockfile, satisfiesRange, replacements.value).length === 0) {
+    return restoreFromLockfile(cwd, lockfile, lockedClosure(Object.keys(roots), lockfile), options)
+  }
+
+  // Packages locked to a local path, git repository or tarball can't be re-resolved from a registry;
+  // restore them from their recorded source
+  const localRoots: LockedPackage[] = []
+  const sourceRoots: Record<string, string> = {}
+  const registryRoots: Record<string, string> = {}
+  for (const [name, range] of Object.entries(roots)) {
+    const locked = lockfile?.packages.find(pkg => pkg.name === name)
+    const alias = parseAlias(range)
+    if (range.startsWith('link:')) {
+      // Linked from specpm.yaml: the resolver reads the directory as it is now
+      registryRoots[name] = range
+    } else if (isSourceSpecifier(range)) {
+      // A git or tarball source stays on its locked commit or hash until specpm.yaml names another source
+      if (locked && lockfile?.dependencies[name]?.specifier === range) localRoots.push(locked)
+      else sourceRoots[name] = range
+    } else if (locked && !isRegistryTarball(locked.resolved) && !locked.resolved.startsWith('link:') &&
+      !alias && satisfiesRange(locked.version, range)) {
+      localRoots.push(locked)
+    } else if (locked && locked.package === alias?.name && satisfiesRange(locked.version, range)) {
+      // Stay on the locked version while it still satisfies the range
+      registryRoots[name] = alias ? aliasSpecifier(alias.name, locked.version) : locked.version
+    } else {
+      registryRoots[name] = range
+    }
+  }
+
+  const installedResult = await listInstalledSpecs(cwd)
+  const installed = installedResult.ok ? installedResult.value : []
+  const localToInstall: LockedPackage[] = []
+  for (const pkg of localRoots) {
+    if (!(await isLockedInstalled(cwd, installed, pkg, lockfile?.lockfileVersion ?? LOCKFILE_VERSION))) {
+      localToInstall.push(pkg)
+    }
+  }
+
+  // A registry is only needed for packages that actually have to be fetched
+  const network = networkMode(options)
+  const resolution = await resolveRegistryDependencies(
+    registryRoots,
+    name => fetchMetadataForPackage(name, { registry: options.registry, network }),
+    cwd,
+    replacements.value,
+  )
+  if (!resolution.ok) {
+    return { ok: false, error: resolution.error.message }
+  }
+  const registryToInstall = resolution.value
+    .filter(p => !p.installed && !localToInstall.some(pkg => pkg.name === p.name) && !(p.name in sourceRoots))
+  const names = [...localToInstall, ...registryToInstall].map(pkg => pkg.name).concat(Object.keys(sourceRoots))
+
+  const level = await minimumLevel(cwd, options.minLevel)
+  if (!level.ok) return level
+  const levelCheck = checkMinimumLevel(registryToInstall, level.value)
+  if (!levelCheck.ok) return levelCheck
+
+  if (options.dryRun) {
+    for (const pkg of [...localToInstall, ...registryToInstall]) {
+      console.error(`Would install ${pkg.name}@${pkg.version}`)
+    }
+    for (const [name, specifier] of Object.entries(sourceRoots)) {
+      console.error(`Would install ${name} from ${specifier}`)
+    }
+    return { ok: true, value: names }
+  }
+
+  // A production install resolves no devDependencies, so a lockfile written from it would lack them
+  const transaction = await beginInstallTransaction(cwd, { writeLockfile: !options.production })
+  for (const pkg of localToInstall) {
+    const stageResult = await stageLockedPackage(cwd, transaction, pkg, lockfile?.lockfileVersion ?? LOCKFILE_VERSION, network)
+    if (!stageResult.ok) {
+      await transaction.abort()
+      return stageResult
+    }
+  }
+  const fromSources: Array<{ name: string; version: string }> = []
+  for (const [name, specifier] of Object.entries(sourceRoots)) {
+    const stageResult = await stageSource(cwd, transaction, name, specifier, network)
+    if (!stageResult.ok) {
+      await transaction.abort()
+      return stageResult
+    }
+    fromSources.push({ name, version: stageResult.value.manifest.version })
+  }
+  if (registryToInstall.length > 0) {
+    const stageResult = await stageRegistryPackages(transaction, registryToInstall, options)
+    if (!stageResult.ok) {
+      await transaction.abort()
+      return stageResult
+    }
+  }
+
+  // Swap in the packages and regenerate the lockfile
+  const commitResult = await transaction.commit()
+  if (!commitResult.ok) return commitResult
+
+  if (names.length === 0) {
+    console.error('✅ All dependencies are already installed')
+  } else {
+    console.error(`✅ Installed ${names.length} package(s) from specpm.yaml`)
+    for (const pkg of [...localToInstall, ...fromSources, ...registryToInstall]) {
+      console.error(`   + ${pkg.name}@${pkg.version}`)
+    }
+  }
+  if (options.production) {
+    console.error(`⚠️  ${LOCKFILE_NAME} was not updated by a --production install. Run \`specpm install\` to update it.`)
+  }
+  await reportPeerIssues(cwd)
+  return { ok: true, value: names }
 }
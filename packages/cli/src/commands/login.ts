@@ -56,9 +56,15 @@ export async function loginCommand(options: LoginOptions): Promise<Result<string
 
   const whoami = await whoamiRes.json() as any
 
-  // Store auth
+  // Store auth. The last login becomes the default registry; tokens for other registries are kept
+  let tokens: Record<string, string> = {}
+  try {
+    tokens = JSON.parse(await readFile(AUTH_FILE, 'utf-8')).tokens ?? {}
+  } catch {
+    // First login
+  }
   await mkdir(AUTH_DIR, { recursive: true })
-  await writeFile(AUTH_FILE, JSON.stringify({ registry, token }, null, 2))
+  await writeFile(AUTH_FILE, JSON.stringify({ registry, token, tokens: { ...tokens, [registry]: token } }, null, 2))
   console.error(`✅ Authenticated as ${whoami.username} on ${registry}`)
   return { ok: true, value: whoami.username }
 }
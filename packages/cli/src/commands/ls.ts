@@ -0,0 +1,138 @@
+import type { Result } from 'shared'
+import {
+  buildDependencyTree, findDependencyChains, type DependencyNode, type DependencyTree, type DependencyChain,
+} from '../lib/dependency-tree.js'
+import { findInstallRoot, projectDependencies } from '../lib/workspace.js'
+import { loadProjectManifest, loadReplacements, type ProjectManifest } from './install.js'
+
+export interface LsOptions {
+  /** Show transitive dependencies, not just the ones in specpm.yaml */
+  tree?: boolean
+  json?: boolean
+}
+
+export interface WhyResult {
+  name: string
+  /** Installed version, or null when the package is not installed */
+  version: string | null
+  chains: DependencyChain[]
+}
+
+function describeNode(node: DependencyNode): string {
+  if (node.problem === 'missing') return `${node.name}@${node.range} MISSING`
+  let label = `${node.name}@${node.version}`
+  if (node.problem === 'invalid') label += ` INVALID (wants ${node.range})`
+  if (node.dev) label += ' (dev)'
+  if (node.deduped) label += ' deduped'
+  return label
+}
+
+function printNodes(nodes: DependencyNode[], prefix: string, recurse: boolean): void {
+  nodes.forEach((node, index) => {
+    const last = index === nodes.length - 1
+    console.error(`${prefix}${last ? '└── ' : '├── '}${describeNode(node)}`)
+    if (recurse) {
+      printNodes(node.dependencies, `${prefix}${last ? '    ' : '│   '}`, recurse)
+    }
+  })
+}
+
+/**
+ * The project with the dependencies the tree starts from. A workspace root's specs are
+ * installed for every workspace, so it starts from all of their dependencies too.
+ */
+async function treeRoots(cwd: string, manifest: ProjectManifest): Promise<Result<ProjectManifest, string>> {
+  if (!Array.isArray(manifest['workspaces'])) return { ok: true, value: manifest }
+
+  const all = await projectDependencies(cwd, manifest)
+  if (!all.ok) return all
+  const production = await projectDependencies(cwd, manifest, { production: true })
+  if (!production.ok) return production
+  const devDependencies = Object.fromEntries(Object.entries(all.value).filter(([name]) => !(name in production.value)))
+  return { ok: true, value: { ...manifest, dependencies: production.value, devDependencies } }
+}
+
+/** Drop transitive dependencies for the flat listing */
+function topLevel(tree: DependencyTree): DependencyTree {
+  return { ...tree, dependencies: tree.dependencies.map(node => ({ ...node, dependencies: [] })) }
+}
+
+export async function lsCommand(options: LsOptions = {}): Promise<Result<DependencyTree, string>> {
+  const cwd = process.cwd()
+
+  const manifestResult = await loadProjectManifest(cwd)
+  if (!manifestResult.ok) return manifestResult
+  const project = await treeRoots(cwd, manifestResult.value)
+  if (!project.ok) return project
+
+  const replacements = await loadReplacements(await findInstallRoot(cwd))
+  if (!replacements.ok) return replacements
+
+  const treeResult = await buildDependencyTree(cwd, project.value, replacements.value)
+  if (!treeResult.ok) return treeResult
+  const tree = options.tree ? treeResult.value : topLevel(treeResult.value)
+
+  if (options.json) {
+    console.log(JSON.stringify(tree, null, 2))
+  } else {
+    console.error(`${tree.name}@${tree.version}`)
+    printNodes(tree.dependencies, '', !!options.tree)
+    for (const pkg of tree.extraneous) {
+      console.error(`${pkg.name}@${pkg.version} EXTRANEOUS`)
+    }
+    if (tree.dependencies.length === 0 && tree.extraneous.length === 0) {
+      console.error('└── (empty)')
+    }
+    if (tree.problems.length > 0) {
+      console.error('\n❌ Problems:')
+      for (const problem of tree.problems) console.error(`  - ${problem}`)
+    }
+  }
+
+  return { ok: true, value: tree }
+}
+
+function describeLink(link: { name: string; range: string; version: string | null }): string {
+  return link.version ? `${link.name}@${link.version} (${link.range})` : `${link.name} (missing, wants ${link.range})`
+}
+
+export async function whyCommand(packageName: string, options: { json?: boolean } = {}): Promise<Result<WhyResult, string>> {
+  const cwd = process.cwd()
+
+  const manifestResult = await loadProjectManifest(cwd)
+  if (!manifestResult.ok) return manifestResult
+  const project = await treeRoots(cwd, manifestResult.value)
+  if (!project.ok) return project
+
+  const replacements = await loadReplacements(await findInstallRoot(cwd))
+  if (!replacements.ok) return replacements
+
+  const chainsResult = await findDependencyChains(cwd, project.value, packageName, replacements.value)
+  if (!chainsResult.ok) return chainsResult
+  const chains = chainsResult.value
+
+  const treeResult = await buildDependencyTree(cwd, project.value, replacements.value)
+  if (!treeResult.ok) return treeResult
+  const extraneous = treeResult.value.extraneous.find(pkg => pkg.name === packageName)
+
+  const version = chains[0]?.path[chains[0].path.length - 1].version ?? extraneous?.version ?? null
+  if (chains.length === 0 && !extraneous) {
+    return { ok: false, error: `${packageName} is not installed and nothing in specpm.yaml requires it` }
+  }
+
+  const result: WhyResult = { name: packageName, version, chains }
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2))
+  } else {
+    console.error(version ? `${packageName}@${version}` : `${packageName} (not installed)`)
+    if (chains.length === 0) {
+      console.error('  Not required by anything in specpm.yaml (extraneous)')
+    }
+    for (const chain of chains) {
+      const via = chain.type === 'devDependencies' ? 'specpm.yaml (dev)' : 'specpm.yaml'
+      console.error(`  ${via} → ${chain.path.map(describeLink).join(' → ')}`)
+    }
+  }
+
+  return { ok: true, value: result }
+}
@@ -0,0 +1,229 @@
+import { join } from 'node:path'
+import type { Result } from 'shared'
+import { listInstalledSpecs } from '../lib/loader.js'
+import { readLockfile } from '../lib/lockfile.js'
+import { beginInstallTransaction } from '../lib/install-transaction.js'
+import { maxSatisfying, satisfiesRange, resolveRegistryDependencies } from '../lib/resolver.js'
+import {
+  fetchMetadataForPackage, selectVersion, type RegistryPackageMetadata,
+} from '../lib/registry-client.js'
+import { isRegistryTarball } from '../lib/sources.js'
+import { findInstallRoot } from '../lib/workspace.js'
+import { parseAlias, aliasSpecifier } from '../lib/aliases.js'
+import { minimumLevel, checkMinimumLevel } from '../lib/quality.js'
+import {
+  loadProjectManifest, loadReplacements, stageRegistryPackages, reportPeerIssues, type ProjectManifest,
+} from './install.js'
+
+export interface OutdatedOptions {
+  json?: boolean
+  registry?: string
+}
+
+export interface UpdateOptions {
+  latest?: boolean
+  dryRun?: boolean
+  registry?: string
+}
+
+export interface OutdatedEntry {
+  name: string
+  /** Installed version, or null when the package is missing */
+  current: string | null
+  /** Highest version within the range in specpm.yaml, or null when none matches */
+  wanted: string | null
+  /** Highest stable version (or what the `latest` dist-tag points at) */
+  latest: string
+  range: string
+  type: 'dependencies' | 'devDependencies'
+}
+
+interface VersionReport {
+  entries: OutdatedEntry[]
+  metadata: Map<string, RegistryPackageMetadata>
+}
+
+/**
+ * Look up current, wanted and latest versions for direct dependencies that came from a registry.
+ * An alias is looked up under the package it names; replaced packages are left alone.
+ */
+async function collectVersions(
+  cwd: string,
+  manifest: ProjectManifest,
+  registry: string | undefined,
+  only?: string,
+): Promise<Result<VersionReport, string>> {
+  const installedResult = await listInstalledSpecs(cwd)
+  const installed = new Map((installedResult.ok ? installedResult.value : []).map(s => [s.manifest.name, s.manifest.version]))
+
+  const root = await findInstallRoot(cwd)
+  const replacements = await loadReplacements(root)
+  if (!replacements.ok) return replacements
+
+  // Packages installed from a local path, git or a tarball have no registry to compare against
+  const lockResult = await readLockfile(root)
+  const localPackages = new Set(
+    (lockResult.ok && lockResult.value ? lockResult.value.packages : [])
+      .filter(pkg => !isRegistryTarball(pkg.resolved))
+      .map(pkg => pkg.name),
+  )
+
+  const entries: OutdatedEntry[] = []
+  const metadata = new Map<string, RegistryPackageMetadata>()
+  for (const type of ['dependencies', 'devDependencies'] as const) {
+    for (const [name, range] of Object.entries(manifest[type] ?? {})) {
+      if (only && name !== only) continue
+      if (localPackages.has(name) || name in replacements.value) continue
+
+      const packageName = parseAlias(range)?.name ?? name
+      const metaResult = await fetchMetadataForPackage(packageName, { registry })
+      if (!metaResult.ok) return metaResult
+      const meta = metaResult.value
+      metadata.set(packageName, meta)
+
+      const latestResult = selectVersion(meta, null)
+      if (!latestResult.ok) return latestResult
+
+      entries.push({
+        name,
+        current: installed.get(name) ?? null,
+        wanted: maxSatisfying(Object.keys(meta.versions), parseAlias(range)?.range ?? range),
+        latest: meta.distTags?.['latest'] ?? latestResult.value,
+        range,
+        type,
+      })
+    }
+  }
+  return { ok: true, value: { entries, metadata } }
+}
+
+export async function outdatedCommand(options: OutdatedOptions = {}): Promise<Result<OutdatedEntry[], string>> {
+  const cwd = process.cwd()
+
+  const manifestResult = await loadProjectManifest(cwd)
+  if (!manifestResult.ok) return manifestResult
+
+  const report = await collectVersions(cwd, manifestResult.value, options.registry)
+  if (!report.ok) return report
+
+  const outdated = report.value.entries.filter(e => e.current !== e.wanted || e.current !== e.latest)
+
+  if (options.json) {
+    console.log(JSON.stringify(outdated, null, 2))
+  } else if (outdated.length === 0) {
+    console.error('✅ All specs are up to date.')
+  } else {
+    const rows = [
+      ['Package', 'Current', 'Wanted', 'Latest', 'Type'],
+      ...outdated.map(e => [e.name, e.current ?? 'missing', e.wanted ?? '-', e.latest, e.type]),
+    ]
+    const widths = rows[0].map((_, i) => Math.max(...rows.map(r => r[i].length)))
+    console.error('')
+    for (const row of rows) {
+      console.error(row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd())
+    }
+    console.error('')
+  }
+
+  return { ok: true, value: outdated }
+}
+
+export async function updateCommand(
+  packageName: string | undefined,
+  options: UpdateOptions = {}
+): Promise<Result<string[], string>> {
+  const cwd = process.cwd()
+
+  const manifestResult = await loadProjectManifest(cwd)
+  if (!manifestResult.ok) return manifestResult
+  const manifest = manifestResult.value
+
+  if (packageName && !(packageName in (manifest.dependencies ?? {})) && !(packageName in (manifest.devDependencies ?? {}))) {
+    return { ok: false, error: `${packageName} is not a dependency in specpm.yaml` }
+  }
+
+  const report = await collectVersions(cwd, manifest, options.registry, packageName)
+  if (!report.ok) return report
+  const { entries, metadata } = report.value
+
+  // Pick a target version for each package that can move
+  const targets = new Map<string, string>()
+  const targetRanges: Record<string, string> = {}
+  for (const entry of entries) {
+    const target = options.latest ? entry.latest : entry.wanted
+    if (target && target !== entry.current) {
+      targets.set(entry.name, target)
+      const alias = parseAlias(entry.range)
+      targetRanges[entry.name] = alias ? aliasSpecifier(alias.name, target) : target
+    }
+  }
+
+  if (targets.size === 0) {
+    console.error('✅ All specs are up to date.')
+    return { ok: true, value: [] }
+  }
+
+  // Resolve every direct dependency so ranges other specs place on the updated ones still hold
+  const root = await findInstallRoot(cwd)
+  const replacements = await loadReplacements(root)
+  if (!replacements.ok) return replacements
+  const resolution = await resolveRegistryDependencies(
+    { ...manifest.dependencies, ...manifest.devDependencies, ...targetRanges },
+    name => {
+      const cached = metadata.get(name)
+      return cached ? Promise.resolve({ ok: true as const, value: cached }) : fetchMetadataForPackage(name, options)
+    },
+    root,
+    replacements.value,
+  )
+  if (!resolution.ok) {
+    return { ok: false, error: resolution.error.message }
+  }
+  const toInstall = resolution.value.filter(p => targets.has(p.name) || !p.installed)
+  const level = await minimumLevel(cwd)
+  if (!level.ok) return level
+  const levelCheck = checkMinimumLevel(toInstall, level.value)
+  if (!levelCheck.ok) return levelCheck
+
+  const current = new Map(entries.map(e => [e.name, e.current]))
+  if (options.dryRun) {
+    for (const [name, version] of targets) {
+      console.error(`Would update ${name} ${current.get(name) ?? 'missing'} → ${version}`)
+    }
+    for (const pkg of toInstall.filter(p => !targets.has(p.name))) {
+      console.error(`Would install ${pkg.name}@${pkg.version} (dependency)`)
+    }
+    return { ok: true, value: [...targets.keys()] }
+  }
+
+  const transaction = await beginInstallTransaction(root, { manifestPath: join(cwd, 'specpm.yaml') })
+  const stageResult = await stageRegistryPackages(transaction, toInstall, options)
+  if (!stageResult.ok) {
+    await transaction.abort()
+    return stageResult
+  }
+
+  // --latest may leave the declared range behind; widen it to the new version
+  if (options.latest) {
+    for (const entry of entries) {
+      const target = targets.get(entry.name)
+      if (target && !satisfiesRange(target, entry.range)) {
+        const alias = parseAlias(entry.range)
+        manifest[entry.type]![entry.name] = alias ? aliasSpecifier(alias.name, `^${target}`) : `^${target}`
+      }
+    }
+  }
+  transaction.setManifest(manifest)
+
+  const commitResult = await transaction.commit()
+  if (!commitResult.ok) return commitResult
+
+  for (const [name, version] of targets) {
+    console.error(`✅ Updated ${name} ${current.get(name) ?? 'missing'} → ${version}`)
+  }
+  for (const pkg of toInstall.filter(p => !targets.has(p.name))) {
+    console.error(`   + ${pkg.name}@${pkg.version} (dependency)`)
+  }
+  await reportPeerIssues(root)
+  return { ok: true, value: [...targets.keys()] }
+}
@@ -1,12 +1,13 @@
 import { readFile, access } from 'node:fs/promises'
 import { join, resolve } from 'node:path'
-import { execSync } from 'node:child_process'
-import { mkdtemp, rm } from 'node:fs/promises'
-import { tmpdir } from 'node:os'
-import { homedir } from 'node:os'
 import { parse as parseYaml } from 'yaml'
 import { verifyL0 } from '../lib/verifier/l0.js'
-import type { SpecYaml, Result } from 'shared'
+import { verifyL1 } from '../lib/verifier/l1.js'
+import { loadSpecPackage } from '../lib/loader.js'
+import {
+  resolveRegistryUrl, authHeaders, noRegistryError, type PublishVerification,
+} from '../lib/registry-client.js'
+import { packDirectory, type SpecYaml, type Result } from 'shared'
 
 export interface PublishOptions {
   dryRun?: boolean
@@ -14,28 +15,10 @@ export interface PublishOptions {
   tag?: string
 }
 
-interface AuthConfig {
-  registry: string
-  token: string
-}
-
 async function fileExists(p: string): Promise<boolean> {
   try { await access(p); return true } catch { return false }
 }
 
-async function loadAuthConfig(): Promise<Result<AuthConfig, string>> {
-  const authPath = join(homedir(), '.specpm', 'auth.json')
-  if (!(await fileExists(authPath))) {
-    return { ok: false, error: 'Not authenticated. Run `specpm login` first.' }
-  }
-  try {
-    const content = await readFile(authPath, 'utf-8')
-    return { ok: true, value: JSON.parse(content) as AuthConfig }
-  } catch {
-    return { ok: false, error: 'Failed to read auth config.' }
-  }
-}
-
 export async function publishCommand(
   path: string,
   options: PublishOptions = {}
@@ -62,74 +45,94 @@ export async function publishCommand(
   }
   console.error('✅ Verification passed')
 
+  // L1 problems don't block publishing, but the registry records the level reached for installers to see
+  const l1 = await verifyL1(dir)
+  if (!l1.passed) {
+    console.error(`⚠️  L1 verification failed (${l1.issues.filter(i => i.severity === 'error').length} error(s)); publishing as L0`)
+  }
+  const loaded = await loadSpecPackage(dir)
+  const summary: PublishVerification = {
+    level: l1.passed ? 1 : 0,
+    entities: manifest.entities?.length ?? 0,
+    states: manifest.states?.length ?? 0,
+    constraints: loaded.ok ? loaded.value.constraints.length : 0,
+  }
+
   if (options.dryRun) {
-    console.error(`\nDry run - would publish ${manifest.name}@${manifest.version}`)
+    console.error(`\nDry run - would publish ${manifest.name}@${manifest.version} (L${summary.level})`)
     console.error(`  Files would be tarballed from: ${dir}`)
     return { ok: true, value: `${manifest.name}@${manifest.version} (dry-run)` }
   }
 
-  // Load auth
-  const authResult = await loadAuthConfig()
-  if (!authResult.ok) return authResult
-  const auth = authResult.value
-  const registryUrl = options.registry ?? auth.registry
+  // Publish to the registry serving the package's scope, with that registry's token
+  const registryUrl = await resolveRegistryUrl(options.registry, manifest.name)
+  if (!registryUrl) {
+    return { ok: false, error: noRegistryError(manifest.name) }
+  }
+  const auth = await authHeaders(registryUrl, manifest.name)
+  if (!auth.authorization) {
+    const envKey = `SPECPM_TOKEN_${manifest.name.slice(1).split('/')[0].replace(/-/g, '_').toUpperCase()}`
+    return { ok: false, error: `Not authenticated with ${registryUrl}. Run \`specpm login --registry ${registryUrl}\` or set ${envKey}.` }
+  }
 
   // Create tarball
-  const tempDir = await mkdtemp(join(tmpdir(), 'specpm-publish-'))
-  const tarballPath = join(tempDir, 'package.tgz')
-  try {
-    const excludes = ['--exclude=.git', '--exclude=node_modules', '--exclude=.DS_Store', '--exclude=dist']
-    execSync(`tar czf ${tarballPath} ${excludes.join(' ')} -C ${dir} .`, { stdio: 'pipe' })
-    const tarball = await readFile(tarballPath)
-
-    // Check size
-    if (tarball.length > 1_048_576) {
-      return { ok: false, error: `Tarball too large: ${tarball.length} bytes (max 1MB)` }
-    }
-
-    // Parse name for URL
-    const match = manifest.name.match(/^@([a-z0-9-]+)\/([a-z0-9-]+)$/)
-    if (!match) {
-      return { ok: false, error: `Invalid package name: ${manifest.name}` }
-    }
-    const [, scope, name] = match
-
-    // Upload using multipart
-    const boundary = '----specpm-' + Date.now()
-    const manifestStr = JSON.stringify(manifest)
-
-    const parts: Buffer[] = []
-    parts.push(Buffer.from(
-      `--${boundary}\r\nContent-Disposition: form-data; name="manifest"\r\n\r\n${manifestStr}\r\n`
-    ))
+  const packed = await packDirectory(dir, { exclude: ['.git', 'node_modules', '.DS_Store', 'dist'] })
+  if (!packed.ok) {
+    return { ok: false, error: packed.error }
+  }
+  const tarball = packed.value
+  if (tarball.length > 1_048_576) {
+    return { ok: false, error: `Tarball too large: ${tarball.length} bytes (max 1MB)` }
+  }
+
+  // Parse name for URL
+  const match = manifest.name.match(/^@([a-z0-9-]+)\/([a-z0-9-]+)$/)
+  if (!match) {
+    return { ok: false, error: `Invalid package name: ${manifest.name}` }
+  }
+  const [, scope, name] = match
+
+  // Upload using multipart
+  const boundary = '----specpm-' + Date.now()
+  const manifestStr = JSON.stringify(manifest)
+
+  const parts: Buffer[] = []
+  parts.push(Buffer.from(
+    `--${boundary}\r\nContent-Disposition: form-data; name="manifest"\r\n\r\n${manifestStr}\r\n`
+  ))
+  if (options.tag) {
     parts.push(Buffer.from(
-      `--${boundary}\r\nContent-Disposition: form-data; name="tarball"; filename="package.tgz"\r\nContent-Type: application/gzip\r\n\r\n`
+      `--${boundary}\r\nContent-Disposition: form-data; name="tag"\r\n\r\n${options.tag}\r\n`
     ))
-    parts.push(tarball)
-    parts.push(Buffer.from(`\r\n--${boundary}--\r\n`))
-    const body = Buffer.concat(parts)
-
-    const url = `${registryUrl}/api/v1/packages/${scope}/${name}/${manifest.version}`
-    console.error(`Publishing ${manifest.name}@${manifest.version} to ${registryUrl}...`)
-
-    const res = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'content-type': `multipart/form-data; boundary=${boundary}`,
-        authorization: `Bearer ${auth.token}`,
-      },
-      body,
-    })
-
-    if (!res.ok) {
-      const errBody = await res.json().catch(() => ({})) as any
-      return { ok: false, error: `Publish failed (${res.status}): ${errBody.error ?? res.statusText}` }
-    }
-
-    const result = await res.json() as any
-    console.error(`✅ Published ${result.name}@${result.version}`)
-    return { ok: true, value: `${result.name}@${result.version}` }
-  } finally {
-    await rm(tempDir, { recursive: true, force: true })
   }
+  parts.push(Buffer.from(
+    `--${boundary}\r\nContent-Disposition: form-data; name="verification"\r\n\r\n${JSON.stringify(summary)}\r\n`
+  ))
+  parts.push(Buffer.from(
+    `--${boundary}\r\nContent-Disposition: form-data; name="tarball"; filename="package.tgz"\r\nContent-Type: application/gzip\r\n\r\n`
+  ))
+  parts.push(tarball)
+  parts.push(Buffer.from(`\r\n--${boundary}--\r\n`))
+  const body = Buffer.concat(parts)
+
+  const url = `${registryUrl}/api/v1/packages/${scope}/${name}/${manifest.version}`
+  console.error(`Publishing ${manifest.name}@${manifest.version} to ${registryUrl}...`)
+
+  const res = await fetch(url, {
+    method: 'PUT',
+    headers: {
+      'content-type': `multipart/form-data; boundary=${boundary}`,
+      ...auth,
+    },
+    body,
+  })
+
+  if (!res.ok) {
+    const errBody = await res.json().catch(() => ({})) as any
+    return { ok: false, error: `Publish failed (${res.status}): ${errBody.error ?? res.statusText}` }
+  }
+
+  const result = await res.json() as any
+  console.error(`✅ Published ${result.name}@${result.version}`)
+  return { ok: true, value: `${result.name}@${result.version}` }
 }
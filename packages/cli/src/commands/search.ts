@@ -1,4 +1,5 @@
 import type { Result } from 'shared'
+import { resolveRegistryUrl, authHeaders, noRegistryError } from '../lib/registry-client.js'
 
 export interface SearchOptions {
   tag?: string
@@ -6,6 +7,8 @@ export interface SearchOptions {
   limit?: string
   json?: boolean
   registry?: string
+  /** Search the registry configured for this scope (e.g. `@acme`) */
+  scope?: string
 }
 
 interface SearchResult {
@@ -30,7 +33,11 @@ export async function searchCommand(query: string, options: SearchOptions): Prom
     return { ok: false, error: 'Search query must be at least 2 characters' }
   }
 
-  const registryUrl = options.registry ?? process.env.SPECPM_REGISTRY ?? 'http://localhost:4873'
+  const scopePrefix = options.scope ? `@${options.scope.replace(/^@/, '').replace(/\/$/, '')}/` : undefined
+  const registryUrl = await resolveRegistryUrl(options.registry, scopePrefix)
+  if (!registryUrl) {
+    return { ok: false, error: noRegistryError() }
+  }
   const params = new URLSearchParams({ q: query })
   if (options.tag) params.set('tag', options.tag)
   if (options.sort) params.set('sort', options.sort)
@@ -38,7 +45,9 @@ export async function searchCommand(query: string, options: SearchOptions): Prom
 
   let response: Response
   try {
-    response = await fetch(`${registryUrl}/api/v1/search?${params}`)
+    response = await fetch(`${registryUrl}/api/v1/search?${params}`, {
+      headers: await authHeaders(registryUrl, scopePrefix),
+    })
   } catch (error) {
     return { ok: false, error: `Failed to connect to registry: ${error}` }
   }
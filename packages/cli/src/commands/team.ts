@@ -4,7 +4,8 @@ import { parse as parseYaml } from 'yaml'
 import type { Result } from 'shared'
 import { loadTeamConfig, parseRequirement, type TeamConfig } from '../lib/team-config.js'
 import { listInstalledSpecs } from '../lib/loader.js'
-import { satisfiesRange } from '../lib/resolver.js'
+import { satisfiesRange, findPeerIssues, type PeerIssue } from '../lib/resolver.js'
+import { findWorkspaceRoot } from '../lib/workspace.js'
 import { installFromRegistry, type InstallOptions } from './install.js'
 
 export interface TeamCheckResult {
@@ -13,15 +14,23 @@ export interface TeamCheckResult {
   outdated: { name: string; installed: string; required: string }[]
   recommended: string[]
   enforcementIssues: string[]
+  peerIssues: PeerIssue[]
 }
 
 async function fileExists(filePath: string): Promise<boolean> {
   try { await access(filePath); return true } catch { return false }
 }
 
-export async function teamCheckCommand(options: { json?: boolean } = {}): Promise<Result<TeamCheckResult, string>> {
-  const projectRoot = process.cwd()
-  const configResult = await loadTeamConfig(projectRoot)
+export async function teamCheckCommand(
+  options: { json?: boolean; cwd?: string } = {},
+): Promise<Result<TeamCheckResult, string>> {
+  const projectRoot = options.cwd ?? process.cwd()
+  let configResult = await loadTeamConfig(projectRoot)
+  // A workspace without its own specpm-team.yaml follows the workspace root's
+  if (configResult.ok && !configResult.value) {
+    const workspaceRoot = await findWorkspaceRoot(projectRoot)
+    if (workspaceRoot) configResult = await loadTeamConfig(workspaceRoot)
+  }
   if (!configResult.ok) {
     return { ok: false, error: configResult.error }
   }
@@ -33,6 +42,7 @@ export async function teamCheckCommand(options: { json?: boolean } = {}): Promis
       outdated: [],
       recommended: [],
       enforcementIssues: [],
+      peerIssues: [],
     }
     if (!options.json) {
       console.error('ℹ No specpm-team.yaml found. Team check skipped.')
@@ -95,9 +105,13 @@ export async function teamCheckCommand(options: { json?: boolean } = {}): Promis
     }
   }
 
-  const passed = missing.length === 0 && outdated.length === 0 && enforcementIssues.length === 0
+  // Installed specs must agree with each other's peerDependencies
+  const peerIssues = findPeerIssues(installedSpecs.map(spec => spec.manifest))
 
-  const result: TeamCheckResult = { passed, missing, outdated, recommended, enforcementIssues }
+  const passed = missing.length === 0 && outdated.length === 0 && enforcementIssues.length === 0 &&
+    peerIssues.length === 0
+
+  const result: TeamCheckResult = { passed, missing, outdated, recommended, enforcementIssues, peerIssues }
 
   if (options.json) {
     console.log(JSON.stringify(result, null, 2))
@@ -116,6 +130,10 @@ export async function teamCheckCommand(options: { json?: boolean } = {}): Promis
       console.error(`\n❌ Enforcement issues:`)
       for (const e of enforcementIssues) console.error(`  - ${e}`)
     }
+    if (peerIssues.length > 0) {
+      console.error(`\n❌ Peer dependency issues:`)
+      for (const p of peerIssues) console.error(`  - ${p.message}`)
+    }
     if (recommended.length > 0) {
       console.error(`\n💡 Recommended (not installed):`)
       for (const r of recommended) console.error(`  - ${r}`)
@@ -163,7 +181,7 @@ export async function teamSyncCommand(options: { registry?: string } = {}): Prom
 
     if (needsInstall) {
       console.error(`📦 Installing ${parsed.name}...`)
-      const installResult = await installFromRegistry(parsed.name, {
+      const installResult = await installFromRegistry(req, {
         force: true,
         registry: options.registry,
       })
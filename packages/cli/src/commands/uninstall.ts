@@ -0,0 +1,161 @@
+import { createInterface } from 'node:readline'
+import { join } from 'node:path'
+import type { Result, SpecPackage } from 'shared'
+import { listInstalledSpecs } from '../lib/loader.js'
+import { beginInstallTransaction } from '../lib/install-transaction.js'
+import { findInstallRoot, listWorkspaces, projectDependencies } from '../lib/workspace.js'
+import { loadProjectManifest } from './install.js'
+import { contextCommand } from './context.js'
+
+export interface UninstallOptions {
+  force?: boolean
+  dryRun?: boolean
+  /** Regenerate context files afterwards: true/false skips the prompt */
+  context?: boolean
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr })
+  return new Promise((resolve) => {
+    rl.question(`${question} (Y/n): `, (answer) => {
+      rl.close()
+      resolve(!/^n/i.test(answer.trim()))
+    })
+  })
+}
+
+/**
+ * Names reachable from `roots` through installed specs' dependencies, never passing through `excluded`
+ */
+function closure(roots: string[], installed: Map<string, SpecPackage>, excluded?: string): Set<string> {
+  const reached = new Set<string>()
+  const stack = roots.filter(name => name !== excluded)
+  while (stack.length > 0) {
+    const name = stack.pop()!
+    if (reached.has(name)) continue
+    reached.add(name)
+    for (const dep of Object.keys(installed.get(name)?.manifest.dependencies ?? {})) {
+      if (dep !== excluded) stack.push(dep)
+    }
+  }
+  return reached
+}
+
+/**
+ * Direct dependencies of the rest of the workspace: the root and every workspace other than `cwd`
+ */
+async function otherWorkspaceDependencies(root: string, cwd: string): Promise<Result<string[], string>> {
+  if (root === cwd) {
+    const dependencies = await projectDependencies(root, {})
+    return dependencies.ok ? { ok: true, value: Object.keys(dependencies.value) } : dependencies
+  }
+  const rootManifest = await loadProjectManifest(root)
+  if (!rootManifest.ok) return rootManifest
+  const workspaces = await listWorkspaces(root)
+  if (!workspaces.ok) return workspaces
+  return {
+    ok: true,
+    value: [rootManifest.value, ...workspaces.value.filter(ws => ws.directory !== cwd)]
+      .flatMap(source => [...Object.keys(source.dependencies ?? {}), ...Object.keys(source.devDependencies ?? {})]),
+  }
+}
+
+export async function uninstallCommand(
+  packageName: string,
+  options: UninstallOptions = {}
+): Promise<Result<string[], string>> {
+  const cwd = process.cwd()
+
+  const manifestResult = await loadProjectManifest(cwd)
+  if (!manifestResult.ok) return manifestResult
+  const manifest = manifestResult.value
+
+  // Inside a workspace, specs are installed at the workspace root and may be shared with other workspaces
+  const root = await findInstallRoot(cwd)
+  const installedResult = await listInstalledSpecs(root)
+  const installed = new Map<string, SpecPackage>()
+  for (const spec of installedResult.ok ? installedResult.value : []) {
+    installed.set(spec.manifest.name, spec)
+  }
+
+  const isDirect = packageName in (manifest.dependencies ?? {}) || packageName in (manifest.devDependencies ?? {})
+  if (!isDirect && !installed.has(packageName)) {
+    return { ok: false, error: `${packageName} is not installed` }
+  }
+  if (!isDirect && root !== cwd) {
+    return { ok: false, error: `${packageName} is not a dependency of this workspace` }
+  }
+
+  // Transitive dependencies go too, unless something that stays still needs them
+  const remaining = structuredClone(manifest)
+  delete remaining.dependencies?.[packageName]
+  delete remaining.devDependencies?.[packageName]
+  const remainingRoots = [
+    ...Object.keys(remaining.dependencies ?? {}),
+    ...Object.keys(remaining.devDependencies ?? {}),
+  ]
+  const otherWorkspaces = await otherWorkspaceDependencies(root, cwd)
+  if (!otherWorkspaces.ok) return otherWorkspaces
+  // Another workspace still depending on the package keeps it installed
+  const sharedWithWorkspace = otherWorkspaces.value.includes(packageName)
+  const stillNeeded = closure([...remainingRoots, ...otherWorkspaces.value], installed, packageName)
+  const toRemove = sharedWithWorkspace ? [] : [...closure([packageName], installed)]
+    .filter(name => name === packageName || (installed.has(name) && !stillNeeded.has(name)))
+
+  const dependents = sharedWithWorkspace ? [] : [...installed.values()]
+    .filter(spec => !toRemove.includes(spec.manifest.name) && packageName in (spec.manifest.dependencies ?? {}))
+    .map(spec => `${spec.manifest.name}@${spec.manifest.version}`)
+  if (dependents.length > 0 && !options.force) {
+    return {
+      ok: false,
+      error: `Cannot uninstall ${packageName}: required by ${dependents.join(', ')}. Use --force to remove it anyway.`,
+    }
+  }
+
+  const pruned = toRemove.filter(name => name !== packageName)
+  if (options.dryRun) {
+    console.error(`Would uninstall ${packageName}`)
+    for (const name of pruned) {
+      console.error(`Would remove ${name}@${installed.get(name)!.manifest.version} (no longer needed)`)
+    }
+    return { ok: true, value: toRemove }
+  }
+
+  const transaction = await beginInstallTransaction(root, { manifestPath: join(cwd, 'specpm.yaml') })
+  for (const name of toRemove) {
+    if (installed.has(name)) transaction.remove(name)
+  }
+  transaction.setManifest(remaining)
+
+  // Remove the packages, write specpm.yaml and regenerate the lockfile
+  const commitResult = await transaction.commit()
+  if (!commitResult.ok) return commitResult
+
+  console.error(`✅ Uninstalled ${packageName}`)
+  if (sharedWithWorkspace) {
+    console.error('   (still installed: another workspace depends on it)')
+  }
+  for (const name of pruned) {
+    console.error(`   - ${name}@${installed.get(name)!.manifest.version} (no longer needed)`)
+  }
+  if (dependents.length > 0) {
+    console.error(`⚠️  Still required by ${dependents.join(', ')}`)
+  }
+
+  // Context files still describe the removed specs until they are regenerated
+  let regenerate = options.context
+  if (regenerate === undefined && process.stdin.isTTY) {
+    regenerate = await confirm('Regenerate context files?')
+  }
+  if (regenerate) {
+    const targets = (manifest['context'] as { targets?: string[] } | undefined)?.targets ?? ['claude']
+    for (const target of targets) {
+      const contextResult = await contextCommand({ target })
+      if (!contextResult.ok) return contextResult
+    }
+  } else if (regenerate === undefined) {
+    console.error('Run `specpm context` to regenerate context files.')
+  }
+
+  return { ok: true, value: toRemove }
+}
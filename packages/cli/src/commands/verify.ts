@@ -1,14 +1,49 @@
-import { resolve } from 'node:path'
-import type { Result } from 'shared'
-import { verifyL0, type VerificationResult } from '../lib/verifier/l0.js'
+import { readFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import { parse as parseYaml } from 'yaml'
+import type { Result, SpecYaml } from 'shared'
+import { verifyL0, type VerificationIssue, type VerificationResult } from '../lib/verifier/l0.js'
+import { listInstalledSpecs } from '../lib/loader.js'
+import { findPeerIssues } from '../lib/resolver.js'
 
 export interface VerifyOptions {
   json?: boolean
 }
 
+/**
+ * Check the package's peerDependencies against the specs installed in the current project.
+ * Peers depend on where the package is used, so problems are warnings, not failures.
+ */
+async function checkPeers(directory: string, projectRoot: string): Promise<VerificationIssue[]> {
+  let manifest: SpecYaml
+  try {
+    manifest = parseYaml(await readFile(join(directory, 'spec.yaml'), 'utf-8')) as SpecYaml
+  } catch {
+    return []
+  }
+  if (!manifest?.peerDependencies || Object.keys(manifest.peerDependencies).length === 0) return []
+
+  const installedResult = await listInstalledSpecs(projectRoot)
+  const installed = (installedResult.ok ? installedResult.value : [])
+    .map(spec => spec.manifest)
+    .filter(m => m.name !== manifest.name)
+
+  return findPeerIssues([manifest, ...installed])
+    .filter(issue => issue.requiredBy === `${manifest.name}@${manifest.version}`)
+    .map(issue => ({
+      level: 0,
+      severity: 'warning' as const,
+      code: issue.installed === null ? 'L0-PEER-MISSING' : 'L0-PEER-RANGE',
+      message: issue.message,
+      file: 'spec.yaml',
+      path: `/peerDependencies/${issue.peer}`,
+    }))
+}
+
 export async function verifyCommand(path: string, options: VerifyOptions): Promise<Result<VerificationResult, string>> {
   const directory = resolve(path)
   const result = await verifyL0(directory)
+  result.issues.push(...await checkPeers(directory, process.cwd()))
 
   if (options.json) {
     console.log(JSON.stringify(result, null, 2))
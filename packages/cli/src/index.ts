@@ -1,8 +1,12 @@
 #!/usr/bin/env node
 import { Command } from 'commander'
 import { initCommand } from './commands/init.js'
-import { installFromLocalPath, installFromRegistry } from './commands/install.js'
-import { contextCommand } from './commands/context.js'
+import { installFromLocalPath, installFromRegistry, installFromSource, installFromLockfile, installAll } from './commands/install.js'
+import { isSourceSpecifier } from './lib/sources.js'
+import { uninstallCommand } from './commands/uninstall.js'
+import { outdatedCommand, updateCommand } from './commands/outdated.js'
+import { lsCommand, whyCommand } from './commands/ls.js'
+import { contextCommand, watchContext } from './commands/context.js'
 import { verifyCommand } from './commands/verify.js'
 import { publishCommand } from './commands/publish.js'
 import { loginCommand, logoutCommand } from './commands/login.js'
@@ -12,6 +16,7 @@ import { checkCommand } from './commands/check.js'
 import { teamCheckCommand, teamSyncCommand } from './commands/team.js'
 import { ciCommand } from './commands/ci.js'
 import { registryAddCommand, registryRemoveCommand, registryListCommand } from './commands/registry.js'
+import { cacheListCommand, cacheVerifyCommand, cacheCleanCommand } from './commands/cache.js'
 
 const program = new Command()
 
@@ -24,7 +29,7 @@ program
   .command('init')
   .description('Initialize a new SpecPM project')
   .option('--name <name>', 'Project name')
-  .option('--targets <targets>', 'AI targets (comma-separated: claude,cursor,copilot)')
+  .option('--targets <targets>', 'AI targets (comma-separated: claude,agents,cursor,copilot,windsurf,...)')
   .option('--yes', 'Accept all defaults, no prompts')
   .option('--force', 'Overwrite existing specpm.yaml')
   .action(async (options) => {
@@ -37,23 +42,57 @@ program
 
 program
   .command('install [source]')
-  .description('Install a spec package from local path or registry')
+  .description('Install a spec package (registry name, path, .tgz, git+https:, git+file: or github: source), or everything in specpm.yaml when no source is given')
   .option('--save-dev', 'Add to devDependencies')
   .option('--dry-run', 'Show what would install')
   .option('--force', 'Re-install even if present')
   .option('--registry <url>', 'Registry URL')
+  .option('--frozen-lockfile', 'Install exactly what specpm-lock.yaml records; fail if it is out of date')
+  .option('--production', 'Skip devDependencies when installing from specpm.yaml')
+  .option('--offline', 'Install only from the package cache, without network access')
+  .option('--prefer-offline', 'Use cached metadata and tarballs, fetching only what is missing')
+  .option('--link', 'Link a local directory instead of copying it, so edits are picked up without reinstalling')
+  .option('--min-level <level>', 'Refuse registry packages published below this verification level (L0-L3)')
   .action(async (source, options) => {
-    if (!source) {
-      console.error('Usage: specpm install <path-or-package>')
+    if (options.offline && options.preferOffline) {
+      console.error('Error: --offline and --prefer-offline cannot be combined')
       process.exit(1)
     }
+    if (options.frozenLockfile) {
+      if (source) {
+        console.error('Error: --frozen-lockfile installs from specpm-lock.yaml and takes no package argument')
+        process.exit(1)
+      }
+      const result = await installFromLockfile(options)
+      if (!result.ok) {
+        console.error(`Error: ${result.error}`)
+        process.exit(1)
+      }
+      return
+    }
+    if (!source) {
+      const result = await installAll(options)
+      if (!result.ok) {
+        console.error(`Error: ${result.error}`)
+        process.exit(1)
+      }
+      return
+    }
     // If source starts with @ and has no path separator beyond the scope, it's a registry install
+    // (optionally followed by @<range> or @<dist-tag>)
     const isRegistryInstall = source.startsWith('@') && !source.includes('/') ||
-      (source.startsWith('@') && source.match(/^@[a-z0-9-]+\/[a-z0-9-]+$/) && !(await import('node:fs/promises').then(fs => fs.access(source).then(() => true).catch(() => false))))
+      (source.startsWith('@') && source.match(/^@[a-z0-9-]+\/[a-z0-9-]+(@.+)?$/) && !(await import('node:fs/promises').then(fs => fs.access(source).then(() => true).catch(() => false))))
     
+    if (options.link && (isRegistryInstall || isSourceSpecifier(source))) {
+      console.error('Error: --link only works with a local directory')
+      process.exit(1)
+    }
+
     let result
     if (isRegistryInstall) {
       result = await installFromRegistry(source, options)
+    } else if (isSourceSpecifier(source)) {
+      result = await installFromSource(source, options)
     } else {
       result = await installFromLocalPath(source, options)
     }
@@ -63,11 +102,128 @@ program
     }
   })
 
+program
+  .command('link <path>')
+  .description('Link a local spec directory into the project (same as install --link)')
+  .option('--save-dev', 'Add to devDependencies')
+  .option('--dry-run', 'Show what would be linked')
+  .action(async (path, options) => {
+    const result = await installFromLocalPath(path, { ...options, link: true })
+    if (!result.ok) {
+      console.error(`Error: ${result.error}`)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('ci-install')
+  .description('Install exactly what specpm-lock.yaml records (same as install --frozen-lockfile)')
+  .option('--dry-run', 'Show what would install')
+  .option('--production', 'Skip devDependencies')
+  .option('--offline', 'Install only from the package cache, without network access')
+  .option('--prefer-offline', 'Use cached tarballs, fetching only what is missing')
+  .action(async (options) => {
+    if (options.offline && options.preferOffline) {
+      console.error('Error: --offline and --prefer-offline cannot be combined')
+      process.exit(1)
+    }
+    const result = await installFromLockfile(options)
+    if (!result.ok) {
+      console.error(`Error: ${result.error}`)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('uninstall <package>')
+  .description('Remove a spec package and any dependencies nothing else needs')
+  .option('--force', 'Remove even if other installed specs depend on it')
+  .option('--dry-run', 'Show what would be removed')
+  .option('--context', 'Regenerate context files afterwards without asking')
+  .option('--no-context', 'Do not regenerate context files')
+  .action(async (packageName, options) => {
+    const result = await uninstallCommand(packageName, options)
+    if (!result.ok) {
+      console.error(`Error: ${result.error}`)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('outdated')
+  .description('List installed specs with newer versions in the registry')
+  .option('--json', 'Output as JSON')
+  .option('--registry <url>', 'Registry URL')
+  .action(async (options) => {
+    const result = await outdatedCommand(options)
+    if (!result.ok) {
+      console.error(`Error: ${result.error}`)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('update [package]')
+  .description('Update specs to the newest version their range allows')
+  .option('--latest', 'Update to the latest version, widening the range in specpm.yaml')
+  .option('--dry-run', 'Show what would update')
+  .option('--registry <url>', 'Registry URL')
+  .action(async (packageName, options) => {
+    const result = await updateCommand(packageName, options)
+    if (!result.ok) {
+      console.error(`Error: ${result.error}`)
+      process.exit(1)
+    }
+  })
+
+program
+  .command('ls')
+  .description('List installed specs, flagging missing, invalid and extraneous ones')
+  .option('--tree', 'Show transitive dependencies')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    const result = await lsCommand(options)
+    if (!result.ok) {
+      console.error(`Error: ${result.error}`)
+      process.exit(1)
+    } else if (result.value.problems.length > 0) {
+      process.exit(1)
+    }
+  })
+
+program
+  .command('why <package>')
+  .description('Show every dependency chain that leads to a spec')
+  .option('--json', 'Output as JSON')
+  .action(async (packageName, options) => {
+    const result = await whyCommand(packageName, options)
+    if (!result.ok) {
+      console.error(`Error: ${result.error}`)
+      process.exit(1)
+    }
+  })
+
 program
   .command('context')
   .description('Generate AI context files from installed specs')
-  .option('--target <target>', 'Target agent: claude, cursor, copilot, all', 'claude')
+  .option('--target <target>', 'Targets, comma-separated: claude, agents, cursor, cursor-rules, copilot, windsurf, cline, roo, aider, zed, gemini, plugin targets, or all (default: claude)')
+  .option('--token-budget <tokens>', 'Token budget for all specs together (overrides context.tokenBudget in specpm.yaml)')
+  .option('--check', 'Exit non-zero if generated context files are stale or were edited by hand')
+  .option('--watch', 'Keep regenerating context as specs, specpm.yaml or specpm-team.yaml change')
+  .option('--workspace <name>', 'Generate context for one workspace')
+  .option('-r, --recursive', 'Generate context for every workspace')
   .action(async (options) => {
+    if (options.watch) {
+      const result = await watchContext(options)
+      if (!result.ok) {
+        console.error(`Error: ${result.error}`)
+        process.exit(1)
+      }
+      process.on('SIGINT', () => {
+        void result.value.close().then(() => process.exit(0))
+      })
+      return
+    }
     const result = await contextCommand(options)
     if (!result.ok) {
       console.error(`Error: ${result.error}`)
@@ -135,6 +291,8 @@ program
   .option('--spec <package>', 'Check against specific spec only')
   .option('--json', 'Output as JSON')
   .option('--strict', 'Treat warnings as errors')
+  .option('--workspace <name>', 'Check one workspace')
+  .option('-r, --recursive', 'Check every workspace and report them together')
   .action(async (options) => {
     const result = await checkCommand(options)
     if (!result.ok) {
@@ -170,6 +328,7 @@ program
   .option('--limit <limit>', 'Max results')
   .option('--json', 'Output as JSON')
   .option('--registry <url>', 'Registry URL')
+  .option('--scope <scope>', 'Search the registry configured for a scope')
   .action(async (query, options) => {
     const result = await searchCommand(query, options)
     if (!result.ok) {
@@ -216,6 +375,8 @@ program
   .option('--verify', 'Verify local specs')
   .option('--reporter <format>', 'Output format: text, json, junit, github')
   .option('--strict', 'Treat warnings as errors')
+  .option('--workspace <name>', 'Run for one workspace')
+  .option('-r, --recursive', 'Run for every workspace and report them together')
   .action(async (options) => {
     const result = await ciCommand(options)
     if (!result.ok) {
@@ -263,4 +424,42 @@ registry
     }
   })
 
+// Cache commands
+const cache = program.command('cache').description('Manage the package cache (~/.specpm/cache)')
+
+cache
+  .command('ls')
+  .description('List cached packages')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    const result = await cacheListCommand(options)
+    if (!result.ok) {
+      console.error(`Error: ${result.error}`)
+      process.exit(1)
+    }
+  })
+
+cache
+  .command('verify')
+  .description('Check cached tarballs against their integrity and remove corrupt ones')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    const result = await cacheVerifyCommand(options)
+    if (!result.ok) {
+      console.error(`Error: ${result.error}`)
+      process.exit(1)
+    }
+  })
+
+cache
+  .command('clean')
+  .description('Delete everything in the package cache')
+  .action(async () => {
+    const result = await cacheCleanCommand()
+    if (!result.ok) {
+      console.error(`Error: ${result.error}`)
+      process.exit(1)
+    }
+  })
+
 program.parse()
@@ -0,0 +1,58 @@
+import { resolve, relative, sep } from 'node:path'
+import type { Result } from 'shared'
+
+/**
+ * A package installed under another package's name. In specpm.yaml an alias is written
+ * `"@data/pagination": "npm:@acme/pagination@^2"`: @acme/pagination is installed as @data/pagination.
+ */
+export interface Alias {
+  name: string
+  range: string
+}
+
+const PACKAGE_NAME = /^@[a-z0-9-]+\/[a-z0-9-]+$/
+
+/**
+ * Parse an `npm:<name>@<range>` specifier; null for anything else. Without a range, any version will do.
+ */
+export function parseAlias(specifier: string): Alias | null {
+  if (!specifier.startsWith('npm:')) return null
+  const target = specifier.slice('npm:'.length)
+  const atIndex = target.indexOf('@', 1)
+  const name = atIndex === -1 ? target : target.slice(0, atIndex)
+  if (!PACKAGE_NAME.test(name)) return null
+  return { name, range: atIndex === -1 ? 'latest' : target.slice(atIndex + 1) || 'latest' }
+}
+
+export function aliasSpecifier(name: string, range: string): string {
+  return `npm:${name}@${range}`
+}
+
+/**
+ * Replacements declared in the root specpm.yaml's `overrides` as `<name>.replace`. Each one stands in
+ * for every requirement on that package, including those made by other specs. A directory becomes a
+ * `link:` specifier relative to `root` (so edits are read live); an alias (a fork) is kept as it is.
+ */
+export function projectReplacements(root: string, overrides: unknown): Result<Record<string, string>, string> {
+  const replacements: Record<string, string> = {}
+  const entries = overrides && typeof overrides === 'object' ? Object.entries(overrides) : []
+
+  for (const [name, override] of entries) {
+    const replace = (override as Record<string, unknown> | null)?.['replace']
+    if (replace === undefined) continue
+    if (typeof replace !== 'string' || replace === '') {
+      return { ok: false, error: `Invalid replace for ${name}: expected a directory or npm:<package>@<range>` }
+    }
+
+    if (replace.startsWith('npm:')) {
+      if (!parseAlias(replace)) {
+        return { ok: false, error: `Invalid replace for ${name}: ${replace}. Expected npm:@scope/name@<range>` }
+      }
+      replacements[name] = replace
+    } else {
+      const path = replace.startsWith('link:') ? replace.slice('link:'.length) : replace
+      replacements[name] = `link:${relative(root, resolve(root, path)).split(sep).join('/') || '.'}`
+    }
+  }
+  return { ok: true, value: replacements }
+}
@@ -0,0 +1,187 @@
+import { readFile, readdir, mkdir, rm, access } from 'node:fs/promises'
+import { join } from 'node:path'
+import { homedir } from 'node:os'
+import { createHash } from 'node:crypto'
+import { writeFileAtomic } from './lockfile.js'
+
+/**
+ * How registry installs use the network:
+ * - `online`: always fetch metadata; tarballs come from the cache when their integrity matches
+ * - `prefer-offline`: use cached metadata and tarballs, and only fetch what is missing
+ * - `offline`: never touch the network; anything not cached is an error
+ */
+export type NetworkMode = 'online' | 'prefer-offline' | 'offline'
+
+/** A cached tarball, stored under its `sha256-` integrity string */
+export interface CacheEntry {
+  integrity: string
+  name: string
+  version: string
+  /** URL the tarball was downloaded from */
+  resolved: string
+  size: number
+  cachedAt: string
+}
+
+export interface CacheVerifyResult {
+  valid: number
+  /** Entries whose contents no longer match their integrity; they are removed */
+  removed: CacheEntry[]
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try { await access(filePath); return true } catch { return false }
+}
+
+/**
+ * Global cache root: $SPECPM_CACHE_DIR, else ~/.specpm/cache
+ */
+export function cacheDir(): string {
+  return process.env.SPECPM_CACHE_DIR || join(homedir(), '.specpm', 'cache')
+}
+
+export function networkMode(options: { offline?: boolean; preferOffline?: boolean }): NetworkMode {
+  if (options.offline) return 'offline'
+  if (options.preferOffline) return 'prefer-offline'
+  return 'online'
+}
+
+export function tarballIntegrity(tarball: Buffer): string {
+  return 'sha256-' + createHash('sha256').update(tarball).digest('hex')
+}
+
+function contentDir(): string {
+  return join(cacheDir(), 'content')
+}
+
+function contentPaths(integrity: string): { tarball: string; entry: string } | null {
+  const match = integrity.match(/^sha256-([0-9a-f]{64})$/)
+  if (!match) return null
+  return {
+    tarball: join(contentDir(), `${match[1]}.tgz`),
+    entry: join(contentDir(), `${match[1]}.json`),
+  }
+}
+
+function metadataPath(registryUrl: string, packageName: string): string {
+  return join(cacheDir(), 'metadata', encodeURIComponent(registryUrl.replace(/\/+$/, '')), `${packageName}.json`)
+}
+
+/**
+ * Read a cached tarball by integrity. Corrupt entries are dropped and reported as a miss.
+ */
+export async function readCachedTarball(integrity: string): Promise<Buffer | null> {
+  const paths = contentPaths(integrity)
+  if (!paths) return null
+  let tarball: Buffer
+  try {
+    tarball = await readFile(paths.tarball)
+  } catch {
+    return null
+  }
+  if (tarballIntegrity(tarball) !== integrity) {
+    await rm(paths.tarball, { force: true })
+    await rm(paths.entry, { force: true })
+    return null
+  }
+  return tarball
+}
+
+/**
+ * Find a cached tarball by the URL it was downloaded from (lockfiles record the URL, not the tarball hash)
+ */
+export async function findCachedTarball(resolved: string): Promise<Buffer | null> {
+  const entry = (await listCacheEntries()).find(e => e.resolved === resolved)
+  return entry ? readCachedTarball(entry.integrity) : null
+}
+
+/**
+ * Store a downloaded tarball. Cache failures never fail an install, so errors are swallowed.
+ */
+export async function writeCachedTarball(
+  tarball: Buffer,
+  info: { name: string; version: string; resolved: string },
+): Promise<void> {
+  const integrity = tarballIntegrity(tarball)
+  const paths = contentPaths(integrity)!
+  try {
+    await mkdir(contentDir(), { recursive: true })
+    await writeFileAtomic(paths.tarball, tarball)
+    const entry: CacheEntry = { integrity, ...info, size: tarball.length, cachedAt: new Date().toISOString() }
+    await writeFileAtomic(paths.entry, JSON.stringify(entry, null, 2))
+  } catch {
+    // A read-only or full cache only costs a re-download next time
+  }
+}
+
+export async function readCachedMetadata<T>(registryUrl: string, packageName: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(metadataPath(registryUrl, packageName), 'utf-8')) as T
+  } catch {
+    return null
+  }
+}
+
+export async function writeCachedMetadata(registryUrl: string, packageName: string, metadata: unknown): Promise<void> {
+  const filePath = metadataPath(registryUrl, packageName)
+  try {
+    await mkdir(join(filePath, '..'), { recursive: true })
+    await writeFileAtomic(filePath, JSON.stringify(metadata))
+  } catch {
+    // See writeCachedTarball
+  }
+}
+
+/**
+ * All cached tarballs, sorted by name and version
+ */
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+  if (!(await fileExists(contentDir()))) return []
+  const entries: CacheEntry[] = []
+  for (const file of await readdir(contentDir())) {
+    if (!file.endsWith('.json')) continue
+    try {
+      entries.push(JSON.parse(await readFile(join(contentDir(), file), 'utf-8')) as CacheEntry)
+    } catch {
+      // Skip unreadable index entries; the tarball is re-downloaded when needed
+    }
+  }
+  return entries.sort((a, b) => `${a.name}@${a.version}`.localeCompare(`${b.name}@${b.version}`))
+}
+
+/**
+ * Re-hash every cached tarball and remove the ones that do not match their integrity
+ */
+export async function verifyCache(): Promise<CacheVerifyResult> {
+  const result: CacheVerifyResult = { valid: 0, removed: [] }
+  for (const entry of await listCacheEntries()) {
+    if (await readCachedTarball(entry.integrity)) {
+      result.valid++
+    } else {
+      const paths = contentPaths(entry.integrity)
+      if (paths) await rm(paths.entry, { force: true })
+      result.removed.push(entry)
+    }
+  }
+
+  // Tarballs or index files left without their counterpart
+  if (await fileExists(contentDir())) {
+    const files = new Set(await readdir(contentDir()))
+    for (const file of files) {
+      const match = file.match(/^([0-9a-f]{64})\.(tgz|json)$/)
+      if (match && !files.has(`${match[1]}.${match[2] === 'tgz' ? 'json' : 'tgz'}`)) {
+        await rm(join(contentDir(), file), { force: true })
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Delete the whole cache. Returns the number of tarballs removed.
+ */
+export async function cleanCache(): Promise<number> {
+  const count = (await listCacheEntries()).length
+  await rm(cacheDir(), { recursive: true, force: true })
+  return count
+}
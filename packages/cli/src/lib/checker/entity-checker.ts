@@ -11,6 +11,8 @@ export interface CheckResult {
   line?: number
   message: string
   suggestion?: string
+  /** Workspace the result belongs to, in reports that span several workspaces */
+  workspace?: string
 }
 
 /**
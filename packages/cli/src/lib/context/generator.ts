@@ -1,8 +1,11 @@
 import type { SpecPackage } from 'shared'
+import { packSpecs, type PackResult } from './packer.js'
 
 export interface OverrideConfig {
   extend?: Record<string, unknown>
   remove?: string[]
+  /** Directory or alias installed in place of the package; applied at install time */
+  replace?: string
 }
 
 export interface ProjectConfig {
@@ -10,6 +13,10 @@ export interface ProjectConfig {
   version?: string
   description?: string
   targets?: string[]
+  /** Modules defining more context targets (`context.plugins` in specpm.yaml) */
+  plugins?: string[]
+  /** Token budget for all specs together (`context.tokenBudget` in specpm.yaml, or --token-budget) */
+  tokenBudget?: number
   overrides?: Record<string, OverrideConfig>  // keyed by package name
 }
 
@@ -19,51 +26,7 @@ export interface GenerateContextOptions {
   target: string
 }
 
-function renderEntitySchema(entity: Record<string, unknown>): string {
-  const title = (entity['title'] as string) ?? 'Unknown'
-  const properties = entity['properties'] as Record<string, Record<string, unknown>> | undefined
-  const required = (entity['required'] as string[]) ?? []
-
-  let output = `#### ${title}\n\n`
-
-  if (properties) {
-    output += '| Field | Type | Required |\n'
-    output += '|-------|------|----------|\n'
-    for (const [name, prop] of Object.entries(properties)) {
-      const type = (prop['type'] as string) ?? 'unknown'
-      const format = prop['format'] ? ` (${prop['format']})` : ''
-      const isRequired = required.includes(name) ? '✓' : ''
-      output += `| ${name} | ${type}${format} | ${isRequired} |\n`
-    }
-  }
-
-  return output
-}
-
-function renderStateMachine(state: Record<string, unknown>): string {
-  const id = (state['id'] as string) ?? 'unknown'
-  let output = `#### State Machine: ${id}\n\n`
-
-  const states = state['states'] as Record<string, unknown> | undefined
-  if (states) {
-    output += 'States: ' + Object.keys(states).join(', ') + '\n\n'
-  }
-
-  return output
-}
-
-function renderConstraints(constraints: SpecPackage['constraints']): string {
-  if (constraints.length === 0) return ''
-
-  let output = '### Constraints\n\n'
-  for (const constraint of constraints) {
-    const icon = constraint.severity === 'error' ? '🔴' : '🟡'
-    output += `${icon} **${constraint.id}**: ${constraint.description}\n\n`
-  }
-  return output
-}
-
-function applyOverrides(packages: import('shared').SpecPackage[], overrides?: Record<string, OverrideConfig>): import('shared').SpecPackage[] {
+function applyOverrides(packages: SpecPackage[], overrides?: Record<string, OverrideConfig>): SpecPackage[] {
   if (!overrides) return packages
 
   return packages.map(pkg => {
@@ -96,9 +59,16 @@ function applyOverrides(packages: import('shared').SpecPackage[], overrides?: Re
   })
 }
 
+/**
+ * The installed specs, with overrides applied, packed into their token budgets.
+ * The same for every target, so `specpm context` reports what was cut once.
+ */
+export function packContext(packages: SpecPackage[], config: ProjectConfig): PackResult {
+  return packSpecs(applyOverrides(packages, config.overrides), { tokenBudget: config.tokenBudget })
+}
+
 export function generateContext(options: GenerateContextOptions): string {
   const { config, target } = options
-  const packages = applyOverrides(options.packages, config.overrides)
   const lines: string[] = []
 
   // Preamble
@@ -112,51 +82,36 @@ export function generateContext(options: GenerateContextOptions): string {
   lines.push(`**Target:** ${target}`)
   lines.push('')
 
-  if (packages.length === 0) {
+  if (options.packages.length === 0) {
     lines.push('No specs installed. Run `specpm install <package>` to add specifications.')
     return lines.join('\n')
   }
 
-  // Per-spec sections
-  for (const pkg of packages) {
-    const { manifest } = pkg
-    lines.push(`## ${manifest.name} v${manifest.version}`)
-    lines.push('')
-    lines.push(manifest.description)
-    lines.push('')
-
-    // Constraints first (highest priority for AI agents)
-    if (pkg.constraints.length > 0) {
-      lines.push(renderConstraints(pkg.constraints))
-    }
-
-    // Entities
-    if (pkg.entities.length > 0) {
-      lines.push('### Entities\n')
-      for (const entity of pkg.entities) {
-        lines.push(renderEntitySchema(entity))
-      }
-    }
-
-    // State machines
-    if (pkg.states.length > 0) {
-      lines.push('### State Machines\n')
-      for (const state of pkg.states) {
-        lines.push(renderStateMachine(state))
-      }
-    }
+  // Per-spec sections, in their own priority order and cut down to fit the token budgets
+  const packed = packContext(options.packages, config)
+  for (const spec of packed.specs) {
+    lines.push(...spec.lines)
+  }
 
-    // Docs
-    if (pkg.docs.length > 0) {
-      lines.push('### Implementation Notes\n')
-      for (const doc of pkg.docs) {
-        lines.push(doc)
-        lines.push('')
-      }
+  // Tell the agent what it is not seeing, and where to find it
+  if (packed.steps.length > 0) {
+    lines.push('## Omitted to fit the token budget\n')
+    for (const [name, actions] of groupSteps(packed)) {
+      lines.push(`- ${name}: ${actions.join(', ')}`)
     }
-
-    lines.push('---\n')
+    lines.push('')
+    lines.push('The full specs are in `.specpm/specs/`.')
+    lines.push('')
   }
 
   return lines.join('\n')
 }
+
+/** Actions taken per spec, in the order they were taken */
+export function groupSteps(packed: PackResult): Map<string, string[]> {
+  const grouped = new Map<string, string[]>()
+  for (const step of packed.steps) {
+    grouped.set(step.package, [...grouped.get(step.package) ?? [], step.action])
+  }
+  return grouped
+}
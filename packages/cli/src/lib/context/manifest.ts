@@ -0,0 +1,118 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises'
+import { join, dirname } from 'node:path'
+import { createHash } from 'node:crypto'
+import type { SpecPackage, Result } from 'shared'
+import { computeIntegrity } from '../lockfile.js'
+import type { ProjectConfig } from './generator.js'
+
+export const CONTEXT_MANIFEST = '.specpm/context-manifest.json'
+
+/** What a context file was generated from */
+export interface ContextInputs {
+  packages: Array<{ name: string; version: string; integrity: string }>
+  /** Hash of the project name and description in specpm.yaml, which head every context file */
+  project: string
+  /** Hash of the `overrides` in specpm.yaml */
+  overrides: string
+  tokenBudget?: number
+}
+
+export interface ContextManifestEntry extends ContextInputs {
+  /** Generated file, relative to the project */
+  file: string
+  /** Hash of the generated content (for targets merged into a section, the section between the markers) */
+  checksum: string
+  tokens: number
+  /** For targets split into a file per spec: each file's checksum, by path */
+  files?: Record<string, string>
+}
+
+/**
+ * `.specpm/context-manifest.json`: one entry per target, replaced whenever that target is
+ * generated. It holds no timestamps, so it only changes when the context does.
+ */
+export interface ContextManifest {
+  targets: Record<string, ContextManifestEntry>
+}
+
+/** Sort keys by code point, so the manifest reads the same under any locale */
+function compareCodePoints(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+export function contentChecksum(content: string): string {
+  return `sha256-${createHash('sha256').update(content).digest('hex')}`
+}
+
+export async function contextInputs(packages: SpecPackage[], config: ProjectConfig): Promise<ContextInputs> {
+  const recorded = await Promise.all(packages.map(async pkg => ({
+    name: pkg.manifest.name,
+    version: pkg.manifest.version,
+    integrity: await computeIntegrity(pkg.directory),
+  })))
+  return {
+    packages: recorded.sort((a, b) => compareCodePoints(a.name, b.name)),
+    project: contentChecksum(JSON.stringify([config.name, config.description ?? null])),
+    overrides: contentChecksum(JSON.stringify(config.overrides ?? {})),
+    ...(config.tokenBudget !== undefined ? { tokenBudget: config.tokenBudget } : {}),
+  }
+}
+
+export async function readContextManifest(projectRoot: string): Promise<Result<ContextManifest | null, string>> {
+  let content: string
+  try {
+    content = await readFile(join(projectRoot, CONTEXT_MANIFEST), 'utf-8')
+  } catch {
+    return { ok: true, value: null }
+  }
+  try {
+    const parsed = JSON.parse(content) as ContextManifest
+    return { ok: true, value: { targets: parsed.targets ?? {} } }
+  } catch (error) {
+    return { ok: false, error: `Failed to parse ${CONTEXT_MANIFEST}: ${error}` }
+  }
+}
+
+/**
+ * Replace the entries for the targets just generated, keeping the others
+ */
+export async function writeContextManifest(
+  projectRoot: string,
+  entries: Record<string, ContextManifestEntry>,
+): Promise<Result<string, string>> {
+  const existing = await readContextManifest(projectRoot)
+  const targets = { ...(existing.ok ? existing.value?.targets : {}), ...entries }
+  const sorted = Object.fromEntries(Object.entries(targets).sort(([a], [b]) => compareCodePoints(a, b)))
+
+  const manifestPath = join(projectRoot, CONTEXT_MANIFEST)
+  await mkdir(dirname(manifestPath), { recursive: true })
+  await writeFile(manifestPath, JSON.stringify({ targets: sorted }, null, 2) + '\n', 'utf-8')
+  return { ok: true, value: manifestPath }
+}
+
+/**
+ * How the current inputs differ from the recorded ones, one line per difference
+ */
+export function compareInputs(recorded: ContextInputs, current: ContextInputs): string[] {
+  const changes: string[] = []
+  const before = new Map(recorded.packages.map(pkg => [pkg.name, pkg]))
+  const after = new Map(current.packages.map(pkg => [pkg.name, pkg]))
+
+  for (const [name, pkg] of after) {
+    const old = before.get(name)
+    if (!old) {
+      changes.push(`${name}@${pkg.version} was installed`)
+    } else if (old.version !== pkg.version) {
+      changes.push(`${name} changed from ${old.version} to ${pkg.version}`)
+    } else if (old.integrity !== pkg.integrity) {
+      changes.push(`${name}@${pkg.version} contents changed`)
+    }
+  }
+  for (const [name, pkg] of before) {
+    if (!after.has(name)) changes.push(`${name}@${pkg.version} was removed`)
+  }
+  if (recorded.project !== current.project) changes.push('project name or description in specpm.yaml changed')
+  if (recorded.overrides !== current.overrides) changes.push('overrides in specpm.yaml changed')
+  if (recorded.tokenBudget !== current.tokenBudget) changes.push('token budget changed')
+  return changes
+}
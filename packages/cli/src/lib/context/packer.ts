@@ -0,0 +1,244 @@
+import type { SpecPackage } from 'shared'
+
+export type SectionName = 'constraints' | 'entities' | 'states' | 'docs'
+
+/** Section order for specs without `context.priority`: constraints matter most to an agent */
+export const DEFAULT_PRIORITY: SectionName[] = ['constraints', 'entities', 'states', 'docs']
+
+/** Something left out of a spec's context to fit a token budget */
+export interface PackingStep {
+  package: string
+  action: string
+  /** Whose budget it was cut for: the spec's `context.tokenBudget` or the project's */
+  budget: 'package' | 'project'
+}
+
+export interface PackedSpec {
+  pkg: SpecPackage
+  /** The spec's context section, ready to join into the document */
+  lines: string[]
+  tokens: number
+}
+
+export interface PackResult {
+  specs: PackedSpec[]
+  steps: PackingStep[]
+  tokens: number
+}
+
+/**
+ * Rough token count for generated markdown (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+interface PackState {
+  pkg: SpecPackage
+  order: SectionName[]
+  docs: 'full' | 'summary' | 'dropped'
+  entities: 'full' | 'collapsed' | 'dropped'
+  states: 'full' | 'dropped'
+  constraints: 'full' | 'errors' | 'dropped'
+}
+
+function renderEntitySchema(entity: Record<string, unknown>): string {
+  const title = (entity['title'] as string) ?? 'Unknown'
+  const properties = entity['properties'] as Record<string, Record<string, unknown>> | undefined
+  const required = (entity['required'] as string[]) ?? []
+
+  let output = `#### ${title}\n\n`
+
+  if (properties) {
+    output += '| Field | Type | Required |\n'
+    output += '|-------|------|----------|\n'
+    for (const [name, prop] of Object.entries(properties)) {
+      const type = (prop['type'] as string) ?? 'unknown'
+      const format = prop['format'] ? ` (${prop['format']})` : ''
+      const isRequired = required.includes(name) ? '✓' : ''
+      output += `| ${name} | ${type}${format} | ${isRequired} |\n`
+    }
+  }
+
+  return output
+}
+
+/** An entity as one line of field names, required ones starred */
+function renderCollapsedEntity(entity: Record<string, unknown>): string {
+  const title = (entity['title'] as string) ?? 'Unknown'
+  const required = (entity['required'] as string[]) ?? []
+  const fields = Object.keys((entity['properties'] as Record<string, unknown> | undefined) ?? {})
+    .map(name => required.includes(name) ? `${name}*` : name)
+  return `- **${title}**: ${fields.join(', ') || 'no fields'}`
+}
+
+function renderStateMachine(state: Record<string, unknown>): string {
+  const id = (state['id'] as string) ?? 'unknown'
+  let output = `#### State Machine: ${id}\n\n`
+
+  const states = state['states'] as Record<string, unknown> | undefined
+  if (states) {
+    output += 'States: ' + Object.keys(states).join(', ') + '\n\n'
+  }
+
+  return output
+}
+
+function renderConstraints(constraints: SpecPackage['constraints']): string {
+  if (constraints.length === 0) return ''
+
+  let output = '### Constraints\n\n'
+  for (const constraint of constraints) {
+    const icon = constraint.severity === 'error' ? '🔴' : '🟡'
+    output += `${icon} **${constraint.id}**: ${constraint.description}\n\n`
+  }
+  return output
+}
+
+/** A doc cut down to its first heading and first paragraph */
+function summarizeDoc(doc: string): string {
+  const blocks = doc.trim().split(/\n\s*\n/)
+  const heading = blocks[0]?.startsWith('#') ? blocks[0].split('\n')[0] : undefined
+  const paragraph = blocks.find(block => !block.startsWith('#'))
+  return [heading, paragraph].filter(Boolean).join('\n\n')
+}
+
+function renderSection(state: PackState, section: SectionName): string[] {
+  const { pkg } = state
+  switch (section) {
+    case 'constraints': {
+      if (state.constraints === 'dropped') return []
+      const constraints = state.constraints === 'errors'
+        ? pkg.constraints.filter(c => c.severity === 'error')
+        : pkg.constraints
+      return constraints.length > 0 ? [renderConstraints(constraints)] : []
+    }
+    case 'entities':
+      if (state.entities === 'dropped' || pkg.entities.length === 0) return []
+      if (state.entities === 'collapsed') {
+        return ['### Entities\n', ...pkg.entities.map(renderCollapsedEntity), '']
+      }
+      return ['### Entities\n', ...pkg.entities.map(renderEntitySchema)]
+    case 'states':
+      if (state.states === 'dropped' || pkg.states.length === 0) return []
+      return ['### State Machines\n', ...pkg.states.map(renderStateMachine)]
+    case 'docs': {
+      if (state.docs === 'dropped' || pkg.docs.length === 0) return []
+      const summary = state.docs === 'summary'
+      const docs = summary ? pkg.docs.map(summarizeDoc) : pkg.docs
+      return [summary ? '### Implementation Notes (summary)\n' : '### Implementation Notes\n', ...docs.flatMap(doc => [doc, ''])]
+    }
+  }
+}
+
+function renderSpec(state: PackState): string[] {
+  const { manifest } = state.pkg
+  const lines = [`## ${manifest.name} v${manifest.version}`, '']
+  if (state.pkg.aliasOf) {
+    lines.push(`_Provided by ${state.pkg.aliasOf}._`, '')
+  }
+  lines.push(manifest.description, '')
+  for (const section of state.order) {
+    lines.push(...renderSection(state, section))
+  }
+  lines.push('---\n')
+  return lines
+}
+
+function specTokens(state: PackState): number {
+  return estimateTokens(renderSpec(state).join('\n'))
+}
+
+/**
+ * Sections in the spec's `context.priority` order; sections it leaves out follow in the
+ * default order, and unknown names are ignored (L1 verification warns about them)
+ */
+function sectionOrder(pkg: SpecPackage): SectionName[] {
+  const listed = (pkg.manifest.context?.priority ?? [])
+    .filter((s): s is SectionName => (DEFAULT_PRIORITY as string[]).includes(s))
+  return [...new Set([...listed, ...DEFAULT_PRIORITY])]
+}
+
+/**
+ * Take the next step down for a spec over budget: summarize docs, collapse entity tables,
+ * drop whole sections from the lowest priority up, and drop constraints last (warnings
+ * before errors). Returns what was done, or null when there is nothing left to cut.
+ */
+function degrade(state: PackState): string | null {
+  const { pkg } = state
+  if (state.docs === 'full' && pkg.docs.length > 0) {
+    state.docs = 'summary'
+    return 'summarized docs'
+  }
+  if (state.entities === 'full' && pkg.entities.length > 0) {
+    state.entities = 'collapsed'
+    return 'collapsed entity tables'
+  }
+  for (const section of [...state.order].reverse()) {
+    if (section === 'constraints') continue
+    const present = section === 'docs' ? pkg.docs : section === 'entities' ? pkg.entities : pkg.states
+    if (state[section] !== 'dropped' && present.length > 0) {
+      state[section] = 'dropped'
+      return section === 'states' ? 'dropped state machines' : `dropped ${section}`
+    }
+  }
+  const warnings = pkg.constraints.filter(c => c.severity !== 'error').length
+  if (state.constraints === 'full' && warnings > 0 && warnings < pkg.constraints.length) {
+    state.constraints = 'errors'
+    return 'dropped warning constraints'
+  }
+  if (state.constraints !== 'dropped' && pkg.constraints.length > 0) {
+    state.constraints = 'dropped'
+    return 'dropped constraints'
+  }
+  return null
+}
+
+/**
+ * Render each spec's context section, fitting it into the spec's own `context.tokenBudget`
+ * and all of them together into `tokenBudget`. Over the project budget, specs are cut down
+ * one step at a time in turn, starting from the last, so every spec keeps its most
+ * important sections for as long as possible.
+ */
+export function packSpecs(packages: SpecPackage[], options: { tokenBudget?: number } = {}): PackResult {
+  const steps: PackingStep[] = []
+  const states: PackState[] = packages.map(pkg => ({
+    pkg,
+    order: sectionOrder(pkg),
+    docs: 'full',
+    entities: 'full',
+    states: 'full',
+    constraints: 'full',
+  }))
+
+  for (const state of states) {
+    const budget = state.pkg.manifest.context?.tokenBudget
+    if (budget === undefined) continue
+    while (specTokens(state) > budget) {
+      const action = degrade(state)
+      if (!action) break
+      steps.push({ package: state.pkg.manifest.name, action, budget: 'package' })
+    }
+  }
+
+  const total = () => states.reduce((sum, state) => sum + specTokens(state), 0)
+  if (options.tokenBudget !== undefined) {
+    let cut = true
+    while (cut && total() > options.tokenBudget) {
+      cut = false
+      for (const state of [...states].reverse()) {
+        const action = degrade(state)
+        if (!action) continue
+        cut = true
+        steps.push({ package: state.pkg.manifest.name, action, budget: 'project' })
+        if (total() <= options.tokenBudget) break
+      }
+    }
+  }
+
+  const specs = states.map(state => {
+    const lines = renderSpec(state)
+    return { pkg: state.pkg, lines, tokens: estimateTokens(lines.join('\n')) }
+  })
+  return { specs, steps, tokens: specs.reduce((sum, spec) => sum + spec.tokens, 0) }
+}
@@ -0,0 +1,246 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises'
+import { join, dirname, resolve, isAbsolute, normalize } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { createRequire } from 'node:module'
+import type { SpecPackage, Result } from 'shared'
+import { generateContext, type ProjectConfig } from './generator.js'
+
+/**
+ * How generated context goes into a target's file. `replace`: specpm owns the whole file.
+ * `section`: specpm owns the part between its markers and keeps whatever else is there.
+ */
+export type MergeStrategy = 'replace' | 'section'
+
+/** A file an agent reads its instructions from, and how specpm writes context into it */
+export interface ContextTarget {
+  name: string
+  /** Output file, relative to the project */
+  output: string
+  merge: MergeStrategy
+  /**
+   * `spec`: one file per spec instead of one for all of them, at `output` with `<name>`
+   * replaced by the spec's name (`@auth/sessions` becomes `auth-sessions`)
+   */
+  split?: 'spec'
+  /** Agent named in the generated preamble (default: the target name) */
+  label?: string
+  /** Markers around the generated section, for `section` merges (default: HTML comments) */
+  markers?: { start: string; end: string }
+  /** Turn the generated markdown into the file's format, e.g. by adding frontmatter; `spec` is set for split targets */
+  render?: (markdown: string, config: ProjectConfig, spec?: SpecPackage) => string
+  /** Most tokens the agent reads from the file; specs are cut down to fit */
+  maxTokens?: number
+}
+
+const MARKDOWN_MARKERS = {
+  start: '<!-- BEGIN SPECPM GENERATED CONTEXT (DO NOT EDIT) -->',
+  end: '<!-- END SPECPM GENERATED CONTEXT -->',
+}
+
+function frontmatter(fields: string[], markdown: string): string {
+  return ['---', ...fields, '---', '', markdown].join('\n')
+}
+
+/**
+ * Cursor loads a rule whenever a file matching its globs is in play. A spec's rule uses the
+ * spec's `context.appliesTo` globs, and applies everywhere when it has none.
+ */
+function cursorRuleFields(spec: SpecPackage): string[] {
+  const globs = spec.manifest.context?.appliesTo ?? []
+  return [
+    // Quoted, so a description with `: ` or a leading `#` stays one YAML string
+    `description: ${JSON.stringify(spec.manifest.description.replace(/\s+/g, ' ').trim())}`,
+    `globs:${globs.length > 0 ? ` ${globs.join(', ')}` : ''}`,
+    `alwaysApply: ${globs.length === 0}`,
+  ]
+}
+
+export const BUILTIN_TARGETS: ContextTarget[] = [
+  { name: 'claude', label: 'claude-code', output: 'CLAUDE.md', merge: 'section' },
+  { name: 'agents', output: 'AGENTS.md', merge: 'section' },
+  {
+    name: 'cursor',
+    output: '.cursorrules',
+    merge: 'section',
+    markers: { start: '# --- BEGIN SPECPM GENERATED RULES (DO NOT EDIT) ---', end: '# --- END SPECPM GENERATED RULES ---' },
+  },
+  {
+    name: 'cursor-rules',
+    label: 'cursor',
+    output: '.cursor/rules/specpm-<name>.mdc',
+    merge: 'replace',
+    split: 'spec',
+    render: (markdown, _config, spec) => frontmatter(cursorRuleFields(spec!), markdown),
+  },
+  { name: 'copilot', output: '.github/copilot-instructions.md', merge: 'replace' },
+  {
+    name: 'windsurf',
+    output: '.windsurf/rules/specpm.md',
+    merge: 'replace',
+    render: markdown => frontmatter(['trigger: always_on'], markdown),
+    // Windsurf reads at most 12,000 characters of a rule file
+    maxTokens: 3000,
+  },
+  { name: 'cline', output: '.clinerules/specpm.md', merge: 'replace' },
+  { name: 'roo', output: '.roo/rules/specpm.md', merge: 'replace' },
+  { name: 'aider', output: 'CONVENTIONS.md', merge: 'section' },
+  { name: 'zed', output: '.rules', merge: 'section' },
+  { name: 'gemini', output: 'GEMINI.md', merge: 'section' },
+]
+
+/**
+ * Check what a plugin exported; returns the problem, or null for a usable target
+ */
+function invalidTarget(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null) return 'does not export a target object'
+  const target = value as Record<string, unknown>
+  if (typeof target['name'] !== 'string' || !/^[a-z0-9-]+$/.test(target['name'])) {
+    return 'has no name (lowercase letters, digits and dashes)'
+  }
+  const output = target['output']
+  if (typeof output !== 'string' || isAbsolute(output) || normalize(output).startsWith('..')) {
+    return `${target['name']}: output must be a path inside the project`
+  }
+  if (target['merge'] !== 'replace' && target['merge'] !== 'section') {
+    return `${target['name']}: merge must be "replace" or "section"`
+  }
+  if (target['split'] !== undefined && (target['split'] !== 'spec' || !output.includes('<name>'))) {
+    return `${target['name']}: split must be "spec", with <name> in the output path`
+  }
+  if (target['render'] !== undefined && typeof target['render'] !== 'function') {
+    return `${target['name']}: render must be a function`
+  }
+  if (target['maxTokens'] !== undefined && !(Number.isInteger(target['maxTokens']) && (target['maxTokens'] as number) > 0)) {
+    return `${target['name']}: maxTokens must be a positive number`
+  }
+  return null
+}
+
+/**
+ * The built-in targets plus those from `context.plugins` in specpm.yaml. Each plugin is a
+ * path relative to the project or a package name, and default-exports a target or a list of them.
+ */
+export async function loadTargets(projectRoot: string, plugins: string[] = []): Promise<Result<Map<string, ContextTarget>, string>> {
+  const targets = new Map(BUILTIN_TARGETS.map(target => [target.name, target]))
+
+  for (const plugin of plugins) {
+    let exported: unknown
+    try {
+      const path = plugin.startsWith('.') || isAbsolute(plugin)
+        ? resolve(projectRoot, plugin)
+        : createRequire(join(projectRoot, 'specpm.yaml')).resolve(plugin)
+      exported = (await import(pathToFileURL(path).href)).default
+    } catch (error) {
+      return { ok: false, error: `Failed to load context target plugin ${plugin}: ${error instanceof Error ? error.message : error}` }
+    }
+
+    for (const target of Array.isArray(exported) ? exported : [exported]) {
+      const problem = invalidTarget(target)
+      if (problem) return { ok: false, error: `Context target plugin ${plugin} ${problem}` }
+      const { name } = target as ContextTarget
+      if (targets.has(name)) {
+        return { ok: false, error: `Context target plugin ${plugin} defines "${name}", which is already a target` }
+      }
+      targets.set(name, target as ContextTarget)
+    }
+  }
+  return { ok: true, value: targets }
+}
+
+/** The project settings for one target: its size limit caps the token budget */
+export function targetConfig(target: ContextTarget, config: ProjectConfig): ProjectConfig {
+  if (target.maxTokens === undefined) return config
+  return { ...config, tokenBudget: Math.min(config.tokenBudget ?? Infinity, target.maxTokens) }
+}
+
+/**
+ * The part of a target's file specpm owns: all of it for `replace` merges, the section
+ * between the markers, markers included, for `section` merges; null when that section is gone
+ */
+export function generatedSection(target: ContextTarget, content: string): string | null {
+  if (target.merge === 'replace') return content
+  const { start, end } = target.markers ?? MARKDOWN_MARKERS
+  const startIndex = content.indexOf(start)
+  const endIndex = content.indexOf(end)
+  if (startIndex === -1 || endIndex === -1) return null
+  return content.substring(startIndex, endIndex + end.length)
+}
+
+/** A spec's name as it appears in a split target's file names */
+function specFileName(spec: SpecPackage): string {
+  return spec.manifest.name.replace(/^@/, '').replace('/', '-')
+}
+
+/**
+ * Write a target's context: one file, or one per spec for split targets. Returns the files written.
+ */
+export async function writeTargetContext(
+  projectRoot: string,
+  target: ContextTarget,
+  packages: SpecPackage[],
+  config: ProjectConfig,
+): Promise<Result<string[], string>> {
+  const files = target.split === 'spec'
+    ? packages.map(spec => ({ output: target.output.replace('<name>', specFileName(spec)), packages: [spec], spec }))
+    : [{ output: target.output, packages, spec: undefined }]
+
+  const written: string[] = []
+  for (const file of files) {
+    const result = await writeTargetFile(projectRoot, target, file.output, file.packages, config, file.spec)
+    if (!result.ok) return result
+    written.push(result.value)
+  }
+  return { ok: true, value: written }
+}
+
+async function writeTargetFile(
+  projectRoot: string,
+  target: ContextTarget,
+  output: string,
+  packages: SpecPackage[],
+  config: ProjectConfig,
+  spec?: SpecPackage,
+): Promise<Result<string, string>> {
+  let content: string
+  try {
+    const markdown = generateContext({ packages, config: targetConfig(target, config), target: target.label ?? target.name })
+    content = target.render ? target.render(markdown, config, spec) : markdown
+  } catch (error) {
+    return { ok: false, error: `Target ${target.name} failed to render: ${error instanceof Error ? error.message : error}` }
+  }
+
+  const outputPath = join(projectRoot, output)
+  await mkdir(dirname(outputPath), { recursive: true })
+
+  if (target.merge === 'replace') {
+    await writeFile(outputPath, content, 'utf-8')
+    return { ok: true, value: outputPath }
+  }
+
+  const { start, end } = target.markers ?? MARKDOWN_MARKERS
+  const section = `${start}\n${content}\n${end}`
+
+  let existingContent = ''
+  try {
+    existingContent = await readFile(outputPath, 'utf-8')
+  } catch {
+    // File doesn't exist, that's fine
+  }
+
+  let newContent: string
+  const startIndex = existingContent.indexOf(start)
+  const endIndex = existingContent.indexOf(end)
+
+  if (startIndex !== -1 && endIndex !== -1) {
+    // Replace existing generated section
+    newContent = existingContent.substring(0, startIndex) + section + existingContent.substring(endIndex + end.length)
+  } else if (existingContent.length > 0) {
+    // Append to existing content
+    newContent = existingContent.trimEnd() + '\n\n' + section + '\n'
+  } else {
+    newContent = section + '\n'
+  }
+
+  await writeFile(outputPath, newContent, 'utf-8')
+  return { ok: true, value: outputPath }
+}
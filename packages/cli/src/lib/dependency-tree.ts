@@ -0,0 +1,179 @@
+import type { Result, SpecPackage } from 'shared'
+import { listInstalledSpecs } from './loader.js'
+import { satisfiesRange } from './resolver.js'
+
+export type DependencyType = 'dependencies' | 'devDependencies'
+
+export interface DependencyNode {
+  name: string
+  /** Range the parent (or specpm.yaml) asks for */
+  range: string
+  /** Installed version, or null when the package is missing */
+  version: string | null
+  /** Reached only through devDependencies: no production dependency leads to it */
+  dev: boolean
+  /** `invalid`: the installed version does not satisfy `range` */
+  problem?: 'missing' | 'invalid'
+  /** Already printed earlier in the tree (or part of a cycle); children are omitted */
+  deduped?: boolean
+  dependencies: DependencyNode[]
+}
+
+export interface DependencyTree {
+  name: string
+  version: string
+  dependencies: DependencyNode[]
+  /** Installed specs that nothing in specpm.yaml requires */
+  extraneous: { name: string; version: string }[]
+  /** Human-readable summary of missing, invalid and extraneous packages */
+  problems: string[]
+}
+
+/** One link in a chain from specpm.yaml down to a package */
+export interface ChainLink {
+  name: string
+  range: string
+  version: string | null
+}
+
+export interface DependencyChain {
+  type: DependencyType
+  path: ChainLink[]
+}
+
+interface ProjectRoots {
+  name: string
+  version: string
+  dependencies?: Record<string, string>
+  devDependencies?: Record<string, string>
+}
+
+async function loadInstalled(projectRoot: string): Promise<Result<Map<string, SpecPackage>, string>> {
+  const result = await listInstalledSpecs(projectRoot)
+  if (!result.ok) {
+    return { ok: false, error: `Failed to list installed specs: ${result.error.map(e => e.message).join(', ')}` }
+  }
+  return { ok: true, value: new Map(result.value.map(spec => [spec.manifest.name, spec])) }
+}
+
+function rootEntries(project: ProjectRoots): Array<[string, string, DependencyType]> {
+  return [
+    ...Object.entries(project.dependencies ?? {}).map(([n, r]) => [n, r, 'dependencies'] as [string, string, DependencyType]),
+    ...Object.entries(project.devDependencies ?? {}).map(([n, r]) => [n, r, 'devDependencies'] as [string, string, DependencyType]),
+  ]
+}
+
+/**
+ * Names reachable from `roots` through installed specs' dependencies, missing packages included
+ */
+function reachableNames(roots: string[], installed: Map<string, SpecPackage>): Set<string> {
+  const reached = new Set<string>()
+  const stack = [...roots]
+  while (stack.length > 0) {
+    const name = stack.pop()!
+    if (reached.has(name)) continue
+    reached.add(name)
+    stack.push(...Object.keys(installed.get(name)?.manifest.dependencies ?? {}))
+  }
+  return reached
+}
+
+/**
+ * Build the installed dependency tree for a project, flagging packages that are missing,
+ * installed at a version outside the requested range, or installed without being required.
+ * `replacements` (see projectReplacements) take the place of the ranges asked for.
+ */
+export async function buildDependencyTree(
+  projectRoot: string,
+  project: ProjectRoots,
+  replacements: Record<string, string> = {},
+): Promise<Result<DependencyTree, string>> {
+  const installedResult = await loadInstalled(projectRoot)
+  if (!installedResult.ok) return installedResult
+  const installed = installedResult.value
+
+  const problems: string[] = []
+  const printed = new Set<string>()
+  const reached = new Set<string>()
+  // Whatever a production dependency leads to is production, however else it is reached
+  const production = reachableNames(Object.keys(project.dependencies ?? {}), installed)
+
+  function build(name: string, declared: string, ancestors: string[], requiredBy: string): DependencyNode {
+    const range = replacements[name] ?? declared
+    reached.add(name)
+    const spec = installed.get(name)
+    const node: DependencyNode = {
+      name, range, version: spec?.manifest.version ?? null, dev: !production.has(name), dependencies: [],
+    }
+
+    if (!spec) {
+      node.problem = 'missing'
+      problems.push(`missing: ${name}@${range}, required by ${requiredBy}`)
+      return node
+    }
+    if (!satisfiesRange(spec.manifest.version, range)) {
+      node.problem = 'invalid'
+      problems.push(`invalid: ${name}@${spec.manifest.version} does not satisfy ${range}, required by ${requiredBy}`)
+    }
+
+    if (printed.has(name) || ancestors.includes(name)) {
+      node.deduped = true
+      return node
+    }
+    printed.add(name)
+
+    const self = `${name}@${spec.manifest.version}`
+    for (const [depName, depRange] of Object.entries(spec.manifest.dependencies ?? {})) {
+      node.dependencies.push(build(depName, depRange, [...ancestors, name], self))
+    }
+    return node
+  }
+
+  // Production roots first, so what they share with dev roots is printed in full under them
+  const dependencies = rootEntries(project)
+    .map(([name, range]) => build(name, range, [], 'specpm.yaml'))
+
+  const extraneous = [...installed.values()]
+    .filter(spec => !reached.has(spec.manifest.name))
+    .map(spec => ({ name: spec.manifest.name, version: spec.manifest.version }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+  for (const pkg of extraneous) {
+    problems.push(`extraneous: ${pkg.name}@${pkg.version}`)
+  }
+
+  return { ok: true, value: { name: project.name, version: project.version, dependencies, extraneous, problems } }
+}
+
+/**
+ * Every chain from a dependency in specpm.yaml down to `target`, following installed specs' dependencies
+ */
+export async function findDependencyChains(
+  projectRoot: string,
+  project: ProjectRoots,
+  target: string,
+  replacements: Record<string, string> = {},
+): Promise<Result<DependencyChain[], string>> {
+  const installedResult = await loadInstalled(projectRoot)
+  if (!installedResult.ok) return installedResult
+  const installed = installedResult.value
+
+  const chains: DependencyChain[] = []
+  function walk(path: ChainLink[], type: DependencyType): void {
+    const current = path[path.length - 1]
+    if (current.name === target) {
+      chains.push({ type, path })
+      return
+    }
+    for (const [depName, depRange] of Object.entries(installed.get(current.name)?.manifest.dependencies ?? {})) {
+      // A cycle can never lead anywhere new
+      if (path.some(link => link.name === depName)) continue
+      const range = replacements[depName] ?? depRange
+      walk([...path, { name: depName, range, version: installed.get(depName)?.manifest.version ?? null }], type)
+    }
+  }
+
+  for (const [name, range, type] of rootEntries(project)) {
+    walk([{ name, range: replacements[name] ?? range, version: installed.get(name)?.manifest.version ?? null }], type)
+  }
+  return { ok: true, value: chains }
+}
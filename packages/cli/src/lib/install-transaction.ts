@@ -0,0 +1,282 @@
+import { mkdir, mkdtemp, rename, rm, rmdir, readFile, lstat, symlink } from 'node:fs/promises'
+import { join, dirname, relative } from 'node:path'
+import { stringify } from 'yaml'
+import type { Result, SpecPackage } from 'shared'
+import { loadSpecPackage } from './loader.js'
+import { generateLockfile, computeIntegrity, writeFileAtomic, LOCKFILE_NAME } from './lockfile.js'
+import { storePath, storeEntryOf, linkedStoreEntries, pruneStoredVersions } from './store.js'
+
+/**
+ * A set of package additions, replacements and removals that is applied to
+ * .specpm/specs/, .specpm/store/, specpm.yaml and the lockfile all at once, or not at all.
+ */
+export interface InstallTransaction {
+  /** Populate a staging directory for a package and validate it; nothing under .specpm/specs/ changes yet */
+  stage(name: string, populate: (dir: string) => Promise<void>, options?: StageOptions): Promise<Result<SpecPackage, string>>
+  /** Switch a package to a version already in .specpm/store/, without staging it again */
+  useStored(name: string, version: string, options?: StageOptions): Promise<Result<SpecPackage, string>>
+  /** Schedule an installed package for removal */
+  remove(name: string): void
+  /** Schedule specpm.yaml to be rewritten with this content */
+  setManifest(manifest: Record<string, unknown>): void
+  /** Swap staged packages into place, write specpm.yaml and regenerate the lockfile; roll back on failure */
+  commit(): Promise<Result<void, string>>
+  /** Discard everything staged */
+  abort(): Promise<void>
+}
+
+export interface StageOptions {
+  /** Reject the staged contents unless they are this version */
+  version?: string
+  /** Source recorded in the lockfile for this package */
+  resolved?: string
+  /** Package the contents must be, when it is installed under another name (an alias or a replacement) */
+  package?: string
+}
+
+export interface TransactionOptions {
+  /** Regenerate specpm-lock.yaml on commit (default true) */
+  writeLockfile?: boolean
+  /** specpm.yaml that setManifest() rewrites, when it is not the project root's (a workspace's) */
+  manifestPath?: string
+}
+
+interface StagedPackage {
+  /** Staged contents, or null to link the store entry that already holds this version */
+  dir: string | null
+  /** Package the contents are, which keys them in the store */
+  package: string
+  version: string
+}
+
+interface AppliedStep {
+  target: string
+  backup: string | null
+  installed: boolean
+  /** Store entry this step created, and the entry it replaced */
+  stored: string | null
+  storeBackup: string | null
+}
+
+/** Whether a path exists, counting links whose target is gone */
+async function pathExists(filePath: string): Promise<boolean> {
+  try { await lstat(filePath); return true } catch { return false }
+}
+
+async function isSymlink(filePath: string): Promise<boolean> {
+  try { return (await lstat(filePath)).isSymbolicLink() } catch { return false }
+}
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try { return await readFile(filePath, 'utf-8') } catch { return null }
+}
+
+function packageDir(root: string, name: string): string {
+  const [scope, pkg] = name.slice(1).split('/')
+  return join(root, `@${scope}`, pkg)
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Start a transaction. Staging happens under .specpm/.staging/ so moving packages
+ * into .specpm/store/ is a same-filesystem rename.
+ */
+export async function beginInstallTransaction(
+  projectRoot: string,
+  options: TransactionOptions = {},
+): Promise<InstallTransaction> {
+  const specsDir = join(projectRoot, '.specpm', 'specs')
+  const stagingRoot = join(projectRoot, '.specpm', '.staging')
+  await mkdir(stagingRoot, { recursive: true })
+  const stagingDir = await mkdtemp(join(stagingRoot, 'tx-'))
+
+  const staged = new Map<string, StagedPackage>()
+  const removals = new Set<string>()
+  const resolved: Record<string, string> = {}
+  let manifest: Record<string, unknown> | null = null
+
+  /**
+   * Move staged contents into the store. An entry with the same contents is kept as it is;
+   * one with different contents (a local package re-installed at the same version) is replaced.
+   */
+  async function putInStore(step: AppliedStep, name: string, dir: string, entry: string): Promise<void> {
+    if (await pathExists(entry)) {
+      if (await computeIntegrity(entry) === await computeIntegrity(dir)) return
+      step.storeBackup = packageDir(join(stagingDir, 'store-backup'), name)
+      await mkdir(dirname(step.storeBackup), { recursive: true })
+      await rename(entry, step.storeBackup)
+    }
+    await mkdir(dirname(entry), { recursive: true })
+    await rename(dir, entry)
+    step.stored = entry
+  }
+
+  async function cleanup(): Promise<void> {
+    await rm(stagingDir, { recursive: true, force: true })
+    await rmdir(stagingRoot).catch(() => {})
+  }
+
+  return {
+    async stage(name, populate, stageOptions = {}) {
+      const dir = packageDir(join(stagingDir, 'packages'), name)
+      await rm(dir, { recursive: true, force: true })
+      await mkdir(dir, { recursive: true })
+
+      try {
+        await populate(dir)
+      } catch (error) {
+        return { ok: false, error: `Failed to extract ${name}: ${errorMessage(error)}` }
+      }
+
+      const loadResult = await loadSpecPackage(dir)
+      if (!loadResult.ok) {
+        const messages = loadResult.error.map(e => `  ${e.path}: ${e.message}`).join('\n')
+        return { ok: false, error: `Invalid spec package ${name}:\n${messages}` }
+      }
+
+      const { name: stagedName, version: stagedVersion } = loadResult.value.manifest
+      const expectedName = stageOptions.package ?? name
+      if (stagedName !== expectedName) {
+        return { ok: false, error: `Package contents are ${stagedName}, expected ${expectedName}` }
+      }
+      if (stageOptions.version && stagedVersion !== stageOptions.version) {
+        return { ok: false, error: `Package contents are ${name}@${stagedVersion}, expected ${stageOptions.version}` }
+      }
+
+      staged.set(name, { dir, package: expectedName, version: stagedVersion })
+      removals.delete(name)
+      if (stageOptions.resolved) {
+        resolved[name] = stageOptions.resolved
+      }
+      return { ok: true, value: loadResult.value }
+    },
+
+    async useStored(name, version, stageOptions = {}) {
+      const packageName = stageOptions.package ?? name
+      const loadResult = await loadSpecPackage(storePath(projectRoot, packageName, version))
+      if (!loadResult.ok || loadResult.value.manifest.name !== packageName || loadResult.value.manifest.version !== version) {
+        return { ok: false, error: `${packageName}@${version} is not in the store` }
+      }
+      staged.set(name, { dir: null, package: packageName, version })
+      removals.delete(name)
+      if (stageOptions.resolved) {
+        resolved[name] = stageOptions.resolved
+      }
+      return { ok: true, value: loadResult.value }
+    },
+
+    remove(name) {
+      staged.delete(name)
+      delete resolved[name]
+      removals.add(name)
+    },
+
+    setManifest(next) {
+      manifest = next
+    },
+
+    async commit() {
+      const manifestPath = options.manifestPath ?? join(projectRoot, 'specpm.yaml')
+      const lockfilePath = join(projectRoot, LOCKFILE_NAME)
+      const previousManifest = await readIfExists(manifestPath)
+      const previousLockfile = await readIfExists(lockfilePath)
+      const applied: AppliedStep[] = []
+      // Store entries to keep: versions now in use and the ones they replaced
+      const keep = new Set<string>()
+      // Store entries of removed packages, deleted unless something else still links them
+      const removed: string[] = []
+      // Packages whose other stored versions are pruned
+      const touched = new Set<string>()
+
+      try {
+        for (const name of [...removals, ...staged.keys()]) {
+          const target = packageDir(specsDir, name)
+          const step: AppliedStep = { target, backup: null, installed: false, stored: null, storeBackup: null }
+          const previousEntry = await storeEntryOf(projectRoot, target)
+          if (previousEntry) {
+            if (staged.has(name)) keep.add(previousEntry)
+            else removed.push(previousEntry)
+          }
+
+          // Move the current link (or copy, from before the store) aside so it can be restored
+          if (await pathExists(target)) {
+            step.backup = packageDir(join(stagingDir, 'backup'), name)
+            await mkdir(dirname(step.backup), { recursive: true })
+            await rename(target, step.backup)
+          }
+          applied.push(step)
+
+          const pkg = staged.get(name)
+          if (pkg) {
+            await mkdir(dirname(target), { recursive: true })
+            if (pkg.dir && await isSymlink(pkg.dir)) {
+              // Linked with `specpm link`: the link itself is installed, outside the store
+              await rename(pkg.dir, target)
+            } else {
+              const entry = storePath(projectRoot, pkg.package, pkg.version)
+              if (pkg.dir) await putInStore(step, pkg.package, pkg.dir, entry)
+              await symlink(relative(dirname(target), entry), target, 'junction')
+              keep.add(entry)
+              touched.add(pkg.package)
+            }
+            step.installed = true
+          } else {
+            touched.add(name)
+            // Drop the scope directory once its last package is gone
+            await rmdir(dirname(target)).catch(() => {})
+          }
+        }
+
+        if (manifest) {
+          await writeFileAtomic(manifestPath, stringify(manifest))
+        }
+        if (options.writeLockfile !== false) {
+          await generateLockfile(projectRoot, resolved)
+        }
+      } catch (error) {
+        // Undo in reverse order; each step is best-effort so one failure doesn't strand the rest
+        for (const step of applied.reverse()) {
+          if (step.installed) {
+            await rm(step.target, { recursive: true, force: true }).catch(() => {})
+          }
+          if (step.stored) {
+            await rm(step.stored, { recursive: true, force: true }).catch(() => {})
+          }
+          if (step.storeBackup && step.stored) {
+            await rename(step.storeBackup, step.stored).catch(() => {})
+          }
+          if (step.backup) {
+            await mkdir(dirname(step.target), { recursive: true }).catch(() => {})
+            await rename(step.backup, step.target).catch(() => {})
+          }
+        }
+        if (previousManifest !== null) {
+          await writeFileAtomic(manifestPath, previousManifest).catch(() => {})
+        }
+        if (previousLockfile !== null) {
+          await writeFileAtomic(lockfilePath, previousLockfile).catch(() => {})
+        } else {
+          await rm(lockfilePath, { force: true }).catch(() => {})
+        }
+        await cleanup()
+        return { ok: false, error: `Install failed and was rolled back: ${errorMessage(error)}` }
+      }
+
+      // An entry may also be in use under another name, as an alias
+      for (const entry of await linkedStoreEntries(projectRoot)) keep.add(entry)
+      for (const name of touched) {
+        await pruneStoredVersions(projectRoot, name, [...keep]).catch(() => {})
+      }
+      for (const entry of removed.filter(entry => !keep.has(entry))) {
+        await rm(entry, { recursive: true, force: true }).catch(() => {})
+      }
+      await cleanup()
+      return { ok: true, value: undefined }
+    },
+
+    abort: cleanup,
+  }
+}
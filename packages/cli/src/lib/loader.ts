@@ -2,8 +2,10 @@ import { readFile, access, readdir, stat, lstat } from 'node:fs/promises'
 import { join, normalize, relative, isAbsolute } from 'node:path'
 import Ajv from 'ajv'
 import { parse as parseYaml } from 'yaml'
-import { specYamlSchema } from 'shared'
+import { specYamlSchema, reachableSpecs, installedAs } from 'shared'
 import type { SpecYaml, SpecPackage, ConstraintsFile, Result, ValidationError } from 'shared'
+import { findWorkspaceRoot, findInstallRoot } from './workspace.js'
+import { storePath } from './store.js'
 
 const ajv = new Ajv({ allErrors: true })
 const validateManifest = ajv.compile(specYamlSchema)
@@ -128,9 +130,25 @@ export async function loadSpecPackage(directory: string): Promise<Result<SpecPac
 }
 
 /**
- * List all installed spec packages from .specpm/specs/
+ * List all installed spec packages from .specpm/specs/. A workspace sees the specs hoisted
+ * to its workspace root that its own specpm.yaml depends on, directly or transitively.
  */
 export async function listInstalledSpecs(projectRoot: string): Promise<Result<SpecPackage[], ValidationError[]>> {
+  const workspaceRoot = await findWorkspaceRoot(projectRoot)
+  if (!workspaceRoot) return scanInstalledSpecs(projectRoot)
+
+  const result = await scanInstalledSpecs(workspaceRoot)
+  if (!result.ok) return result
+  let manifest: Record<string, unknown> | null = null
+  try {
+    manifest = parseYaml(await readFile(join(projectRoot, 'specpm.yaml'), 'utf-8'))
+  } catch {
+    // Unreadable specpm.yaml: nothing is reachable
+  }
+  return { ok: true, value: reachableSpecs(manifest, result.value) }
+}
+
+async function scanInstalledSpecs(projectRoot: string): Promise<Result<SpecPackage[], ValidationError[]>> {
   const specsDir = join(projectRoot, '.specpm', 'specs')
   if (!(await fileExists(specsDir))) {
     return { ok: true, value: [] }
@@ -149,13 +167,18 @@ export async function listInstalledSpecs(projectRoot: string): Promise<Result<Sp
 
     const names = await readdir(scopeDir)
     for (const name of names) {
+      // Linked packages (`specpm link`) are symlinks, read through to the live directory
       const packageDir = join(scopeDir, name)
-      const pkgStat = await lstat(packageDir)
+      const pkgStat = await stat(packageDir).catch(() => null)
+      if (!pkgStat) {
+        errors.push({ path: `${entry}/${name}`, message: 'Linked directory not found' })
+        continue
+      }
       if (!pkgStat.isDirectory()) continue
 
       const result = await loadSpecPackage(packageDir)
       if (result.ok) {
-        packages.push(result.value)
+        packages.push(installedAs(result.value, `${entry}/${name}`))
       } else {
         errors.push(...result.error)
       }
@@ -170,19 +193,38 @@ export async function listInstalledSpecs(projectRoot: string): Promise<Result<Sp
 }
 
 /**
- * Get a single installed spec by name (e.g. "@auth/oauth2")
+ * Get a single installed spec by name (e.g. "@auth/oauth2"). With a version, the spec is
+ * read from .specpm/store/ when that version is kept there, whichever version is in use.
  */
-export async function getInstalledSpec(projectRoot: string, name: string): Promise<Result<SpecPackage, ValidationError[]>> {
+export async function getInstalledSpec(
+  projectRoot: string,
+  name: string,
+  version?: string,
+): Promise<Result<SpecPackage, ValidationError[]>> {
   // name format: @scope/package
   const match = name.match(/^@([a-z0-9-]+)\/([a-z0-9-]+)$/)
   if (!match) {
     return { ok: false, error: [{ path: name, message: `Invalid package name: ${name}` }] }
   }
 
-  const packageDir = join(projectRoot, '.specpm', 'specs', `@${match[1]}`, match[2])
+  const installRoot = await findInstallRoot(projectRoot)
+  if (version) {
+    const stored = storePath(installRoot, name, version)
+    if (await fileExists(stored)) return loadSpecPackage(stored)
+  }
+
+  const packageDir = join(installRoot, '.specpm', 'specs', `@${match[1]}`, match[2])
   if (!(await fileExists(packageDir))) {
     return { ok: false, error: [{ path: name, message: `Package not installed: ${name}` }] }
   }
 
-  return loadSpecPackage(packageDir)
+  const result = await loadSpecPackage(packageDir)
+  if (!result.ok) return result
+  if (version && result.value.manifest.version !== version) {
+    return {
+      ok: false,
+      error: [{ path: name, message: `${name}@${version} is not installed (${result.value.manifest.version} is)` }],
+    }
+  }
+  return { ok: true, value: installedAs(result.value, name) }
 }
@@ -0,0 +1,352 @@
+import { readFile, writeFile, readdir, readlink, rename, rm, access } from 'node:fs/promises'
+import { join, dirname, relative, resolve, isAbsolute, sep } from 'node:path'
+import { createHash } from 'node:crypto'
+import { parse as parseYaml, stringify } from 'yaml'
+import type { Result } from 'shared'
+import { listInstalledSpecs } from './loader.js'
+import { projectDependencies } from './workspace.js'
+import { storeRoot } from './store.js'
+import { parseAlias } from './aliases.js'
+
+export const LOCKFILE_NAME = 'specpm-lock.yaml'
+export const LOCKFILE_VERSION = 2
+
+/** An edge in the dependency graph: the range asked for and the version it resolved to */
+export interface LockedDependency {
+  specifier: string
+  version?: string
+}
+
+export interface LockedPackage {
+  name: string
+  version: string
+  /**
+   * Where the package came from: a registry tarball URL, `local:<path relative to the project>`,
+   * or `link:<path>` for a directory linked in place
+   */
+  resolved: string
+  /** Empty for linked packages, whose contents change as they are edited */
+  integrity: string
+  dependencies: Record<string, LockedDependency>
+  /** Package installed under `name`, when it is an alias or a replacement */
+  package?: string
+}
+
+export interface Lockfile {
+  lockfileVersion: number
+  /** Direct dependencies from specpm.yaml (empty for v1 lockfiles, which did not record them) */
+  dependencies: Record<string, LockedDependency>
+  packages: LockedPackage[]
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try { await access(filePath); return true } catch { return false }
+}
+
+/**
+ * Write a file by renaming a sibling temp file over it, so readers never see a partial write
+ */
+export async function writeFileAtomic(filePath: string, content: string | Buffer): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  await writeFile(tempPath, content)
+  try {
+    await rename(tempPath, filePath)
+  } catch (error) {
+    await rm(tempPath, { force: true })
+    throw error
+  }
+}
+
+async function listFiles(root: string, dir = root): Promise<string[]> {
+  const files: string[] = []
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const fullPath = join(dir, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(root, fullPath))
+    } else if (entry.isFile()) {
+      files.push(relative(root, fullPath).split(sep).join('/'))
+    }
+  }
+  return files
+}
+
+/**
+ * Integrity hash for an installed package directory. Version 2 hashes every file in the
+ * package (spec.yaml, entities, states, constraints, docs) by path and content;
+ * version 1 lockfiles hashed spec.yaml alone.
+ */
+export async function computeIntegrity(directory: string, lockfileVersion = LOCKFILE_VERSION): Promise<string> {
+  const hash = createHash('sha256')
+  if (lockfileVersion < 2) {
+    hash.update(await readFile(join(directory, 'spec.yaml'), 'utf-8'))
+  } else {
+    for (const file of (await listFiles(directory)).sort()) {
+      hash.update(`${file}\0`)
+      hash.update(await readFile(join(directory, file)))
+      hash.update('\0')
+    }
+  }
+  return `sha256-${hash.digest('hex')}`
+}
+
+/**
+ * Lockfile form of a local source: relative to the project so the lockfile is portable
+ */
+export function localResolved(projectRoot: string, sourcePath: string): string {
+  return `local:${relative(projectRoot, sourcePath).split(sep).join('/')}`
+}
+
+/**
+ * Absolute path of a `local:` source
+ */
+export function localSourcePath(projectRoot: string, resolved: string): string {
+  const path = resolved.slice('local:'.length)
+  return isAbsolute(path) ? path : resolve(projectRoot, path)
+}
+
+/**
+ * Lockfile and specpm.yaml form of a linked directory (`specpm link`), relative to `base`
+ */
+export function linkResolved(base: string, sourcePath: string): string {
+  return `link:${relative(base, sourcePath).split(sep).join('/') || '.'}`
+}
+
+/**
+ * Absolute path of the directory a `link:` specifier points at
+ */
+export function linkSourcePath(base: string, resolved: string): string {
+  const path = resolved.slice('link:'.length)
+  return isAbsolute(path) ? path : resolve(base, path)
+}
+
+/**
+ * The directory an installed package is linked to with `specpm link`, or null when it is
+ * installed from the store
+ */
+export async function installedLinkTarget(projectRoot: string, directory: string): Promise<string | null> {
+  let target: string
+  try {
+    target = resolve(dirname(directory), await readlink(directory))
+  } catch {
+    return null
+  }
+  return target.startsWith(storeRoot(projectRoot) + sep) ? null : target
+}
+
+function splitPackageKey(key: string): { name: string; version: string } {
+  const atIndex = key.lastIndexOf('@')
+  return { name: key.substring(0, atIndex), version: key.substring(atIndex + 1) }
+}
+
+/**
+ * Code-point order: `localeCompare` depends on the locale, and the lockfile must not differ between machines
+ */
+function compareCodePoints(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function sortedRecord<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => compareCodePoints(a, b)))
+}
+
+type RawEntry = Record<string, unknown> & { dependencies?: Record<string, unknown> }
+
+/**
+ * Read specpm-lock.yaml. Returns null when the project has no lockfile.
+ * Version 1 lockfiles are migrated in memory: dependency ranges become graph edges.
+ */
+export async function readLockfile(cwd: string): Promise<Result<Lockfile | null, string>> {
+  const lockfilePath = join(cwd, LOCKFILE_NAME)
+  if (!(await fileExists(lockfilePath))) {
+    return { ok: true, value: null }
+  }
+
+  let parsed: { lockfileVersion?: number; dependencies?: Record<string, LockedDependency>; packages?: Record<string, RawEntry> } | null
+  try {
+    parsed = parseYaml(await readFile(lockfilePath, 'utf-8'))
+  } catch {
+    return { ok: false, error: `Failed to parse ${LOCKFILE_NAME}` }
+  }
+
+  const lockfileVersion = parsed?.lockfileVersion ?? 1
+  if (lockfileVersion > LOCKFILE_VERSION) {
+    return { ok: false, error: `${LOCKFILE_NAME} is version ${lockfileVersion}; this specpm supports up to ${LOCKFILE_VERSION}` }
+  }
+
+  const rawPackages = parsed?.packages ?? {}
+  const versionsByName = new Map(Object.keys(rawPackages).map(key => {
+    const { name, version } = splitPackageKey(key)
+    return [name, version]
+  }))
+
+  const packages: LockedPackage[] = []
+  for (const [key, entry] of Object.entries(rawPackages)) {
+    const { name, version } = splitPackageKey(key)
+    const linked = typeof entry?.resolved === 'string' && entry.resolved.startsWith('link:')
+    if (!name || !version || typeof entry?.resolved !== 'string' || (typeof entry?.integrity !== 'string' && !linked)) {
+      return { ok: false, error: `Malformed ${LOCKFILE_NAME} entry: ${key}` }
+    }
+
+    const dependencies: Record<string, LockedDependency> = {}
+    for (const [depName, dep] of Object.entries(entry.dependencies ?? {})) {
+      dependencies[depName] = typeof dep === 'string'
+        ? { specifier: dep, version: versionsByName.get(depName) }
+        : dep as LockedDependency
+    }
+    const integrity = typeof entry.integrity === 'string' ? entry.integrity : ''
+    const locked: LockedPackage = { name, version, resolved: entry.resolved, integrity, dependencies }
+    if (typeof entry.package === 'string') locked.package = entry.package
+    packages.push(locked)
+  }
+
+  return {
+    ok: true,
+    value: { lockfileVersion, dependencies: parsed?.dependencies ?? {}, packages },
+  }
+}
+
+/**
+ * Regenerate specpm-lock.yaml from specpm.yaml and the packages installed in .specpm/specs/.
+ * `resolved` maps package names to the source they were just installed from;
+ * packages without one keep the source recorded in the previous lockfile.
+ * Output is deterministic: keys are sorted and nothing time-dependent is recorded.
+ */
+export async function generateLockfile(cwd: string, resolved: Record<string, string> = {}): Promise<void> {
+  const specsDir = join(cwd, '.specpm', 'specs')
+  if (!(await fileExists(specsDir))) return
+
+  const result = await listInstalledSpecs(cwd)
+  if (!result.ok) return
+
+  // Previous sources; v1 absolute local paths are rewritten relative to the project
+  const previous = new Map<string, string>()
+  const previousResult = await readLockfile(cwd).catch(() => null)
+  if (previousResult?.ok && previousResult.value) {
+    for (const pkg of previousResult.value.packages) {
+      const source = pkg.resolved.startsWith('local:')
+        ? localResolved(cwd, localSourcePath(cwd, pkg.resolved))
+        : pkg.resolved
+      previous.set(`${pkg.name}@${pkg.version}`, source)
+    }
+  }
+
+  const installedVersions = new Map(result.value.map(spec => [spec.manifest.name, spec.manifest.version]))
+  function edges(ranges: Record<string, string>): Record<string, LockedDependency> {
+    const graph: Record<string, LockedDependency> = {}
+    for (const [name, specifier] of Object.entries(sortedRecord(ranges))) {
+      const version = installedVersions.get(name)
+      graph[name] = version ? { specifier, version } : { specifier }
+    }
+    return graph
+  }
+
+  // A workspace root records every workspace's dependencies alongside its own
+  let rootRanges: Record<string, string> = {}
+  try {
+    const manifest = parseYaml(await readFile(join(cwd, 'specpm.yaml'), 'utf-8'))
+    const ranges = await projectDependencies(cwd, manifest ?? {})
+    if (ranges.ok) rootRanges = ranges.value
+  } catch {
+    // No specpm.yaml: the lockfile still records the installed packages
+  }
+
+  const specs = [...result.value].sort((a, b) =>
+    compareCodePoints(`${a.manifest.name}@${a.manifest.version}`, `${b.manifest.name}@${b.manifest.version}`))
+
+  const packages: Record<string, unknown> = {}
+  for (const spec of specs) {
+    const key = `${spec.manifest.name}@${spec.manifest.version}`
+    // A linked package is recorded by where it points; its contents have no fixed hash
+    const link = await installedLinkTarget(cwd, spec.directory)
+    packages[key] = {
+      ...(spec.aliasOf ? { package: spec.aliasOf } : {}),
+      ...(link
+        ? { resolved: linkResolved(cwd, link) }
+        : {
+            resolved: resolved[spec.manifest.name] ?? previous.get(key) ?? localResolved(cwd, spec.directory),
+            integrity: await computeIntegrity(spec.directory),
+          }),
+      dependencies: edges(spec.manifest.dependencies ?? {}),
+    }
+  }
+
+  const lockfile = {
+    lockfileVersion: LOCKFILE_VERSION,
+    dependencies: edges(rootRanges),
+    packages,
+  }
+
+  await writeFileAtomic(join(cwd, LOCKFILE_NAME), stringify(lockfile))
+}
+
+/**
+ * Locked packages reachable from `roots` through the lockfile's dependency graph
+ */
+export function lockedClosure(roots: string[], lockfile: Lockfile): LockedPackage[] {
+  const byName = new Map(lockfile.packages.map(pkg => [pkg.name, pkg]))
+  const reached = new Map<string, LockedPackage>()
+  const stack = [...roots]
+  while (stack.length > 0) {
+    const pkg = byName.get(stack.pop()!)
+    if (!pkg || reached.has(pkg.name)) continue
+    reached.set(pkg.name, pkg)
+    stack.push(...Object.keys(pkg.dependencies))
+  }
+  return lockfile.packages.filter(pkg => reached.has(pkg.name))
+}
+
+/**
+ * Check that the lockfile covers exactly what specpm.yaml asks for: every direct and
+ * transitive range is satisfied by a locked version, and nothing extra is locked.
+ * `replacements` stand in for the ranges specs declare on the packages they replace.
+ */
+export function checkLockfileAgreement(
+  rootDependencies: Record<string, string>,
+  lockfile: Lockfile,
+  satisfies: (version: string, range: string) => boolean,
+  replacements: Record<string, string> = {},
+): string[] {
+  const byName = new Map(lockfile.packages.map(pkg => [pkg.name, pkg]))
+  const problems: string[] = []
+  const reachable = new Set<string>()
+
+  for (const [name, locked] of Object.entries(lockfile.dependencies)) {
+    const range = rootDependencies[name]
+    if (range === undefined) {
+      problems.push(`${name} is a direct dependency in ${LOCKFILE_NAME} but not in specpm.yaml`)
+    } else if (range !== locked.specifier) {
+      problems.push(`specpm.yaml requires ${name}@${range} but ${LOCKFILE_NAME} was generated for ${locked.specifier}`)
+    }
+  }
+
+  const queue: Array<[string, string, string]> = Object.entries(rootDependencies)
+    .map(([name, range]) => [name, range, 'specpm.yaml'])
+  while (queue.length > 0) {
+    const [name, range, requiredBy] = queue.shift()!
+    const pkg = byName.get(name)
+    if (!pkg) {
+      problems.push(`${name}@${range} (required by ${requiredBy}) is missing from ${LOCKFILE_NAME}`)
+      continue
+    }
+    if (!satisfies(pkg.version, range)) {
+      problems.push(`${name}@${pkg.version} in ${LOCKFILE_NAME} does not satisfy ${range} (required by ${requiredBy})`)
+    }
+    // A linked directory may hold any package; otherwise the locked one is the alias target or the name itself
+    const expected = range.startsWith('link:') ? pkg.package ?? name : parseAlias(range)?.name ?? name
+    if ((pkg.package ?? name) !== expected) {
+      problems.push(`${name} in ${LOCKFILE_NAME} is ${pkg.package ?? name}, not ${expected} (required by ${requiredBy})`)
+    }
+    if (reachable.has(name)) continue
+    reachable.add(name)
+    for (const [depName, dep] of Object.entries(pkg.dependencies)) {
+      queue.push([depName, replacements[depName] ?? dep.specifier, `${name}@${pkg.version}`])
+    }
+  }
+
+  for (const pkg of lockfile.packages) {
+    if (!reachable.has(pkg.name)) {
+      problems.push(`${pkg.name}@${pkg.version} is locked but not required by specpm.yaml`)
+    }
+  }
+  return problems
+}
@@ -0,0 +1,115 @@
+import type { Result } from 'shared'
+import type { RegistryVersionMetadata } from './registry-client.js'
+import { loadTeamConfig } from './team-config.js'
+import { findWorkspaceRoot } from './workspace.js'
+
+/**
+ * Parse a verification level written `L1` or `1`; null for anything outside L0-L3
+ */
+export function parseLevel(value: string | number): number | null {
+  const match = String(value).trim().match(/^[lL]?([0-3])$/)
+  return match ? Number(match[1]) : null
+}
+
+export function formatLevel(level: number | undefined): string {
+  return level === undefined ? 'unverified' : `L${level}`
+}
+
+/** A recorded verification level, marked when it is only the publisher's claim */
+function describeVerification(verification: RegistryVersionMetadata['verification']): string {
+  const level = formatLevel(verification?.level)
+  return verification && verification.selfReported !== false ? `${level} (self-reported)` : level
+}
+
+/** Verification thresholds registry installs are held to */
+export interface RequiredLevel {
+  /** `--min-level`: self-reported levels count */
+  flag?: number
+  /** `check.required-level` in specpm-team.yaml: only levels the registry verified count */
+  team?: number
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`
+}
+
+/**
+ * What the registry says about a version about to be installed: verification level, publisher,
+ * publish date, deprecation and contents. `name` is the name it is installed as.
+ */
+export function qualitySummary(name: string, meta: RegistryVersionMetadata): string[] {
+  const source = meta.manifest.name !== name ? ` (${meta.manifest.name})` : ''
+  const published = [
+    meta.publishedBy ? `by ${meta.publishedBy}` : '',
+    meta.publishedAt ? `on ${meta.publishedAt.slice(0, 10)}` : '',
+  ].filter(Boolean).join(' ')
+
+  const contents = [
+    plural(meta.verification?.entities ?? meta.manifest.entities?.length ?? 0, 'entity', 'entities'),
+    plural(meta.verification?.states ?? meta.manifest.states?.length ?? 0, 'state machine'),
+  ]
+  if (meta.verification) contents.push(plural(meta.verification.constraints, 'constraint'))
+
+  const lines = [
+    `${name}@${meta.version}${source}`,
+    `  Verification: ${describeVerification(meta.verification)}${published ? ` · Published ${published}` : ''}`,
+    `  Contents: ${contents.join(', ')}`,
+  ]
+  if (meta.deprecated) lines.push(`  ⚠️  Deprecated: ${meta.deprecated}`)
+  return lines
+}
+
+/**
+ * Lowest verification levels registry installs accept: `--min-level`, and `check.required-level`
+ * in specpm-team.yaml (the project's, else its workspace root's).
+ */
+export async function minimumLevel(projectRoot: string, explicit?: string): Promise<Result<RequiredLevel, string>> {
+  const fromFlag = explicit === undefined ? undefined : parseLevel(explicit)
+  if (fromFlag === null) {
+    return { ok: false, error: `Invalid --min-level: ${explicit}. Expected L0, L1, L2 or L3` }
+  }
+
+  let config = await loadTeamConfig(projectRoot)
+  if (config.ok && !config.value) {
+    const workspaceRoot = await findWorkspaceRoot(projectRoot)
+    if (workspaceRoot) config = await loadTeamConfig(workspaceRoot)
+  }
+  if (!config.ok) return config
+  const required = config.value?.check?.['required-level']
+  const fromTeam = required === undefined ? undefined : parseLevel(required)
+  if (fromTeam === null) {
+    return { ok: false, error: `Invalid check.required-level in specpm-team.yaml: ${required}. Expected 0-3` }
+  }
+
+  return { ok: true, value: { flag: fromFlag, team: fromTeam } }
+}
+
+/**
+ * Refuse registry packages published below the required levels. A self-reported level can
+ * meet `--min-level` but never the team's `required-level`, since any publisher can claim it.
+ * Versions published before the registry recorded verification count as unverified; linked
+ * directories are not checked.
+ */
+export function checkMinimumLevel(
+  packages: Array<{ name: string; version: string; metadata?: RegistryVersionMetadata; link?: string }>,
+  required: RequiredLevel,
+): Result<void, string> {
+  if (required.flag === undefined && required.team === undefined) return { ok: true, value: undefined }
+
+  const below = packages
+    .filter(pkg => {
+      if (pkg.link || !pkg.metadata) return false
+      const verification = pkg.metadata.verification
+      const level = verification?.level ?? -1
+      const verified = verification?.selfReported === false ? verification.level : -1
+      return level < (required.flag ?? -1) || verified < (required.team ?? -1)
+    })
+    .map(pkg => `  ${pkg.name}@${pkg.version}: ${describeVerification(pkg.metadata!.verification)}`)
+  if (below.length === 0) return { ok: true, value: undefined }
+
+  const level = Math.max(required.flag ?? -1, required.team ?? -1)
+  const note = required.team !== undefined
+    ? '\n(check.required-level in specpm-team.yaml only counts levels the registry verified itself)'
+    : ''
+  return { ok: false, error: `Packages below the required verification level L${level}:\n${below.join('\n')}${note}` }
+}
@@ -0,0 +1,258 @@
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { homedir } from 'node:os'
+import { maxSatisfying, compareVersions, isPrerelease, type Result, type SpecYaml } from 'shared'
+import {
+  readCachedMetadata, writeCachedMetadata, readCachedTarball, findCachedTarball, writeCachedTarball,
+  tarballIntegrity, type NetworkMode,
+} from './cache.js'
+import { loadRegistryConfig, resolveRegistryForPackage, getAuthToken } from './registry-config.js'
+
+/** What `specpm publish` verified: the highest level the package passed and what it contains */
+export interface PublishVerification {
+  level: number
+  entities: number
+  states: number
+  constraints: number
+}
+
+export interface RegistryVersionMetadata {
+  version: string
+  manifest: SpecYaml
+  integrity: string
+  size: number
+  publishedAt: string
+  /**
+   * Absent for versions published before the registry recorded it. Unless `selfReported` is
+   * false, the level is the publisher's own claim, which the registry caps at L1.
+   */
+  verification?: PublishVerification & { selfReported?: boolean }
+  publishedBy?: string
+  /** Deprecation message, when the owner has deprecated this version */
+  deprecated?: string
+  tarballUrl: string
+}
+
+export interface RegistryPackageMetadata {
+  name: string
+  versions: Record<string, RegistryVersionMetadata>
+  distTags?: Record<string, string>
+}
+
+/**
+ * Registry serving a package: an explicit --registry URL, then the package scope's entry in
+ * the `registries` map of specpm.yaml, then `registries.default`, then $SPECPM_REGISTRY,
+ * then the registry stored by `specpm login`. Without a package name the scope step is skipped.
+ */
+export async function resolveRegistryUrl(
+  explicit?: string,
+  packageName?: string,
+  projectRoot = process.cwd(),
+): Promise<string | undefined> {
+  if (explicit) return explicit
+
+  const config = await loadRegistryConfig(projectRoot)
+  const configured = config.ok ? resolveRegistryForPackage(packageName ?? '', config.value) : undefined
+  if (configured) return configured
+
+  if (process.env.SPECPM_REGISTRY) return process.env.SPECPM_REGISTRY
+
+  try {
+    const auth = JSON.parse(await readFile(join(homedir(), '.specpm', 'auth.json'), 'utf-8'))
+    return auth.registry as string | undefined
+  } catch {
+    return undefined
+  }
+}
+
+export function noRegistryError(packageName?: string): string {
+  const target = packageName ? ` for ${packageName}` : ''
+  return `No registry configured${target}. Add one with \`specpm registry add\`, run \`specpm login\` or pass --registry.`
+}
+
+function packageScope(packageName?: string): string | undefined {
+  return packageName?.match(/^(@[a-z0-9-]+)\//)?.[1]
+}
+
+/**
+ * Authorization header for a registry: $SPECPM_TOKEN_<SCOPE> for the package's scope,
+ * else the token `specpm login` stored for that registry
+ */
+export async function authHeaders(registryUrl: string, packageName?: string): Promise<Record<string, string>> {
+  const token = await getAuthToken(registryUrl, packageScope(packageName))
+  return token ? { authorization: `Bearer ${token}` } : {}
+}
+
+/**
+ * Fetch package metadata (all versions) from a registry. Fetched metadata is cached so
+ * `prefer-offline` and `offline` installs can resolve versions without the network.
+ */
+export async function fetchPackageMetadata(
+  registryUrl: string,
+  packageName: string,
+  network: NetworkMode = 'online',
+): Promise<Result<RegistryPackageMetadata, string>> {
+  const match = packageName.match(/^@([a-z0-9-]+)\/([a-z0-9-]+)$/)
+  if (!match) {
+    return { ok: false, error: `Invalid package name: ${packageName}. Expected @scope/name` }
+  }
+  const [, scope, name] = match
+
+  if (network !== 'online') {
+    const cached = await readCachedMetadata<RegistryPackageMetadata>(registryUrl, packageName)
+    if (cached) return { ok: true, value: cached }
+    if (network === 'offline') {
+      return { ok: false, error: `${packageName} is not in the cache (offline)` }
+    }
+  }
+
+  let res: Response
+  try {
+    res = await fetch(`${registryUrl}/api/v1/packages/${scope}/${name}`, {
+      headers: await authHeaders(registryUrl, packageName),
+    })
+  } catch (error) {
+    return { ok: false, error: `Failed to connect to registry: ${error}` }
+  }
+
+  if (!res.ok) {
+    if (res.status === 404) {
+      return { ok: false, error: `Package ${packageName} not found in registry` }
+    }
+    return { ok: false, error: `Registry error: ${res.status}` }
+  }
+
+  const metadata = await res.json() as RegistryPackageMetadata
+  await writeCachedMetadata(registryUrl, packageName, metadata)
+  return { ok: true, value: metadata }
+}
+
+/**
+ * Fetch package metadata from whichever registry serves the package (see resolveRegistryUrl)
+ */
+export async function fetchMetadataForPackage(
+  packageName: string,
+  options: { registry?: string; network?: NetworkMode } = {},
+): Promise<Result<RegistryPackageMetadata, string>> {
+  const registry = await resolveRegistryUrl(options.registry, packageName)
+  if (!registry) return { ok: false, error: noRegistryError(packageName) }
+  return fetchPackageMetadata(registry, packageName, options.network)
+}
+
+/**
+ * Absolute download URL for a version's tarball
+ */
+export function tarballUrl(registryUrl: string, versionMeta: RegistryVersionMetadata): string {
+  return `${registryUrl}${versionMeta.tarballUrl}`
+}
+
+function sameOrigin(url: string, registryUrl: string): boolean {
+  try {
+    return new URL(url).origin === new URL(registryUrl).origin
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Download a tarball, with the package's credentials only when the URL is on `registryUrl`,
+ * the registry serving the package. Anything else is fetched without credentials.
+ */
+async function requestTarball(url: string, packageName: string, registryUrl: string | undefined): Promise<Result<Buffer, string>> {
+  const headers = registryUrl && sameOrigin(url, registryUrl) ? await authHeaders(registryUrl, packageName) : {}
+  let res: Response
+  try {
+    res = await fetch(url, { headers })
+  } catch (error) {
+    return { ok: false, error: `Failed to connect to registry: ${error}` }
+  }
+  if (!res.ok) {
+    return { ok: false, error: `Failed to download tarball: ${res.status}` }
+  }
+  return { ok: true, value: Buffer.from(await res.arrayBuffer()) }
+}
+
+/**
+ * Download a tarball by absolute URL, or take it from the cache if it was downloaded before.
+ * `pkg` names the package for the cache index.
+ */
+export async function fetchTarball(
+  url: string,
+  pkg: { name: string; version: string },
+  network: NetworkMode = 'online',
+): Promise<Result<Buffer, string>> {
+  const cached = await findCachedTarball(url)
+  if (cached) return { ok: true, value: cached }
+  if (network === 'offline') {
+    const label = pkg.version ? `${pkg.name}@${pkg.version}` : pkg.name
+    return { ok: false, error: `${label} is not in the cache (offline)` }
+  }
+
+  // The URL may come from an edited lockfile: only the package's own registry gets its token
+  const fetched = await requestTarball(url, pkg.name, await resolveRegistryUrl(undefined, pkg.name))
+  if (fetched.ok) await writeCachedTarball(fetched.value, { ...pkg, resolved: url })
+  return fetched
+}
+
+/**
+ * Get a version's tarball, from the cache when one with the published integrity hash is
+ * there, else from the registry, and verify it against that hash
+ */
+export async function downloadTarball(
+  registryUrl: string,
+  versionMeta: RegistryVersionMetadata,
+  network: NetworkMode = 'online',
+): Promise<Result<Buffer, string>> {
+  const cached = await readCachedTarball(versionMeta.integrity)
+  if (cached) return { ok: true, value: cached }
+  if (network === 'offline') {
+    return { ok: false, error: `${versionMeta.manifest.name}@${versionMeta.version} is not in the cache (offline)` }
+  }
+
+  const url = tarballUrl(registryUrl, versionMeta)
+  const fetched = await requestTarball(url, versionMeta.manifest.name, registryUrl)
+  if (!fetched.ok) return fetched
+
+  const tarball = fetched.value
+  const computedHash = tarballIntegrity(tarball)
+  if (computedHash !== versionMeta.integrity) {
+    return { ok: false, error: `Integrity check failed. Expected ${versionMeta.integrity}, got ${computedHash}` }
+  }
+
+  await writeCachedTarball(tarball, { name: versionMeta.manifest.name, version: versionMeta.version, resolved: url })
+  return { ok: true, value: tarball }
+}
+
+/**
+ * Pick the version to install for a requested range or dist-tag.
+ * Without a request, the highest stable version wins over whatever was published last.
+ */
+export function selectVersion(meta: RegistryPackageMetadata, requested: string | null): Result<string, string> {
+  const versions = Object.keys(meta.versions)
+  if (versions.length === 0) {
+    return { ok: false, error: `No versions found for ${meta.name}` }
+  }
+
+  // Dist-tags take precedence over ranges
+  const tagged = requested ? meta.distTags?.[requested] : undefined
+  if (tagged && meta.versions[tagged]) {
+    return { ok: true, value: tagged }
+  }
+
+  let selected: string | null
+  if (!requested || requested === 'latest') {
+    // Fall back to prereleases only when nothing stable has been published
+    const stable = versions.filter(v => !isPrerelease(v))
+    selected = stable.length > 0
+      ? maxSatisfying(stable, '*')
+      : maxSatisfying(versions, '*', { includePrerelease: true })
+  } else {
+    selected = maxSatisfying(versions, requested)
+  }
+
+  if (!selected) {
+    const available = [...versions].sort(compareVersions).join(', ')
+    return { ok: false, error: `No version of ${meta.name} matches "${requested}". Available versions: ${available}` }
+  }
+  return { ok: true, value: selected }
+}
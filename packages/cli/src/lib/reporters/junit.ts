@@ -20,7 +20,7 @@ export function formatJUnit(result: CiResult): string {
     })),
     ...result.checkResults.map(r => ({
       name: `check: ${r.constraint}`,
-      classname: `specpm.check.${r.package}`,
+      classname: r.workspace ? `specpm.${r.workspace}.check.${r.package}` : `specpm.check.${r.package}`,
       status: r.status,
       message: r.message,
       file: r.file,
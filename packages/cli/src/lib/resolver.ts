@@ -1,5 +1,10 @@
-import type { SpecPackage, Result } from 'shared'
-import { listInstalledSpecs } from './loader.js'
+import { satisfies, compareVersions, maxSatisfying, type SpecPackage, type SpecYaml, type Result } from 'shared'
+import { listInstalledSpecs, loadSpecPackage } from './loader.js'
+import { listStoredVersions } from './store.js'
+import { installedLinkTarget, linkSourcePath } from './lockfile.js'
+import { parseAlias } from './aliases.js'
+import { isSourceSpecifier } from './sources.js'
+import type { RegistryPackageMetadata, RegistryVersionMetadata } from './registry-client.js'
 
 export interface ResolvedDependency {
   name: string
@@ -12,84 +17,47 @@ export interface ResolutionError {
   message: string
 }
 
-/**
- * Parse a SemVer version string into [major, minor, patch]
- */
-function parseSemVer(version: string): [number, number, number] | null {
-  const match = version.match(/^(\d+)\.(\d+)\.(\d+)/)
-  if (!match) return null
-  return [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])]
+export interface RegistryResolution {
+  name: string
+  version: string
+  manifest: SpecYaml
+  /** Registry metadata for the selected version (absent when an installed copy is reused) */
+  metadata?: RegistryVersionMetadata
+  /** Already installed at a satisfying version, nothing to download */
+  installed: boolean
+  /** Package installed under `name`, when it is an alias or a replacement */
+  package?: string
+  /** Directory linked in place of the package (a `link:` dependency or replacement) */
+  link?: string
+}
+
+export interface PeerIssue {
+  /** Package declaring the peer, as name@version */
+  requiredBy: string
+  peer: string
+  range: string
+  /** Installed version of the peer, or null when it is missing */
+  installed: string | null
+  message: string
+}
+
+interface RangeRequirement {
+  range: string
+  requiredBy: string
 }
 
 /**
- * Check if a version satisfies a SemVer range
- * Supports: exact, ^, ~, >=, >, <=, <, *
+ * Check if a version satisfies a SemVer range (full npm range grammar, see shared/semver).
+ * `latest` is accepted as an alias for any version, as are `link:` and git or tarball specifiers:
+ * a linked directory or a source is used at whatever version it holds. An alias is checked against its range.
  */
 export function satisfiesRange(version: string, range: string): boolean {
-  const ver = parseSemVer(version)
-  if (!ver) return false
-
-  if (range === '*' || range === 'latest') return true
-
-  // Exact match
-  if (/^\d+\.\d+\.\d+$/.test(range)) {
-    const r = parseSemVer(range)!
-    return ver[0] === r[0] && ver[1] === r[1] && ver[2] === r[2]
-  }
-
-  // Caret range: ^M.m.p — allows changes that do not modify the left-most non-zero digit
-  const caretMatch = range.match(/^\^(\d+\.\d+\.\d+)$/)
-  if (caretMatch) {
-    const r = parseSemVer(caretMatch[1])!
-    if (r[0] > 0) {
-      return ver[0] === r[0] && compareVer(ver, r) >= 0
-    } else if (r[1] > 0) {
-      return ver[0] === 0 && ver[1] === r[1] && compareVer(ver, r) >= 0
-    } else {
-      return ver[0] === 0 && ver[1] === 0 && ver[2] === r[2]
-    }
-  }
-
-  // Tilde range: ~M.m.p — allows patch-level changes
-  const tildeMatch = range.match(/^~(\d+\.\d+\.\d+)$/)
-  if (tildeMatch) {
-    const r = parseSemVer(tildeMatch[1])!
-    return ver[0] === r[0] && ver[1] === r[1] && ver[2] >= r[2]
-  }
-
-  // >= range
-  const gteMatch = range.match(/^>=(\d+\.\d+\.\d+)$/)
-  if (gteMatch) {
-    return compareVer(ver, parseSemVer(gteMatch[1])!) >= 0
-  }
-
-  // > range
-  const gtMatch = range.match(/^>(\d+\.\d+\.\d+)$/)
-  if (gtMatch) {
-    return compareVer(ver, parseSemVer(gtMatch[1])!) > 0
-  }
-
-  // <= range
-  const lteMatch = range.match(/^<=(\d+\.\d+\.\d+)$/)
-  if (lteMatch) {
-    return compareVer(ver, parseSemVer(lteMatch[1])!) <= 0
-  }
-
-  // < range
-  const ltMatch = range.match(/^<(\d+\.\d+\.\d+)$/)
-  if (ltMatch) {
-    return compareVer(ver, parseSemVer(ltMatch[1])!) < 0
-  }
-
-  return false
+  const alias = parseAlias(range)
+  if (alias) return satisfiesRange(version, alias.range)
+  return range === 'latest' || range.startsWith('link:') || isSourceSpecifier(range) || satisfies(version, range)
 }
 
-function compareVer(a: [number, number, number], b: [number, number, number]): number {
-  for (let i = 0; i < 3; i++) {
-    if (a[i] !== b[i]) return a[i] - b[i]
-  }
-  return 0
-}
+export { compareVersions, maxSatisfying }
 
 /**
  * Resolve dependencies from locally installed specs (flat tree).
@@ -175,3 +143,184 @@ export async function resolveDependencies(
 
   return { ok: true, value: Array.from(resolved.values()) }
 }
+
+/**
+ * A conflict with each range next to the version it would pick on its own, marking
+ * versions that are already in the project's store
+ */
+function describeConflict(name: string, requirements: RangeRequirement[], published: string[], stored: string[]): string {
+  const lines = requirements.map(r => {
+    const best = maxSatisfying(published, r.range)
+    const note = best && stored.includes(best) ? ' (in store)' : ''
+    return `  ${r.range} (required by ${r.requiredBy}) → ${best ?? 'no published version'}${note}`
+  })
+  return `Version conflict for ${name}: no published version satisfies every range:\n${lines.join('\n')}`
+}
+
+/**
+ * Resolve packages and their transitive dependencies against the registry into one flat tree.
+ * Installed packages that satisfy every range are reused; otherwise the highest version matching
+ * all ranges is picked. The result is ordered so dependencies come before their dependents.
+ *
+ * `replacements` (see projectReplacements) stand in for every requirement on a package. A `link:`
+ * requirement is resolved to the linked directory whatever else is asked for; an alias is resolved
+ * against the registry metadata of the package it names.
+ */
+export async function resolveRegistryDependencies(
+  rootDependencies: Record<string, string>,
+  fetchMetadata: (name: string) => Promise<Result<RegistryPackageMetadata, string>>,
+  projectRoot: string,
+  replacements: Record<string, string> = {},
+): Promise<Result<RegistryResolution[], ResolutionError>> {
+  const installedResult = await listInstalledSpecs(projectRoot)
+  const installed = new Map<string, SpecPackage>()
+  for (const spec of installedResult.ok ? installedResult.value : []) {
+    installed.set(spec.manifest.name, spec)
+  }
+
+  const metadataCache = new Map<string, RegistryPackageMetadata>()
+  const requirements = new Map<string, RangeRequirement[]>()
+  const resolved = new Map<string, RegistryResolution>()
+  const queue: Array<[string, string, string]> = Object.entries(rootDependencies)
+    .map(([name, range]) => [name, range, 'specpm.yaml'])
+
+  while (queue.length > 0) {
+    const [name, declared, requiredBy] = queue.shift()!
+    const range = replacements[name] ?? declared
+    const reqs = requirements.get(name) ?? []
+    reqs.push({ range, requiredBy })
+    requirements.set(name, reqs)
+
+    const linkRequirement = reqs.find(r => r.range.startsWith('link:'))
+    const aliases = [...new Set(reqs.map(r => parseAlias(r.range)?.name).filter(alias => alias !== undefined))]
+    if (aliases.length > 1) {
+      return {
+        ok: false,
+        error: { type: 'version-conflict', message: `${name} is aliased to both ${aliases.join(' and ')}` },
+      }
+    }
+    const packageName = aliases[0] ?? name
+
+    const current = resolved.get(name)
+    if (current && (!linkRequirement || current.link) && (!aliases[0] || current.package === aliases[0]) &&
+      reqs.every(r => satisfiesRange(current.version, r.range))) continue
+
+    let next: RegistryResolution
+    const installedSpec = installed.get(name)
+    const installedLink = installedSpec ? await installedLinkTarget(projectRoot, installedSpec.directory) : null
+    // A package linked with `specpm link` satisfies whatever other specs ask for; only specpm.yaml unlinks it
+    const keepLink = !linkRequirement && !aliases[0] && !reqs.some(r => r.requiredBy === 'specpm.yaml')
+    const linkDirectory = linkRequirement ? linkSourcePath(projectRoot, linkRequirement.range) : keepLink ? installedLink : null
+    if (linkDirectory) {
+      const loadResult = await loadSpecPackage(linkDirectory)
+      if (!loadResult.ok) {
+        return { ok: false, error: { type: 'not-found', message: `Nothing to link for ${name} at ${linkDirectory} (required by ${requiredBy})` } }
+      }
+      const { manifest } = loadResult.value
+      next = {
+        name,
+        version: manifest.version,
+        manifest,
+        installed: installedLink === linkDirectory,
+        package: manifest.name === name ? undefined : manifest.name,
+        link: linkDirectory,
+      }
+    } else if (installedSpec && !installedLink && installedSpec.aliasOf === aliases[0] &&
+      reqs.every(r => satisfiesRange(installedSpec.manifest.version, r.range))) {
+      next = {
+        name,
+        version: installedSpec.manifest.version,
+        manifest: installedSpec.manifest,
+        installed: true,
+        package: installedSpec.aliasOf,
+      }
+    } else {
+      let meta = metadataCache.get(packageName)
+      if (!meta) {
+        const metaResult = await fetchMetadata(packageName)
+        if (!metaResult.ok) {
+          return { ok: false, error: { type: 'not-found', message: `${metaResult.error} (required by ${requiredBy})` } }
+        }
+        meta = metaResult.value
+        metadataCache.set(packageName, meta)
+      }
+
+      const candidates = Object.keys(meta.versions).filter(v => reqs.every(r => satisfiesRange(v, r.range)))
+      const version = candidates.sort(compareVersions).pop() ?? null
+      if (!version) {
+        return {
+          ok: false,
+          error: {
+            type: 'version-conflict',
+            message: describeConflict(name, reqs, Object.keys(meta.versions), await listStoredVersions(projectRoot, packageName)),
+          },
+        }
+      }
+      const metadata = meta.versions[version]
+      next = {
+        name,
+        version,
+        manifest: metadata.manifest,
+        metadata,
+        installed: !installedLink && installedSpec?.aliasOf === aliases[0] && installedSpec?.manifest.version === version,
+        package: aliases[0],
+      }
+    }
+
+    // Requirements introduced by a version we are replacing no longer apply
+    if (current) {
+      const staleKey = `${name}@${current.version}`
+      for (const [depName, depReqs] of requirements) {
+        requirements.set(depName, depReqs.filter(r => r.requiredBy !== staleKey))
+      }
+    }
+
+    resolved.set(name, next)
+    for (const [depName, depRange] of Object.entries(next.manifest.dependencies ?? {})) {
+      queue.push([depName, depRange, `${name}@${next.version}`])
+    }
+  }
+
+  // Order dependencies before dependents, dropping anything a replaced version left behind
+  const ordered: RegistryResolution[] = []
+  const visited = new Set<string>()
+  function visit(name: string): void {
+    if (visited.has(name)) return
+    visited.add(name)
+    const node = resolved.get(name)
+    if (!node) return
+    for (const depName of Object.keys(node.manifest.dependencies ?? {})) {
+      visit(depName)
+    }
+    ordered.push(node)
+  }
+  for (const name of Object.keys(rootDependencies)) {
+    visit(name)
+  }
+
+  return { ok: true, value: ordered }
+}
+
+/**
+ * Check every spec's peerDependencies against the other specs in the set
+ */
+export function findPeerIssues(manifests: SpecYaml[]): PeerIssue[] {
+  const versions = new Map(manifests.map(m => [m.name, m.version]))
+  const issues: PeerIssue[] = []
+  for (const manifest of manifests) {
+    const requiredBy = `${manifest.name}@${manifest.version}`
+    for (const [peer, range] of Object.entries(manifest.peerDependencies ?? {})) {
+      const installed = versions.get(peer) ?? null
+      if (installed !== null && satisfiesRange(installed, range)) continue
+      const problem = installed === null ? 'it is not installed' : `${installed} is installed`
+      issues.push({
+        requiredBy,
+        peer,
+        range,
+        installed,
+        message: `${requiredBy} requires peer ${peer}@${range}, but ${problem}`,
+      })
+    }
+  }
+  return issues
+}
@@ -0,0 +1,236 @@
+import { readFile, mkdtemp, rm, access } from 'node:fs/promises'
+import { join, relative, resolve, isAbsolute, sep } from 'node:path'
+import { tmpdir } from 'node:os'
+import { execFileSync } from 'node:child_process'
+import { unpackTarball, type Result } from 'shared'
+import { fetchTarball } from './registry-client.js'
+import { tarballIntegrity, type NetworkMode } from './cache.js'
+
+/**
+ * Where a package can be installed from, besides a registry name or a local directory:
+ * - `git+https://host/repo.git#ref`, `git+file:///path/to/repo#ref`, optionally `&path:sub/dir`
+ * - `github:org/repo/sub/dir#ref`
+ * - a local `.tgz` / `.tar.gz` file, optionally as `file:path/to/spec.tgz`
+ * - an `https://` tarball URL
+ */
+export type PackageSource =
+  | { type: 'git'; url: string; ref?: string; path?: string }
+  | { type: 'tarball'; path: string; integrity?: string }
+  | { type: 'tarball-url'; url: string }
+
+/** A source fetched into a temporary directory */
+export interface FetchedSource {
+  directory: string
+  /** Lockfile form of the source, pinned to a commit or content hash */
+  resolved: string
+  cleanup(): Promise<void>
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try { await access(filePath); return true } catch { return false }
+}
+
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'stderr' in error && error.stderr) {
+    return String(error.stderr).trim()
+  }
+  return error instanceof Error ? error.message : String(error)
+}
+
+const TARBALL_PATTERN = /\.(tgz|tar\.gz)$/
+
+/**
+ * Parse a git fragment: `ref`, `path:sub/dir`, or both joined by `&`
+ */
+function parseFragment(fragment: string | undefined): { ref?: string; path?: string } {
+  const result: { ref?: string; path?: string } = {}
+  for (const part of (fragment ?? '').split('&').filter(Boolean)) {
+    if (part.startsWith('path:')) {
+      result.path = part.slice('path:'.length).replace(/^\/+|\/+$/g, '')
+    } else {
+      result.ref = part
+    }
+  }
+  return result
+}
+
+/**
+ * Recognize a non-registry, non-directory install source. The value is null for anything else,
+ * and an error for an `https://` source that is not a valid URL.
+ */
+export function parsePackageSource(source: string): Result<PackageSource | null, string> {
+  if (source.startsWith('git+')) {
+    const [url, fragment] = source.slice('git+'.length).split('#', 2)
+    return { ok: true, value: { type: 'git', url, ...parseFragment(fragment) } }
+  }
+
+  const github = source.match(/^github:([^/#]+)\/([^/#]+)((?:\/[^#]+)?)(?:#(.+))?$/)
+  if (github) {
+    const [, org, repo, subdir, fragment] = github
+    const parsed = parseFragment(fragment)
+    const path = subdir.replace(/^\/+|\/+$/g, '') || parsed.path
+    return {
+      ok: true,
+      value: {
+        type: 'git',
+        url: `https://github.com/${org}/${repo.replace(/\.git$/, '')}.git`,
+        ...(parsed.ref ? { ref: parsed.ref } : {}),
+        ...(path ? { path } : {}),
+      },
+    }
+  }
+
+  if (source.startsWith('tarball:')) {
+    const [path, integrity] = source.slice('tarball:'.length).split('#', 2)
+    return { ok: true, value: { type: 'tarball', path, ...(integrity ? { integrity } : {}) } }
+  }
+
+  if (/^https?:\/\//.test(source)) {
+    let url: URL
+    try {
+      url = new URL(source)
+    } catch {
+      return { ok: false, error: `Invalid source URL: ${source}` }
+    }
+    if (TARBALL_PATTERN.test(url.pathname)) return { ok: true, value: { type: 'tarball-url', url: source } }
+  }
+
+  if (TARBALL_PATTERN.test(source)) {
+    return { ok: true, value: { type: 'tarball', path: source.replace(/^file:/, '') } }
+  }
+
+  return { ok: true, value: null }
+}
+
+/**
+ * Whether a specpm.yaml entry names a git or tarball source rather than a version range. An
+ * invalid source URL counts as one, so installing it reports the error.
+ */
+export function isSourceSpecifier(range: string): boolean {
+  const parsed = parsePackageSource(range)
+  return !parsed.ok || parsed.value !== null
+}
+
+/**
+ * specpm.yaml form of a source, which installs it again from scratch: the git URL with the
+ * ref and path asked for, a local tarball as `file:` and its path relative to `base`, or the URL
+ */
+export function sourceSpecifier(source: PackageSource, base: string): string {
+  if (source.type === 'git') {
+    const fragment = [source.ref, source.path && `path:${source.path}`].filter(Boolean).join('&')
+    return `git+${source.url}${fragment ? `#${fragment}` : ''}`
+  }
+  if (source.type === 'tarball') {
+    const path = isAbsolute(source.path) ? relative(base, source.path) : source.path
+    return `file:${path.split(sep).join('/')}`
+  }
+  return source.url
+}
+
+/**
+ * Whether a lockfile `resolved` value is a tarball served by a specpm registry,
+ * as opposed to a local path, git repository or standalone tarball
+ */
+export function isRegistryTarball(resolved: string): boolean {
+  return /^https?:\/\/.+\/api\/v1\/packages\/[^/]+\/[^/]+\/[^/]+\/tarball$/.test(resolved)
+}
+
+/**
+ * Extract a package tarball in-process. Throws on archives with escaping paths,
+ * links or more than 1MB of contents.
+ */
+export async function extractTarball(tarball: Buffer, targetDir: string): Promise<void> {
+  const result = await unpackTarball(tarball, targetDir)
+  if (!result.ok) throw new Error(result.error)
+}
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync('git', args, { cwd, stdio: 'pipe', encoding: 'utf-8' }).trim()
+}
+
+async function fetchGit(source: Extract<PackageSource, { type: 'git' }>): Promise<Result<FetchedSource, string>> {
+  // A ref or URL read as an option (`--upload-pack=...`) could run a command
+  if (source.ref?.startsWith('-')) {
+    return { ok: false, error: `Invalid git ref: ${source.ref}` }
+  }
+  const tempDir = await mkdtemp(join(tmpdir(), 'specpm-git-'))
+  const cleanup = () => rm(tempDir, { recursive: true, force: true })
+  const checkout = join(tempDir, 'repo')
+
+  let commit: string
+  try {
+    git(['clone', '--quiet', '--no-checkout', '--', source.url, checkout])
+    git(['-c', 'advice.detachedHead=false', 'checkout', '--quiet', '--force', source.ref ?? 'HEAD', '--'], checkout)
+    commit = git(['rev-parse', 'HEAD'], checkout)
+  } catch (error) {
+    await cleanup()
+    const target = source.ref ? `${source.url}#${source.ref}` : source.url
+    return { ok: false, error: `Failed to fetch ${target}: ${errorMessage(error)}` }
+  }
+
+  const directory = source.path ? join(checkout, ...source.path.split('/')) : checkout
+  if (relative(checkout, directory).startsWith('..') || !(await fileExists(join(directory, 'spec.yaml')))) {
+    await cleanup()
+    return { ok: false, error: `No spec.yaml found in ${source.url}${source.path ? ` at ${source.path}` : ''}` }
+  }
+  // The package is the directory contents, not the repository
+  await rm(join(checkout, '.git'), { recursive: true, force: true })
+
+  const resolved = `git+${source.url}#${commit}${source.path ? `&path:${source.path}` : ''}`
+  return { ok: true, value: { directory, resolved, cleanup } }
+}
+
+async function fetchTarballSource(
+  source: Exclude<PackageSource, { type: 'git' }>,
+  projectRoot: string,
+  network: NetworkMode,
+): Promise<Result<FetchedSource, string>> {
+  let tarball: Buffer
+  let resolved: string
+  if (source.type === 'tarball') {
+    const tarballPath = isAbsolute(source.path) ? source.path : resolve(projectRoot, source.path)
+    try {
+      tarball = await readFile(tarballPath)
+    } catch {
+      return { ok: false, error: `Tarball not found: ${tarballPath}` }
+    }
+    const integrity = tarballIntegrity(tarball)
+    if (source.integrity && source.integrity !== integrity) {
+      return { ok: false, error: `Integrity check failed for ${tarballPath}. Expected ${source.integrity}, got ${integrity}` }
+    }
+    resolved = `tarball:${relative(projectRoot, tarballPath).split(sep).join('/')}#${integrity}`
+  } else {
+    // The package name is only known after extraction; the cache indexes it by URL
+    const fetched = await fetchTarball(source.url, { name: source.url, version: '' }, network)
+    if (!fetched.ok) return fetched
+    tarball = fetched.value
+    resolved = source.url
+  }
+
+  const directory = await mkdtemp(join(tmpdir(), 'specpm-tarball-'))
+  const cleanup = () => rm(directory, { recursive: true, force: true })
+  try {
+    await extractTarball(tarball, directory)
+  } catch (error) {
+    await cleanup()
+    return { ok: false, error: errorMessage(error) }
+  }
+  return { ok: true, value: { directory, resolved, cleanup } }
+}
+
+/**
+ * Fetch a source into a temporary directory. Call `cleanup()` once its contents are copied.
+ */
+export async function fetchPackageSource(
+  source: PackageSource,
+  projectRoot: string,
+  network: NetworkMode = 'online',
+): Promise<Result<FetchedSource, string>> {
+  if (source.type === 'git') {
+    if (network === 'offline') {
+      return { ok: false, error: `Cannot fetch ${source.url} while offline` }
+    }
+    return fetchGit(source)
+  }
+  return fetchTarballSource(source, projectRoot, network)
+}
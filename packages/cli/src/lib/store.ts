@@ -0,0 +1,69 @@
+import { readdir, readlink, rm } from 'node:fs/promises'
+import { join, dirname, resolve, sep } from 'node:path'
+import { compareVersions } from 'shared'
+
+/**
+ * Installed packages live in a version-keyed store, `.specpm/store/@scope/name@version`.
+ * `.specpm/specs/@scope/name` is a link to the version in use, so older versions stay
+ * on disk next to it and switching back is a relink.
+ */
+export function storeRoot(projectRoot: string): string {
+  return join(projectRoot, '.specpm', 'store')
+}
+
+export function storePath(projectRoot: string, name: string, version: string): string {
+  const [scope, pkg] = name.slice(1).split('/')
+  return join(storeRoot(projectRoot), `@${scope}`, `${pkg}@${version}`)
+}
+
+/**
+ * Versions of a package kept in the store, lowest first
+ */
+export async function listStoredVersions(projectRoot: string, name: string): Promise<string[]> {
+  const [scope, pkg] = name.slice(1).split('/')
+  const entries = await readdir(join(storeRoot(projectRoot), `@${scope}`)).catch(() => [] as string[])
+  return entries
+    .filter(entry => entry.startsWith(`${pkg}@`))
+    .map(entry => entry.slice(pkg.length + 1))
+    .sort(compareVersions)
+}
+
+/**
+ * The store entry an installed package links to, or null for a copy or a `specpm link` link
+ */
+export async function storeEntryOf(projectRoot: string, installedDir: string): Promise<string | null> {
+  let target: string
+  try {
+    target = resolve(dirname(installedDir), await readlink(installedDir))
+  } catch {
+    return null
+  }
+  return target.startsWith(storeRoot(projectRoot) + sep) ? target : null
+}
+
+/**
+ * Store entries that packages in .specpm/specs/ currently link to
+ */
+export async function linkedStoreEntries(projectRoot: string): Promise<string[]> {
+  const specsDir = join(projectRoot, '.specpm', 'specs')
+  const entries: string[] = []
+  for (const scope of await readdir(specsDir).catch(() => [] as string[])) {
+    for (const pkg of await readdir(join(specsDir, scope)).catch(() => [] as string[])) {
+      const entry = await storeEntryOf(projectRoot, join(specsDir, scope, pkg))
+      if (entry) entries.push(entry)
+    }
+  }
+  return entries
+}
+
+/**
+ * Delete stored versions of a package other than `keep`
+ */
+export async function pruneStoredVersions(projectRoot: string, name: string, keep: string[]): Promise<void> {
+  for (const version of await listStoredVersions(projectRoot, name)) {
+    const entry = storePath(projectRoot, name, version)
+    if (!keep.includes(entry)) {
+      await rm(entry, { recursive: true, force: true })
+    }
+  }
+}
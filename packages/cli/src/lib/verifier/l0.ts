@@ -2,7 +2,7 @@ import { readFile, access } from 'node:fs/promises'
 import { join } from 'node:path'
 import { parse as parseYaml } from 'yaml'
 import Ajv from 'ajv'
-import { specYamlSchema } from 'shared'
+import { specYamlSchema, validRange } from 'shared'
 import type { SpecYaml, ConstraintsFile } from 'shared'
 
 export interface VerificationIssue {
@@ -88,6 +88,19 @@ export async function verifyL0(directory: string): Promise<VerificationResult> {
     })
   }
 
+  // Dependency ranges parse
+  for (const field of ['dependencies', 'peerDependencies'] as const) {
+    for (const [dep, range] of Object.entries(manifest[field] ?? {})) {
+      if (typeof range === 'string' && !validRange(range)) {
+        issues.push({
+          level: 0, severity: 'error', code: 'L0-RANGE-INVALID',
+          message: `Invalid version range for ${dep}: "${range}"`,
+          file: 'spec.yaml', path: `/${field}/${dep}`,
+        })
+      }
+    }
+  }
+
   // Referenced files exist
   const allPaths = [
     ...(manifest.entities ?? []),
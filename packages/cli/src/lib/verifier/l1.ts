@@ -1,5 +1,5 @@
 import { readFile, access } from 'node:fs/promises'
-import { join } from 'node:path'
+import { join, isAbsolute } from 'node:path'
 import { parse as parseYaml } from 'yaml'
 import type { SpecYaml, ConstraintsFile } from 'shared'
 import type { VerificationIssue, VerificationResult } from './l0.js'
@@ -135,6 +135,17 @@ export async function verifyL1(directory: string): Promise<L1VerificationResult>
     }
   }
 
+  // Check context.appliesTo globs are relative to the project that installs the spec
+  for (const glob of manifest.context?.appliesTo ?? []) {
+    if (glob.trim() === '' || isAbsolute(glob) || glob.split('/').includes('..')) {
+      issues.push({
+        level: 1, severity: 'warning', code: 'L1-CONTEXT-APPLIES-TO',
+        message: `context.appliesTo glob "${glob}" must be a non-empty path relative to the project root`,
+        file: 'spec.yaml',
+      })
+    }
+  }
+
   const hasErrors = issues.some(i => i.severity === 'error')
   return { level: 1, passed: !hasErrors, issues, timestamp: new Date().toISOString() }
 }
@@ -0,0 +1,88 @@
+import { watch, type FSWatcher } from 'node:fs'
+import { basename } from 'node:path'
+
+export interface WatchTarget {
+  path: string
+  recursive?: boolean
+  /** Only these entries of a watched directory count as changes (default: any) */
+  names?: string[]
+}
+
+export interface DebouncedWatcher {
+  /** Watch exactly these paths from now on; paths that do not exist are skipped until the next sync */
+  sync(targets: WatchTarget[]): void
+  close(): Promise<void>
+}
+
+/**
+ * Watch paths for changes, calling `onChange` once a burst of changes has been quiet for
+ * `debounceMs`. Changes made while `onChange` runs are batched into one more call after it.
+ * A watched directory that is deleted is dropped and reported as a change, so `onChange` can
+ * sync the watcher to whatever exists now.
+ */
+export function createDebouncedWatcher(onChange: () => Promise<void>, debounceMs: number): DebouncedWatcher {
+  const watchers = new Map<string, FSWatcher>()
+  let timer: NodeJS.Timeout | null = null
+  let running: Promise<void> | null = null
+  let pending = false
+  let closed = false
+
+  const run = () => {
+    timer = null
+    if (running) {
+      pending = true
+      return
+    }
+    running = onChange().finally(() => {
+      running = null
+      if (pending && !closed) {
+        pending = false
+        schedule()
+      }
+    })
+  }
+
+  const schedule = () => {
+    if (closed) return
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(run, debounceMs)
+  }
+
+  const drop = (key: string) => {
+    watchers.get(key)?.close()
+    watchers.delete(key)
+  }
+
+  return {
+    sync(targets) {
+      if (closed) return
+      const wanted = new Map(targets.map(target => [`${target.recursive ? 'r' : 'd'}:${target.path}`, target]))
+      for (const key of watchers.keys()) {
+        if (!wanted.has(key)) drop(key)
+      }
+      for (const [key, target] of wanted) {
+        if (watchers.has(key)) continue
+        try {
+          const watcher = watch(target.path, { recursive: target.recursive }, (_event, filename) => {
+            if (target.names && (!filename || !target.names.includes(basename(filename)))) return
+            schedule()
+          })
+          watcher.on('error', () => {
+            drop(key)
+            schedule()
+          })
+          watchers.set(key, watcher)
+        } catch {
+          // Not there (yet): picked up by a later sync
+        }
+      }
+    },
+
+    async close() {
+      closed = true
+      if (timer) clearTimeout(timer)
+      for (const key of [...watchers.keys()]) drop(key)
+      await running
+    },
+  }
+}
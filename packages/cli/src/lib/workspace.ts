@@ -0,0 +1,247 @@
+import { readFile, readdir, access } from 'node:fs/promises'
+import { readFileSync } from 'node:fs'
+import { join, resolve, relative, isAbsolute, normalize, sep } from 'node:path'
+import { parse as parseYaml } from 'yaml'
+import { workspaceRootOf, type Result } from 'shared'
+import { parseAlias, projectReplacements } from './aliases.js'
+import { isSourceSpecifier } from './sources.js'
+
+/** A sub-project listed under `workspaces:` in the root specpm.yaml */
+export interface Workspace {
+  /** `name` from the sub-project's specpm.yaml */
+  name: string
+  directory: string
+  /** Directory relative to the workspace root, with `/` separators */
+  path: string
+  dependencies: Record<string, string>
+  devDependencies: Record<string, string>
+}
+
+/** `--workspace <name>` picks one sub-project, `-r` every sub-project */
+export interface WorkspaceSelection {
+  workspace?: string
+  recursive?: boolean
+}
+
+interface DependencyManifest {
+  dependencies?: Record<string, string>
+  devDependencies?: Record<string, string>
+  overrides?: unknown
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try { await access(filePath); return true } catch { return false }
+}
+
+async function readManifest(directory: string): Promise<Record<string, unknown> | null> {
+  try {
+    const parsed = parseYaml(await readFile(join(directory, 'specpm.yaml'), 'utf-8'))
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null
+  } catch {
+    return null
+  }
+}
+
+/** Synchronous readManifest, for the workspace lookup shared with the ESLint plugin */
+function readManifestSync(directory: string): Record<string, unknown> | null {
+  try {
+    const parsed = parseYaml(readFileSync(join(directory, 'specpm.yaml'), 'utf-8'))
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null
+  } catch {
+    return null
+  }
+}
+
+function workspacePatterns(manifest: Record<string, unknown> | null): unknown[] | null {
+  return Array.isArray(manifest?.['workspaces']) ? manifest['workspaces'] as unknown[] : null
+}
+
+async function loadWorkspace(root: string, directory: string): Promise<Workspace | null> {
+  const manifest = await readManifest(directory)
+  if (!manifest) return null
+  const path = relative(root, directory).split(sep).join('/')
+  return {
+    name: typeof manifest['name'] === 'string' ? manifest['name'] : path,
+    directory,
+    path,
+    dependencies: (manifest['dependencies'] ?? {}) as Record<string, string>,
+    devDependencies: (manifest['devDependencies'] ?? {}) as Record<string, string>,
+  }
+}
+
+/**
+ * Sub-projects of a workspace root. Entries are directories relative to the root;
+ * a trailing `/*` matches every directory below that contains a specpm.yaml.
+ */
+export async function listWorkspaces(root: string): Promise<Result<Workspace[], string>> {
+  const patterns = workspacePatterns(await readManifest(root))
+  if (!patterns) return { ok: true, value: [] }
+
+  const workspaces = new Map<string, Workspace>()
+  for (const pattern of patterns) {
+    if (typeof pattern !== 'string' || isAbsolute(pattern) || normalize(pattern).startsWith('..')) {
+      return { ok: false, error: `Invalid workspace entry: ${JSON.stringify(pattern)}. Expected a directory inside the project` }
+    }
+    const trimmed = pattern.replace(/\/+$/, '')
+
+    if (trimmed.endsWith('/*') || trimmed === '*') {
+      const base = resolve(root, trimmed.slice(0, -1))
+      const entries = await readdir(base, { withFileTypes: true }).catch(() => [])
+      for (const entry of entries.filter(e => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+        const workspace = await loadWorkspace(root, join(base, entry.name))
+        if (workspace) workspaces.set(workspace.directory, workspace)
+      }
+    } else if (trimmed.includes('*')) {
+      return { ok: false, error: `Unsupported workspace pattern: ${pattern}. Only a trailing /* is supported` }
+    } else {
+      const directory = resolve(root, trimmed)
+      if (!(await fileExists(join(directory, 'specpm.yaml')))) {
+        return { ok: false, error: `Workspace ${pattern} has no specpm.yaml` }
+      }
+      const workspace = await loadWorkspace(root, directory)
+      if (!workspace) {
+        return { ok: false, error: `Failed to parse ${trimmed}/specpm.yaml` }
+      }
+      workspaces.set(workspace.directory, workspace)
+    }
+  }
+
+  const names = new Map<string, string>()
+  for (const workspace of workspaces.values()) {
+    const other = names.get(workspace.name)
+    if (other) {
+      return { ok: false, error: `Workspaces ${other} and ${workspace.path} are both named ${workspace.name}` }
+    }
+    names.set(workspace.name, workspace.path)
+  }
+  return { ok: true, value: [...workspaces.values()] }
+}
+
+/**
+ * The workspace root that lists `directory` as one of its workspaces, or null when
+ * `directory` is a standalone project (or a workspace root itself)
+ */
+export async function findWorkspaceRoot(directory: string): Promise<string | null> {
+  return workspaceRootOf(resolve(directory), readManifestSync)
+}
+
+/**
+ * Where a project's specs are installed: the workspace root for a workspace, so specs
+ * shared between workspaces are installed (hoisted) once; the project itself otherwise
+ */
+export async function findInstallRoot(directory: string): Promise<string> {
+  return (await findWorkspaceRoot(directory)) ?? directory
+}
+
+/**
+ * Workspaces a command should run in, or null when neither `--workspace` nor `-r` was given.
+ * Works from the workspace root or from inside any of its workspaces.
+ */
+export async function selectWorkspaces(
+  cwd: string,
+  selection: WorkspaceSelection,
+): Promise<Result<Workspace[] | null, string>> {
+  if (!selection.workspace && !selection.recursive) {
+    return { ok: true, value: null }
+  }
+
+  const root = workspacePatterns(await readManifest(cwd)) ? cwd : await findWorkspaceRoot(cwd)
+  if (!root) {
+    return { ok: false, error: 'No workspaces found. List sub-projects under `workspaces:` in the root specpm.yaml.' }
+  }
+  const workspacesResult = await listWorkspaces(root)
+  if (!workspacesResult.ok) return workspacesResult
+  const workspaces = workspacesResult.value
+
+  if (selection.recursive) {
+    if (workspaces.length === 0) {
+      return { ok: false, error: 'No workspaces found. Each workspace needs its own specpm.yaml.' }
+    }
+    return { ok: true, value: workspaces }
+  }
+
+  const wanted = selection.workspace!.replace(/\/+$/, '')
+  const match = workspaces.find(ws => ws.name === wanted || ws.path === wanted)
+  if (!match) {
+    const available = workspaces.map(ws => ws.name).join(', ') || 'none'
+    return { ok: false, error: `Unknown workspace: ${wanted}. Available: ${available}` }
+  }
+  return { ok: true, value: [match] }
+}
+
+/** A linked directory, a git or tarball source or an alias: what to install, rather than a range */
+function isFixedSpecifier(range: string): boolean {
+  return range.startsWith('link:') || isSourceSpecifier(range) || parseAlias(range) !== null
+}
+
+/**
+ * Intersect two ranges in the npm grammar: comparator sets joined by spaces, distributed over `||`.
+ * Null when both name what to install and differ.
+ */
+function intersectRanges(a: string, b: string): string | null {
+  if (a === b || b === 'latest') return a
+  if (a === 'latest') return b
+  if (isFixedSpecifier(a) && isFixedSpecifier(b)) return null
+  // A fixed specifier replaces whatever range is asked for elsewhere
+  if (isFixedSpecifier(a)) return a
+  if (isFixedSpecifier(b)) return b
+  return a.split('||')
+    .flatMap(left => b.split('||').map(right => `${left.trim()} ${right.trim()}`))
+    .join(' || ')
+}
+
+/**
+ * Direct dependencies installed for a project. A workspace root also installs every
+ * workspace's dependencies; when two ask for the same spec, both ranges must hold, and two
+ * different `link:`, source or alias specifiers are a conflict.
+ * `link:` and `file:` paths are rewritten relative to the root, and replacements declared in the
+ * root specpm.yaml take the place of what is declared.
+ */
+export async function projectDependencies(
+  root: string,
+  manifest: DependencyManifest,
+  options: { production?: boolean } = {},
+): Promise<Result<Record<string, string>, string>> {
+  const workspacesResult = await listWorkspaces(root)
+  if (!workspacesResult.ok) return workspacesResult
+
+  const ranges: Record<string, string> = {}
+  // Which project asked for each range, for conflicts
+  const declaredBy: Record<string, string> = {}
+  const sources = [
+    { ...manifest, directory: root, label: 'the workspace root' },
+    ...workspacesResult.value.map(ws => ({ ...ws, label: `workspace ${ws.name}` })),
+  ]
+  for (const source of sources) {
+    const declared = options.production
+      ? { ...source.dependencies }
+      : { ...source.dependencies, ...source.devDependencies }
+    for (const [name, declaredRange] of Object.entries(declared)) {
+      const prefix = ['link:', 'file:'].find(prefix => declaredRange.startsWith(prefix))
+      const range = prefix && source.directory !== root
+        ? `${prefix}${relative(root, resolve(source.directory, declaredRange.slice(prefix.length))).split(sep).join('/')}`
+        : declaredRange
+      if (!(name in ranges)) {
+        ranges[name] = range
+        declaredBy[name] = source.label
+        continue
+      }
+      const merged = intersectRanges(ranges[name], range)
+      if (merged === null) {
+        return {
+          ok: false,
+          error: `Conflicting specifiers for ${name}: ${ranges[name]} in ${declaredBy[name]} and ${range} in ${source.label}`,
+        }
+      }
+      if (merged === range) declaredBy[name] = source.label
+      ranges[name] = merged
+    }
+  }
+
+  const replacements = projectReplacements(root, manifest.overrides)
+  if (!replacements.ok) return replacements
+  for (const name of Object.keys(ranges)) {
+    ranges[name] = replacements.value[name] ?? ranges[name]
+  }
+  return { ok: true, value: ranges }
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { parseAlias, projectReplacements } from '../src/lib/aliases.js'
+
+describe('parseAlias', () => {
+  it('parses npm: specifiers', () => {
+    expect(parseAlias('npm:@acme/pagination@^2.1.0')).toEqual({ name: '@acme/pagination', range: '^2.1.0' })
+    expect(parseAlias('npm:@acme/pagination')).toEqual({ name: '@acme/pagination', range: 'latest' })
+  })
+
+  it('returns null for anything else', () => {
+    expect(parseAlias('^2.1.0')).toBeNull()
+    expect(parseAlias('link:../pagination')).toBeNull()
+    expect(parseAlias('npm:pagination@^2')).toBeNull()
+  })
+})
+
+describe('projectReplacements', () => {
+  it('keeps aliases and links directories relative to the project', () => {
+    const result = projectReplacements('/work/app', {
+      '@data/pagination': { replace: 'npm:@acme/pagination@^2' },
+      '@auth/oauth2': { replace: '../forks/oauth2' },
+      '@auth/session': { replace: 'link:/work/app/specs/session' },
+      '@api/rest': { extend: {} },
+    })
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        '@data/pagination': 'npm:@acme/pagination@^2',
+        '@auth/oauth2': 'link:../forks/oauth2',
+        '@auth/session': 'link:specs/session',
+      },
+    })
+  })
+
+  it('rejects malformed replacements', () => {
+    expect(projectReplacements('/work/app', { '@a/b': { replace: 'npm:b' } }).ok).toBe(false)
+    expect(projectReplacements('/work/app', { '@a/b': { replace: 42 } }).ok).toBe(false)
+  })
+})
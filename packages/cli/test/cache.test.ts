@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile, readdir } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  readCachedTarball, writeCachedTarball, findCachedTarball, listCacheEntries, verifyCache, cleanCache,
+  readCachedMetadata, writeCachedMetadata, tarballIntegrity, networkMode,
+} from '../src/lib/cache.js'
+
+describe('package cache', () => {
+  let cacheRoot: string
+
+  beforeEach(async () => {
+    cacheRoot = await mkdtemp(join(tmpdir(), 'specpm-cache-'))
+    process.env.SPECPM_CACHE_DIR = cacheRoot
+  })
+
+  afterEach(async () => {
+    delete process.env.SPECPM_CACHE_DIR
+    await rm(cacheRoot, { recursive: true, force: true })
+  })
+
+  const tarball = Buffer.from('fake tarball contents')
+  const info = { name: '@test/a', version: '1.0.0', resolved: 'https://registry.example/a/1.0.0/tarball' }
+
+  it('stores tarballs under their integrity', async () => {
+    await writeCachedTarball(tarball, info)
+
+    const cached = await readCachedTarball(tarballIntegrity(tarball))
+    expect(cached?.equals(tarball)).toBe(true)
+    expect((await findCachedTarball(info.resolved))?.equals(tarball)).toBe(true)
+    expect(await findCachedTarball('https://registry.example/other')).toBeNull()
+
+    const entries = await listCacheEntries()
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({ ...info, integrity: tarballIntegrity(tarball), size: tarball.length })
+  })
+
+  it('treats corrupt tarballs as a miss and removes them', async () => {
+    await writeCachedTarball(tarball, info)
+    const hex = tarballIntegrity(tarball).slice('sha256-'.length)
+    await writeFile(join(cacheRoot, 'content', `${hex}.tgz`), 'tampered')
+
+    expect(await readCachedTarball(tarballIntegrity(tarball))).toBeNull()
+    expect(await listCacheEntries()).toHaveLength(0)
+  })
+
+  it('verify removes corrupt entries and orphaned files', async () => {
+    await writeCachedTarball(tarball, info)
+    const other = Buffer.from('another tarball')
+    await writeCachedTarball(other, { ...info, name: '@test/b' })
+    const hex = tarballIntegrity(other).slice('sha256-'.length)
+    await writeFile(join(cacheRoot, 'content', `${hex}.tgz`), 'tampered')
+    await writeFile(join(cacheRoot, 'content', `${'0'.repeat(64)}.tgz`), 'orphan')
+
+    const result = await verifyCache()
+    expect(result.valid).toBe(1)
+    expect(result.removed.map(e => e.name)).toEqual(['@test/b'])
+    expect((await readdir(join(cacheRoot, 'content'))).sort()).toEqual(
+      [`${tarballIntegrity(tarball).slice(7)}.json`, `${tarballIntegrity(tarball).slice(7)}.tgz`].sort())
+  })
+
+  it('clean removes everything', async () => {
+    await writeCachedTarball(tarball, info)
+    await writeCachedMetadata('https://registry.example', '@test/a', { name: '@test/a', versions: {} })
+
+    expect(await cleanCache()).toBe(1)
+    expect(await listCacheEntries()).toEqual([])
+    expect(await readCachedMetadata('https://registry.example', '@test/a')).toBeNull()
+  })
+
+  it('keys metadata by registry', async () => {
+    await writeCachedMetadata('https://one.example', '@test/a', { name: '@test/a', versions: { '1.0.0': {} } })
+    expect(await readCachedMetadata('https://one.example/', '@test/a')).toEqual({ name: '@test/a', versions: { '1.0.0': {} } })
+    expect(await readCachedMetadata('https://two.example', '@test/a')).toBeNull()
+  })
+
+  it('derives the network mode from options', () => {
+    expect(networkMode({})).toBe('online')
+    expect(networkMode({ preferOffline: true })).toBe('prefer-offline')
+    expect(networkMode({ offline: true })).toBe('offline')
+  })
+})
@@ -1,12 +1,13 @@
-import { describe, it, expect, afterEach } from 'vitest'
+import { describe, it, expect, afterEach, vi } from 'vitest'
 import { mkdtemp, rm, mkdir, writeFile, readFile } from 'node:fs/promises'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
 import type { SpecPackage } from 'shared'
 import { generateContext } from '../src/lib/context/generator.js'
-import { generateClaudeContext } from '../src/lib/context/claude.js'
-import { generateCursorContext } from '../src/lib/context/cursor.js'
-import { generateCopilotContext } from '../src/lib/context/copilot.js'
+import { BUILTIN_TARGETS, writeTargetContext, type ContextTarget } from '../src/lib/context/targets.js'
+import { packSpecs, estimateTokens } from '../src/lib/context/packer.js'
+import { contentChecksum } from '../src/lib/context/manifest.js'
+import { contextCommand, watchContext } from '../src/commands/context.js'
 
 function makePackage(overrides: Partial<SpecPackage> = {}): SpecPackage {
   return {
@@ -65,36 +66,42 @@ describe('generateContext', () => {
   })
 })
 
-describe('generateClaudeContext', () => {
+function builtin(name: string): ContextTarget {
+  return BUILTIN_TARGETS.find(target => target.name === name)!
+}
+
+describe('writeTargetContext', () => {
   const dirs: string[] = []
   afterEach(async () => {
     for (const d of dirs) await rm(d, { recursive: true, force: true })
     dirs.length = 0
   })
 
-  it('writes .specpm/CLAUDE.md', async () => {
+  async function project(): Promise<string> {
     const dir = await mkdtemp(join(tmpdir(), 'specpm-ctx-'))
     dirs.push(dir)
-    const result = await generateClaudeContext(dir, [makePackage()], config)
+    return dir
+  }
+
+  it('writes a generated section into CLAUDE.md, keeping what is already there', async () => {
+    const dir = await project()
+    await writeFile(join(dir, 'CLAUDE.md'), '# House rules\n\nUse pnpm.\n')
+    const result = await writeTargetContext(dir, builtin('claude'), [makePackage()], config)
     expect(result.ok).toBe(true)
     if (!result.ok) return
-    const content = await readFile(result.value, 'utf-8')
-    expect(content).toContain('# Project Specifications')
-    expect(content).toContain('@auth/email-password')
-  })
-})
+    expect(result.value).toEqual([join(dir, 'CLAUDE.md')])
+    await writeTargetContext(dir, builtin('claude'), [makePackage()], config)
 
-describe('generateCursorContext', () => {
-  const dirs: string[] = []
-  afterEach(async () => {
-    for (const d of dirs) await rm(d, { recursive: true, force: true })
-    dirs.length = 0
+    const content = await readFile(join(dir, 'CLAUDE.md'), 'utf-8')
+    expect(content).toMatch(/^# House rules\n\nUse pnpm\.\n\n<!-- BEGIN SPECPM GENERATED CONTEXT/)
+    expect(content.match(/BEGIN SPECPM GENERATED CONTEXT/g)).toHaveLength(1)
+    expect(content).toContain('**Target:** claude-code')
+    expect(content).toContain('@auth/email-password')
   })
 
   it('creates .cursorrules', async () => {
-    const dir = await mkdtemp(join(tmpdir(), 'specpm-ctx-'))
-    dirs.push(dir)
-    const result = await generateCursorContext(dir, [makePackage()], config)
+    const dir = await project()
+    const result = await writeTargetContext(dir, builtin('cursor'), [makePackage()], config)
     expect(result.ok).toBe(true)
     const content = await readFile(join(dir, '.cursorrules'), 'utf-8')
     expect(content).toContain('BEGIN SPECPM GENERATED RULES')
@@ -102,41 +109,514 @@ describe('generateCursorContext', () => {
   })
 
   it('preserves existing .cursorrules content', async () => {
-    const dir = await mkdtemp(join(tmpdir(), 'specpm-ctx-'))
-    dirs.push(dir)
+    const dir = await project()
     await writeFile(join(dir, '.cursorrules'), 'My custom rules\n')
-    await generateCursorContext(dir, [makePackage()], config)
+    await writeTargetContext(dir, builtin('cursor'), [makePackage()], config)
     const content = await readFile(join(dir, '.cursorrules'), 'utf-8')
     expect(content).toContain('My custom rules')
     expect(content).toContain('BEGIN SPECPM GENERATED RULES')
   })
 
   it('replaces existing generated section on re-run', async () => {
-    const dir = await mkdtemp(join(tmpdir(), 'specpm-ctx-'))
-    dirs.push(dir)
+    const dir = await project()
     await writeFile(join(dir, '.cursorrules'), 'My custom rules\n')
-    await generateCursorContext(dir, [makePackage()], config)
-    await generateCursorContext(dir, [makePackage()], config)
+    await writeTargetContext(dir, builtin('cursor'), [makePackage()], config)
+    await writeTargetContext(dir, builtin('cursor'), [makePackage()], config)
     const content = await readFile(join(dir, '.cursorrules'), 'utf-8')
     const matches = content.match(/BEGIN SPECPM GENERATED RULES/g)
     expect(matches).toHaveLength(1)
   })
+
+  it('writes .github/copilot-instructions.md', async () => {
+    const dir = await project()
+    const result = await writeTargetContext(dir, builtin('copilot'), [makePackage()], config)
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const content = await readFile(result.value[0], 'utf-8')
+    expect(content).toContain('# Project Specifications')
+  })
+
+  it('adds the frontmatter Cursor and Windsurf rule files need', async () => {
+    const dir = await project()
+    await writeTargetContext(dir, builtin('cursor-rules'), [makePackage()], config)
+    const mdc = await readFile(join(dir, '.cursor', 'rules', 'specpm-auth-email-password.mdc'), 'utf-8')
+    expect(mdc).toMatch(/^---\ndescription: "Email and password authentication"\nglobs:\nalwaysApply: true\n---\n\n# Project Specifications/)
+
+    await writeTargetContext(dir, builtin('windsurf'), [makePackage()], config)
+    const windsurf = await readFile(join(dir, '.windsurf', 'rules', 'specpm.md'), 'utf-8')
+    expect(windsurf).toMatch(/^---\ntrigger: always_on\n---\n/)
+  })
+
+  it('cuts specs down to a target\'s size limit', async () => {
+    const dir = await project()
+    const docs = ['# Overview\n\nFirst paragraph.\n\n' + 'More detail. '.repeat(2000)]
+    await writeTargetContext(dir, builtin('windsurf'), [makePackage({ docs })], config)
+    await writeTargetContext(dir, builtin('cline'), [makePackage({ docs })], config)
+
+    const windsurf = await readFile(join(dir, '.windsurf', 'rules', 'specpm.md'), 'utf-8')
+    expect(windsurf.length).toBeLessThanOrEqual(12_000)
+    expect(windsurf).toContain('@auth/email-password: summarized docs')
+    const cline = await readFile(join(dir, '.clinerules', 'specpm.md'), 'utf-8')
+    expect(cline).not.toContain('summarized docs')
+  })
 })
 
-describe('generateCopilotContext', () => {
-  const dirs: string[] = []
+describe('context targets', () => {
+  let dir: string
+
   afterEach(async () => {
-    for (const d of dirs) await rm(d, { recursive: true, force: true })
-    dirs.length = 0
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
   })
 
-  it('writes .github/copilot-instructions.md', async () => {
-    const dir = await mkdtemp(join(tmpdir(), 'specpm-ctx-'))
-    dirs.push(dir)
-    const result = await generateCopilotContext(dir, [makePackage()], config)
+  async function createProject(context = ''): Promise<void> {
+    dir = await mkdtemp(join(tmpdir(), 'specpm-targets-'))
+    await writeFile(join(dir, 'specpm.yaml'), `name: test\nversion: 1.0.0\n${context}`)
+    const specDir = join(dir, '.specpm', 'specs', '@auth', 'sessions')
+    await mkdir(specDir, { recursive: true })
+    await writeFile(join(specDir, 'spec.yaml'),
+      'name: "@auth/sessions"\nversion: "1.0.0"\ndescription: Session handling\nauthor: test\nlicense: MIT\n')
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  }
+
+  it('writes each built-in target to the file its agent reads', async () => {
+    await createProject()
+    const result = await contextCommand({ cwd: dir, target: 'agents,aider,zed,gemini,roo' })
     expect(result.ok).toBe(true)
-    if (!result.ok) return
-    const content = await readFile(result.value, 'utf-8')
-    expect(content).toContain('# Project Specifications')
+    for (const file of ['AGENTS.md', 'CONVENTIONS.md', '.rules', 'GEMINI.md', join('.roo', 'rules', 'specpm.md')]) {
+      expect(await readFile(join(dir, file), 'utf-8')).toContain('@auth/sessions')
+    }
+
+    const unknown = await contextCommand({ cwd: dir, target: 'claude,vscode' })
+    expect(unknown.ok).toBe(false)
+    if (!unknown.ok) expect(unknown.error).toContain('Unknown target: vscode. Valid targets: claude, agents, cursor')
+  })
+
+  it('loads third-party targets from context.plugins', async () => {
+    await createProject('context:\n  plugins:\n    - ./tools/acme.mjs\n')
+    await mkdir(join(dir, 'tools'))
+    await writeFile(join(dir, 'tools', 'acme.mjs'), [
+      'export default {',
+      '  name: "acme",',
+      '  output: "docs/ai/acme.md",',
+      '  merge: "replace",',
+      '  render: (markdown, config) => `<!-- acme agent for ${config.name} -->\\n${markdown}`,',
+      '}',
+    ].join('\n'))
+
+    const result = await contextCommand({ cwd: dir, target: 'acme' })
+    expect(result.ok).toBe(true)
+    const content = await readFile(join(dir, 'docs', 'ai', 'acme.md'), 'utf-8')
+    expect(content).toMatch(/^<!-- acme agent for test -->\n# Project Specifications/)
+    expect(content).toContain('**Target:** acme')
+
+    await writeFile(join(dir, 'tools', 'clash.mjs'), 'export default [{ name: "claude", output: "x.md", merge: "replace" }]\n')
+    await writeFile(join(dir, 'specpm.yaml'), 'name: test\nversion: 1.0.0\ncontext:\n  plugins:\n    - ./tools/clash.mjs\n')
+    const clash = await contextCommand({ cwd: dir, target: 'claude' })
+    expect(clash.ok).toBe(false)
+    if (!clash.ok) expect(clash.error).toContain('defines "claude", which is already a target')
+  })
+
+  it('moves Claude context out of .specpm/CLAUDE.md', async () => {
+    await createProject()
+    const legacy = join(dir, '.specpm', 'CLAUDE.md')
+    await writeFile(legacy, '# Project Specifications (Auto-generated by SpecPM)\n')
+    await writeFile(join(dir, '.specpm', 'context-manifest.json'), JSON.stringify({
+      targets: {
+        claude: {
+          file: '.specpm/CLAUDE.md', checksum: contentChecksum(await readFile(legacy, 'utf-8')), tokens: 10,
+          packages: [], project: '', overrides: '',
+        },
+      },
+    }))
+
+    const stale = await contextCommand({ cwd: dir, check: true })
+    expect(stale.ok).toBe(false)
+    expect(vi.mocked(console.error).mock.calls.flat().join('\n')).toContain('output moved from .specpm/CLAUDE.md to CLAUDE.md')
+
+    await contextCommand({ cwd: dir, target: 'claude' })
+    await expect(readFile(legacy, 'utf-8')).rejects.toThrow()
+    expect(await readFile(join(dir, 'CLAUDE.md'), 'utf-8')).toContain('@auth/sessions')
+    expect((await contextCommand({ cwd: dir, check: true })).ok).toBe(true)
+  })
+
+  it('warns that context.output has no effect', async () => {
+    await createProject('context:\n  targets: [claude]\n  output: .specpm\n')
+
+    expect((await contextCommand({ cwd: dir })).ok).toBe(true)
+    expect(vi.mocked(console.error).mock.calls.flat().join('\n')).toContain('context.output in specpm.yaml has no effect')
+    expect(await readFile(join(dir, 'CLAUDE.md'), 'utf-8')).toContain('@auth/sessions')
+  })
+})
+
+describe('Cursor rules per spec', () => {
+  let dir: string
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  async function writeSpec(name: string, context: string): Promise<void> {
+    const specDir = join(dir, '.specpm', 'specs', '@auth', name)
+    await mkdir(specDir, { recursive: true })
+    await writeFile(join(specDir, 'spec.yaml'),
+      `name: "@auth/${name}"\nversion: "1.0.0"\ndescription: The ${name} spec\nauthor: test\nlicense: MIT\n${context}`)
+  }
+
+  async function createProject(): Promise<void> {
+    dir = await mkdtemp(join(tmpdir(), 'specpm-mdc-'))
+    await writeFile(join(dir, 'specpm.yaml'), 'name: test\nversion: 1.0.0\n')
+    await writeSpec('sessions', 'context:\n  appliesTo: ["src/auth/**", "src/middleware/session.ts"]\n')
+    await writeSpec('tokens', '')
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  }
+
+  const rule = (name: string) => readFile(join(dir, '.cursor', 'rules', `specpm-auth-${name}.mdc`), 'utf-8')
+
+  it('writes one rule per spec, scoped by context.appliesTo', async () => {
+    await createProject()
+    const result = await contextCommand({ cwd: dir, target: 'cursor-rules' })
+    expect(result.ok).toBe(true)
+    if (result.ok) expect(result.value).toHaveLength(2)
+
+    const sessions = await rule('sessions')
+    expect(sessions).toMatch(/^---\ndescription: "The sessions spec"\nglobs: src\/auth\/\*\*, src\/middleware\/session.ts\nalwaysApply: false\n---\n/)
+    expect(sessions).toContain('@auth/sessions v1.0.0')
+    expect(sessions).not.toContain('@auth/tokens')
+
+    // Without appliesTo, a spec's rule applies everywhere
+    const tokens = await rule('tokens')
+    expect(tokens).toMatch(/^---\ndescription: "The tokens spec"\nglobs:\nalwaysApply: true\n---\n/)
+
+    const manifest = JSON.parse(await readFile(join(dir, '.specpm', 'context-manifest.json'), 'utf-8'))
+    expect(manifest.targets['cursor-rules'].file).toBe('.cursor/rules/specpm-<name>.mdc')
+    expect(Object.keys(manifest.targets['cursor-rules'].files)).toEqual([
+      '.cursor/rules/specpm-auth-sessions.mdc',
+      '.cursor/rules/specpm-auth-tokens.mdc',
+    ])
+  })
+
+  it('checks each rule and removes the rules of uninstalled specs', async () => {
+    await createProject()
+    await contextCommand({ cwd: dir, target: 'cursor-rules' })
+    expect((await contextCommand({ cwd: dir, check: true })).ok).toBe(true)
+
+    await writeFile(join(dir, '.cursor', 'rules', 'specpm-auth-tokens.mdc'), (await rule('tokens')) + 'Edited\n')
+    const edited = await contextCommand({ cwd: dir, check: true })
+    expect(edited.ok).toBe(false)
+    expect(vi.mocked(console.error).mock.calls.flat().join('\n'))
+      .toContain('.cursor/rules/specpm-auth-tokens.mdc was edited by hand')
+
+    // An edited rule is kept when its spec goes; an untouched one is removed
+    const tokensDir = join(dir, '.specpm', 'specs', '@auth', 'tokens')
+    await rm(tokensDir, { recursive: true })
+    await contextCommand({ cwd: dir, target: 'cursor-rules' })
+    expect(await rule('tokens')).toContain('Edited')
+
+    await writeSpec('tokens', '')
+    await contextCommand({ cwd: dir, target: 'cursor-rules' })
+    await rm(tokensDir, { recursive: true })
+    await contextCommand({ cwd: dir, target: 'cursor-rules' })
+    await expect(rule('tokens')).rejects.toThrow()
+    expect(await rule('sessions')).toContain('@auth/sessions')
+    expect((await contextCommand({ cwd: dir, check: true })).ok).toBe(true)
+  })
+})
+
+describe('token budgets', () => {
+  const longDoc = '# Overview\n\nSessions are stored server-side.\n\n' + 'Details about session storage. '.repeat(200)
+
+  function budgetPackage(name: string, overrides: Partial<SpecPackage> = {}): SpecPackage {
+    const base = makePackage({
+      docs: [longDoc],
+      states: [{ id: 'session', states: { active: {}, expired: {} } }],
+      constraints: [
+        { id: 'auth-001', description: 'Passwords must be hashed', type: 'pattern', severity: 'error', check: {} },
+        { id: 'auth-002', description: 'Prefer argon2', type: 'pattern', severity: 'warning', check: {} },
+      ],
+      ...overrides,
+    })
+    return { ...base, manifest: { ...base.manifest, name, ...overrides.manifest } }
+  }
+
+  it('orders sections by context.priority', () => {
+    const pkg = budgetPackage('@auth/email-password', {
+      manifest: { ...makePackage().manifest, context: { priority: ['docs', 'constraints'] } },
+    })
+    const { specs } = packSpecs([pkg])
+    const text = specs[0].lines.join('\n')
+    expect(text.indexOf('### Implementation Notes')).toBeLessThan(text.indexOf('### Constraints'))
+    // Sections left out of the priority list follow in the default order
+    expect(text.indexOf('### Constraints')).toBeLessThan(text.indexOf('### Entities'))
+    expect(text.indexOf('### Entities')).toBeLessThan(text.indexOf('### State Machines'))
+  })
+
+  it('summarizes docs first to fit a spec budget', () => {
+    const pkg = budgetPackage('@auth/email-password', {
+      manifest: { ...makePackage().manifest, context: { tokenBudget: 400 } },
+    })
+    const { specs, steps } = packSpecs([pkg])
+    expect(steps).toEqual([{ package: '@auth/email-password', action: 'summarized docs', budget: 'package' }])
+    expect(specs[0].tokens).toBeLessThanOrEqual(400)
+    const text = specs[0].lines.join('\n')
+    expect(text).toContain('### Implementation Notes (summary)')
+    expect(text).toContain('Sessions are stored server-side.')
+    expect(text).not.toContain('Details about session storage.')
+    expect(text).toContain('| id | string (uuid) | ✓ |')
+  })
+
+  it('collapses entities, drops sections and keeps constraints last to go', () => {
+    const pkg = budgetPackage('@auth/email-password', {
+      manifest: { ...makePackage().manifest, context: { tokenBudget: 1 } },
+    })
+    const { steps } = packSpecs([pkg])
+    expect(steps.map(step => step.action)).toEqual([
+      'summarized docs',
+      'collapsed entity tables',
+      'dropped docs',
+      'dropped state machines',
+      'dropped entities',
+      'dropped warning constraints',
+      'dropped constraints',
+    ])
+  })
+
+  it('renders collapsed entities as field lists', () => {
+    const pkg = budgetPackage('@auth/email-password', {
+      docs: [],
+      manifest: { ...makePackage().manifest, context: { tokenBudget: 80 } },
+    })
+    const text = packSpecs([pkg]).specs[0].lines.join('\n')
+    expect(text).toContain('- **User**: id*, email*')
+  })
+
+  it('cuts every spec down a step at a time to fit the project budget', () => {
+    const packages = [budgetPackage('@auth/email-password'), budgetPackage('@auth/sessions')]
+    const full = packSpecs(packages).tokens
+    const { steps, tokens } = packSpecs(packages, { tokenBudget: full - 100 })
+    expect(tokens).toBeLessThanOrEqual(full - 100)
+    // The last spec gives way first
+    expect(steps).toEqual([{ package: '@auth/sessions', action: 'summarized docs', budget: 'project' }])
+
+    const tighter = packSpecs(packages, { tokenBudget: 300 })
+    expect(tighter.steps.slice(0, 2).map(step => step.action)).toEqual(['summarized docs', 'summarized docs'])
+  })
+
+  it('lists what was cut at the end of the generated context', () => {
+    const packages = [budgetPackage('@auth/email-password')]
+    const result = generateContext({ packages, config: { ...config, tokenBudget: 400 }, target: 'claude-code' })
+    expect(result).toContain('## Omitted to fit the token budget')
+    expect(result).toContain('- @auth/email-password: summarized docs')
+    expect(estimateTokens(result)).toBeLessThan(estimateTokens(generateContext({ packages, config, target: 'claude-code' })))
+  })
+
+  it('rejects an invalid project budget', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'specpm-ctx-'))
+    await writeFile(join(dir, 'specpm.yaml'), 'name: test\nversion: 1.0.0\ncontext:\n  tokenBudget: lots\n')
+    const fromYaml = await contextCommand({ cwd: dir })
+    expect(fromYaml.ok).toBe(false)
+    if (!fromYaml.ok) expect(fromYaml.error).toContain('context.tokenBudget')
+
+    await writeFile(join(dir, 'specpm.yaml'), 'name: test\nversion: 1.0.0\n')
+    const fromFlag = await contextCommand({ cwd: dir, tokenBudget: '-5' })
+    expect(fromFlag.ok).toBe(false)
+    if (!fromFlag.ok) expect(fromFlag.error).toContain('--token-budget')
+    await rm(dir, { recursive: true, force: true })
+  })
+})
+
+describe('context manifest and --check', () => {
+  let dir: string
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  async function createProject(): Promise<void> {
+    dir = await mkdtemp(join(tmpdir(), 'specpm-ctx-'))
+    await writeFile(join(dir, 'specpm.yaml'), 'name: test\nversion: 1.0.0\ndependencies:\n  "@auth/sessions": ^1.0.0\n')
+    await writeSpec('1.0.0')
+  }
+
+  async function writeSpec(version: string, description = 'Session handling'): Promise<void> {
+    const specDir = join(dir, '.specpm', 'specs', '@auth', 'sessions')
+    await mkdir(specDir, { recursive: true })
+    await writeFile(join(specDir, 'spec.yaml'),
+      `name: "@auth/sessions"\nversion: "${version}"\ndescription: ${description}\nauthor: test\nlicense: MIT\n`)
+  }
+
+  async function check(target?: string): Promise<{ ok: boolean; output: string }> {
+    const output: string[] = []
+    const spy = vi.spyOn(console, 'error').mockImplementation((...args) => { output.push(args.join(' ')) })
+    const result = await contextCommand({ cwd: dir, check: true, target })
+    spy.mockRestore()
+    return { ok: result.ok, output: [...output, result.ok ? '' : result.error].join('\n') }
+  }
+
+  it('records what each target was generated from', async () => {
+    await createProject()
+    await contextCommand({ cwd: dir, target: 'claude,cursor,copilot' })
+
+    const manifest = JSON.parse(await readFile(join(dir, '.specpm', 'context-manifest.json'), 'utf-8'))
+    expect(Object.keys(manifest.targets)).toEqual(['claude', 'copilot', 'cursor'])
+    expect(manifest.targets.cursor.file).toBe('.cursorrules')
+    expect(manifest.targets.claude).toMatchObject({
+      file: 'CLAUDE.md',
+      checksum: expect.stringMatching(/^sha256-/),
+      tokens: expect.any(Number),
+      packages: [{ name: '@auth/sessions', version: '1.0.0', integrity: expect.stringMatching(/^sha256-/) }],
+      overrides: expect.stringMatching(/^sha256-/),
+    })
+
+    // Nothing changed, so regenerating leaves the manifest as it was
+    const before = await readFile(join(dir, '.specpm', 'context-manifest.json'), 'utf-8')
+    await contextCommand({ cwd: dir, target: 'claude,cursor,copilot' })
+    expect(await readFile(join(dir, '.specpm', 'context-manifest.json'), 'utf-8')).toBe(before)
+    expect((await check()).ok).toBe(true)
+  })
+
+  it('fails when the installed specs or overrides changed since generation', async () => {
+    await createProject()
+    await contextCommand({ cwd: dir, target: 'claude' })
+
+    await writeSpec('1.1.0')
+    let result = await check()
+    expect(result.ok).toBe(false)
+    expect(result.output).toContain('@auth/sessions changed from 1.0.0 to 1.1.0')
+
+    await contextCommand({ cwd: dir, target: 'claude' })
+    expect((await check()).ok).toBe(true)
+
+    // Same version, different contents
+    await writeSpec('1.1.0', 'Session handling, revised')
+    result = await check()
+    expect(result.output).toContain('@auth/sessions@1.1.0 contents changed')
+
+    await contextCommand({ cwd: dir, target: 'claude' })
+    await writeFile(join(dir, 'specpm.yaml'),
+      'name: test\nversion: 1.0.0\noverrides:\n  "@auth/sessions":\n    remove: [Session]\n')
+    result = await check()
+    expect(result.ok).toBe(false)
+    expect(result.output).toContain('overrides in specpm.yaml changed')
+  })
+
+  it('fails when generated content was edited by hand, but not the user part of .cursorrules', async () => {
+    await createProject()
+    await writeFile(join(dir, '.cursorrules'), 'My custom rules\n')
+    await contextCommand({ cwd: dir, target: 'cursor' })
+
+    const rules = await readFile(join(dir, '.cursorrules'), 'utf-8')
+    await writeFile(join(dir, '.cursorrules'), rules.replace('My custom rules', 'My updated rules'))
+    expect((await check()).ok).toBe(true)
+
+    await writeFile(join(dir, '.cursorrules'), rules.replace('Session handling', 'Session handling (edited)'))
+    const result = await check()
+    expect(result.ok).toBe(false)
+    expect(result.output).toContain('.cursorrules was edited by hand')
+
+    await rm(join(dir, '.cursorrules'))
+    expect((await check()).output).toContain('.cursorrules is missing')
+  })
+
+  it('checks the targets generated so far unless one is named', async () => {
+    await createProject()
+    const missing = await check()
+    expect(missing.ok).toBe(false)
+    expect(missing.output).toContain('No context has been generated yet')
+
+    await contextCommand({ cwd: dir, target: 'claude' })
+    expect((await check()).ok).toBe(true)
+    const cursor = await check('cursor')
+    expect(cursor.ok).toBe(false)
+    expect(cursor.output).toContain('cursor: never generated')
+  })
+})
+
+describe('context --watch', () => {
+  let dir: string
+  let output: string[]
+  let close: (() => Promise<void>) | undefined
+
+  afterEach(async () => {
+    await close?.()
+    close = undefined
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  async function writeSpec(name: string, description: string): Promise<void> {
+    const specDir = join(dir, '.specpm', 'specs', '@auth', name)
+    await mkdir(specDir, { recursive: true })
+    await writeFile(join(specDir, 'spec.yaml'),
+      `name: "@auth/${name}"\nversion: "1.0.0"\ndescription: ${description}\nauthor: test\nlicense: MIT\n`)
+  }
+
+  async function watchProject(target: string): Promise<void> {
+    dir = await mkdtemp(join(tmpdir(), 'specpm-watch-'))
+    await writeFile(join(dir, 'specpm.yaml'),
+      'name: test\nversion: 1.0.0\ndependencies:\n  "@auth/sessions": ^1.0.0\n  "@auth/tokens": ^1.0.0\n')
+    await writeSpec('sessions', 'Session handling')
+    await writeSpec('tokens', 'Token issuing')
+
+    output = []
+    vi.spyOn(console, 'error').mockImplementation((...args) => { output.push(args.join(' ')) })
+    const result = await watchContext({ cwd: dir, target }, 50)
+    if (!result.ok) throw new Error(result.error)
+    close = () => result.value.close()
+    output.length = 0
+  }
+
+  const generated = (target: string) => output.filter(line => line.startsWith(`✅ Generated context for ${target}:`)).length
+  const claudeMd = () => readFile(join(dir, 'CLAUDE.md'), 'utf-8')
+
+  it('regenerates once for a burst of spec edits', async () => {
+    await watchProject('claude')
+    await writeSpec('sessions', 'Session handling v2')
+    await writeSpec('sessions', 'Session handling v3')
+    await writeSpec('tokens', 'Token issuing v2')
+
+    await vi.waitFor(async () => expect(await claudeMd()).toContain('Token issuing v2'), { timeout: 5000 })
+    await new Promise(resolve => setTimeout(resolve, 200))
+    expect(await claudeMd()).toContain('Session handling v3')
+    expect(generated('claude')).toBe(1)
+    expect(output.join('\n')).toContain('@auth/sessions@1.0.0 contents changed')
+  })
+
+  it('rewrites only the targets that went stale', async () => {
+    await watchProject('claude,cursor,copilot')
+
+    // Team settings do not change the generated context, so nothing is rewritten
+    await writeFile(join(dir, 'specpm-team.yaml'), 'check:\n  strict: true\n')
+    await new Promise(resolve => setTimeout(resolve, 300))
+    expect(output.filter(line => line.startsWith('✅ Generated'))).toEqual([])
+
+    // A hand edit makes one target stale; the next change rewrites just that one
+    const copilot = join(dir, '.github', 'copilot-instructions.md')
+    await writeFile(copilot, (await readFile(copilot, 'utf-8')) + 'Edited\n')
+    await writeFile(join(dir, 'specpm-team.yaml'), 'check:\n  strict: false\n')
+    await vi.waitFor(() => expect(generated('copilot')).toBe(1), { timeout: 5000 })
+    expect(generated('claude')).toBe(0)
+    expect(generated('cursor')).toBe(0)
+
+    await writeFile(join(dir, 'specpm.yaml'),
+      'name: test\ndescription: Renamed\nversion: 1.0.0\ndependencies:\n  "@auth/sessions": ^1.0.0\n  "@auth/tokens": ^1.0.0\n')
+    await vi.waitFor(() => expect(generated('claude')).toBe(1), { timeout: 5000 })
+    expect(await claudeMd()).toContain('**Description:** Renamed')
+  })
+
+  it('keeps watching when specs are deleted', async () => {
+    await watchProject('claude')
+
+    await rm(join(dir, '.specpm', 'specs', '@auth', 'tokens'), { recursive: true })
+    await vi.waitFor(async () => expect(await claudeMd()).not.toContain('@auth/tokens'), { timeout: 5000 })
+    expect(output.join('\n')).toContain('@auth/tokens@1.0.0 was removed')
+
+    await rm(join(dir, '.specpm', 'specs', '@auth', 'sessions', 'spec.yaml'))
+    await vi.waitFor(() => expect(output.join('\n')).toContain('⚠️  Could not regenerate context'), { timeout: 5000 })
+
+    await writeSpec('sessions', 'Session handling, restored')
+    await vi.waitFor(async () => expect(await claudeMd()).toContain('Session handling, restored'), { timeout: 5000 })
   })
 })
@@ -37,7 +37,7 @@ describe('specpm init', () => {
     // Check specpm.yaml created
     const manifest = parseYaml(await readFile(join(dir, 'specpm.yaml'), 'utf-8'))
     expect(manifest.version).toBe('0.1.0')
-    expect(manifest.context.targets).toEqual(['claude'])
+    expect(manifest.context).toEqual({ targets: ['claude'] })
     expect(manifest.dependencies).toEqual({})
 
     // Check directories created
@@ -0,0 +1,178 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtemp, rm, mkdir, writeFile, readFile, readdir, readlink, access } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { parse as parseYaml, stringify } from 'yaml'
+import { beginInstallTransaction } from '../src/lib/install-transaction.js'
+
+async function fileExists(p: string): Promise<boolean> {
+  try { await access(p); return true } catch { return false }
+}
+
+function specYaml(name: string, version: string): string {
+  return stringify({ name, version, description: 'Test spec', author: 'test', license: 'MIT' })
+}
+
+async function createProject(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'specpm-tx-'))
+  await writeFile(join(dir, 'specpm.yaml'), stringify({ name: 'test-project', version: '0.1.0', dependencies: {} }))
+  await mkdir(join(dir, '.specpm', 'specs'), { recursive: true })
+  return dir
+}
+
+async function installDirectly(dir: string, name: string, version: string): Promise<string> {
+  const [scope, pkg] = name.slice(1).split('/')
+  const specDir = join(dir, '.specpm', 'specs', `@${scope}`, pkg)
+  await mkdir(specDir, { recursive: true })
+  await writeFile(join(specDir, 'spec.yaml'), specYaml(name, version))
+  return specDir
+}
+
+describe('install transactions', () => {
+  const dirs: string[] = []
+  afterEach(async () => {
+    for (const d of dirs) await rm(d, { recursive: true, force: true })
+    dirs.length = 0
+  })
+
+  it('swaps staged packages in and writes specpm.yaml and the lockfile', async () => {
+    const dir = await createProject()
+    dirs.push(dir)
+
+    const tx = await beginInstallTransaction(dir)
+    const staged = await tx.stage('@test/a', d => writeFile(join(d, 'spec.yaml'), specYaml('@test/a', '1.0.0')))
+    expect(staged.ok).toBe(true)
+
+    // Nothing is visible before commit
+    expect(await fileExists(join(dir, '.specpm', 'specs', '@test', 'a'))).toBe(false)
+
+    tx.setManifest({ name: 'test-project', version: '0.1.0', dependencies: { '@test/a': '1.0.0' } })
+    const result = await tx.commit()
+    expect(result.ok).toBe(true)
+
+    expect(await fileExists(join(dir, '.specpm', 'specs', '@test', 'a', 'spec.yaml'))).toBe(true)
+    const manifest = parseYaml(await readFile(join(dir, 'specpm.yaml'), 'utf-8'))
+    expect(manifest.dependencies['@test/a']).toBe('1.0.0')
+    const lockfile = parseYaml(await readFile(join(dir, 'specpm-lock.yaml'), 'utf-8'))
+    expect(lockfile.packages['@test/a@1.0.0']).toBeDefined()
+
+    // Staging area is cleaned up
+    expect((await readdir(join(dir, '.specpm'))).sort()).toEqual(['specs', 'store'])
+  })
+
+  it('rejects staged contents that fail validation', async () => {
+    const dir = await createProject()
+    dirs.push(dir)
+
+    const tx = await beginInstallTransaction(dir)
+    const staged = await tx.stage('@test/a', d => writeFile(join(d, 'spec.yaml'), specYaml('@test/other', '1.0.0')))
+    expect(staged.ok).toBe(false)
+    if (!staged.ok) expect(staged.error).toContain('expected @test/a')
+    await tx.abort()
+
+    expect(await fileExists(join(dir, '.specpm', 'specs', '@test'))).toBe(false)
+    expect(await fileExists(join(dir, '.specpm', '.staging'))).toBe(false)
+  })
+
+  it('reports extraction failures', async () => {
+    const dir = await createProject()
+    dirs.push(dir)
+
+    const tx = await beginInstallTransaction(dir)
+    const staged = await tx.stage('@test/a', async () => { throw new Error('corrupt archive') })
+    expect(staged.ok).toBe(false)
+    if (!staged.ok) expect(staged.error).toContain('corrupt archive')
+    await tx.abort()
+  })
+
+  it('rolls back packages and specpm.yaml when the lockfile cannot be written', async () => {
+    const dir = await createProject()
+    dirs.push(dir)
+    const existing = await installDirectly(dir, '@test/a', '1.0.0')
+    const manifestBefore = await readFile(join(dir, 'specpm.yaml'), 'utf-8')
+
+    // A directory in the lockfile's place makes the final write fail
+    await mkdir(join(dir, 'specpm-lock.yaml'))
+
+    const tx = await beginInstallTransaction(dir)
+    await tx.stage('@test/a', d => writeFile(join(d, 'spec.yaml'), specYaml('@test/a', '2.0.0')))
+    await tx.stage('@test/b', d => writeFile(join(d, 'spec.yaml'), specYaml('@test/b', '1.0.0')))
+    tx.setManifest({ name: 'test-project', version: '0.1.0', dependencies: { '@test/a': '2.0.0', '@test/b': '1.0.0' } })
+
+    const result = await tx.commit()
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error).toContain('rolled back')
+
+    const restored = parseYaml(await readFile(join(existing, 'spec.yaml'), 'utf-8'))
+    expect(restored.version).toBe('1.0.0')
+    expect(await fileExists(join(dir, '.specpm', 'specs', '@test', 'b'))).toBe(false)
+    expect(await readFile(join(dir, 'specpm.yaml'), 'utf-8')).toBe(manifestBefore)
+    expect(await fileExists(join(dir, '.specpm', '.staging'))).toBe(false)
+  })
+
+  it('removes packages', async () => {
+    const dir = await createProject()
+    dirs.push(dir)
+    await installDirectly(dir, '@test/a', '1.0.0')
+
+    const tx = await beginInstallTransaction(dir)
+    tx.remove('@test/a')
+    const result = await tx.commit()
+    expect(result.ok).toBe(true)
+
+    expect(await fileExists(join(dir, '.specpm', 'specs', '@test'))).toBe(false)
+  })
+
+  it('keeps versions in the store and links the one in use', async () => {
+    const dir = await createProject()
+    dirs.push(dir)
+
+    for (const version of ['1.0.0', '2.0.0', '3.0.0']) {
+      const tx = await beginInstallTransaction(dir)
+      await tx.stage('@test/a', d => writeFile(join(d, 'spec.yaml'), specYaml('@test/a', version)))
+      expect((await tx.commit()).ok).toBe(true)
+    }
+
+    const link = join(dir, '.specpm', 'specs', '@test', 'a')
+    expect(await readlink(link)).toBe(join('..', '..', 'store', '@test', 'a@3.0.0'))
+    // The version in use and the one it replaced
+    expect(await readdir(join(dir, '.specpm', 'store', '@test'))).toEqual(['a@2.0.0', 'a@3.0.0'])
+  })
+
+  it('switches back to a stored version without staging it', async () => {
+    const dir = await createProject()
+    dirs.push(dir)
+    for (const version of ['1.0.0', '2.0.0']) {
+      const tx = await beginInstallTransaction(dir)
+      await tx.stage('@test/a', d => writeFile(join(d, 'spec.yaml'), specYaml('@test/a', version)))
+      await tx.commit()
+    }
+
+    const tx = await beginInstallTransaction(dir)
+    expect((await tx.useStored('@test/a', '1.0.0')).ok).toBe(true)
+    expect((await tx.useStored('@test/a', '0.9.0')).ok).toBe(false)
+    expect((await tx.commit()).ok).toBe(true)
+
+    const installed = parseYaml(await readFile(join(dir, '.specpm', 'specs', '@test', 'a', 'spec.yaml'), 'utf-8'))
+    expect(installed.version).toBe('1.0.0')
+    expect(await readdir(join(dir, '.specpm', 'store', '@test'))).toEqual(['a@1.0.0', 'a@2.0.0'])
+  })
+
+  it('restores the previous link and store entry on rollback', async () => {
+    const dir = await createProject()
+    dirs.push(dir)
+    const tx = await beginInstallTransaction(dir)
+    await tx.stage('@test/a', d => writeFile(join(d, 'spec.yaml'), specYaml('@test/a', '1.0.0')))
+    await tx.commit()
+
+    // A directory in the lockfile's place makes the final write fail
+    await rm(join(dir, 'specpm-lock.yaml'))
+    await mkdir(join(dir, 'specpm-lock.yaml'))
+    const failing = await beginInstallTransaction(dir)
+    await failing.stage('@test/a', d => writeFile(join(d, 'spec.yaml'), specYaml('@test/a', '2.0.0')))
+    expect((await failing.commit()).ok).toBe(false)
+
+    expect(await readlink(join(dir, '.specpm', 'specs', '@test', 'a'))).toBe(join('..', '..', 'store', '@test', 'a@1.0.0'))
+    expect(await readdir(join(dir, '.specpm', 'store', '@test'))).toEqual(['a@1.0.0'])
+  })
+})
@@ -1,11 +1,11 @@
 import { describe, it, expect, afterEach } from 'vitest'
 import { mkdtemp, rm, mkdir, writeFile, readFile, access } from 'node:fs/promises'
-import { join } from 'node:path'
+import { join, relative } from 'node:path'
 import { tmpdir } from 'node:os'
-import { parse as parseYaml } from 'yaml'
+import { parse as parseYaml, stringify } from 'yaml'
 import { createHash } from 'node:crypto'
 import { initCommand } from '../src/commands/init.js'
-import { installFromLocalPath } from '../src/commands/install.js'
+import { installFromLocalPath, installFromLockfile, installAll } from '../src/commands/install.js'
 
 async function fileExists(p: string): Promise<boolean> {
   try { await access(p); return true } catch { return false }
@@ -85,6 +85,24 @@ license: "MIT"
     if (!result.ok) expect(result.error).toContain('specpm init')
   })
 
+  it('replaces a previous install without leaving stale files behind', async () => {
+    const src = await createSourcePackage()
+    await mkdir(join(src, 'docs'))
+    await writeFile(join(src, 'docs', 'old.md'), '# Old')
+    const proj = await createInitializedProject()
+    dirs.push(src, proj)
+    await installFromLocalPath(src)
+
+    await rm(join(src, 'docs'), { recursive: true })
+    await writeFile(join(src, 'spec.yaml'), VALID_SPEC.replace('1.0.0', '1.1.0'))
+    const result = await installFromLocalPath(src)
+    expect(result.ok).toBe(true)
+
+    const installedDir = join(proj, '.specpm', 'specs', '@test', 'example')
+    expect(await fileExists(join(installedDir, 'docs', 'old.md'))).toBe(false)
+    expect(await fileExists(join(proj, '.specpm', '.staging'))).toBe(false)
+  })
+
   it('generates lockfile after install', async () => {
     const src = await createSourcePackage()
     const proj = await createInitializedProject()
@@ -96,12 +114,15 @@ license: "MIT"
     expect(await fileExists(lockfilePath)).toBe(true)
 
     const lockfile = parseYaml(await readFile(lockfilePath, 'utf-8'))
-    expect(lockfile.lockfileVersion).toBe(1)
+    expect(lockfile.lockfileVersion).toBe(2)
     expect(lockfile.packages['@test/example@1.0.0']).toBeDefined()
+    expect(lockfile.dependencies['@test/example']).toEqual({ specifier: '1.0.0', version: '1.0.0' })
   })
 
-  it('lockfile contains correct integrity hash', async () => {
+  it('lockfile integrity covers every file in the package', async () => {
     const src = await createSourcePackage()
+    await mkdir(join(src, 'docs'))
+    await writeFile(join(src, 'docs', 'guide.md'), '# Guide')
     const proj = await createInitializedProject()
     dirs.push(src, proj)
 
@@ -110,23 +131,308 @@ license: "MIT"
     const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
     const entry = lockfile.packages['@test/example@1.0.0']
 
-    // Compute expected hash from installed spec.yaml
-    const installedContent = await readFile(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'), 'utf-8')
-    const expectedHash = createHash('sha256').update(installedContent).digest('hex')
-    expect(entry.integrity).toBe(`sha256-${expectedHash}`)
+    // Paths are hashed in sorted order, each followed by its content
+    const installedDir = join(proj, '.specpm', 'specs', '@test', 'example')
+    const hash = createHash('sha256')
+    for (const file of ['docs/guide.md', 'spec.yaml']) {
+      hash.update(`${file}\0`)
+      hash.update(await readFile(join(installedDir, file)))
+      hash.update('\0')
+    }
+    expect(entry.integrity).toBe(`sha256-${hash.digest('hex')}`)
   })
 
-  it('lockfile contains install timestamp', async () => {
+  it('lockfile is identical across reinstalls', async () => {
     const src = await createSourcePackage()
     const proj = await createInitializedProject()
     dirs.push(src, proj)
 
-    const before = new Date().toISOString()
     await installFromLocalPath(src)
+    const first = await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8')
+    await installFromLocalPath(src)
+    const second = await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8')
+
+    expect(second).toBe(first)
+    expect(first).not.toContain('installedAt')
+  })
+
+  it('lockfile sorts packages and records the dependency graph', async () => {
+    const errors = await createSourcePackage(VALID_SPEC.replace('@test/example', '@test/errors'))
+    const pagination = await createSourcePackage(`
+name: "@test/pagination"
+version: "2.0.0"
+description: "Test spec"
+author: "test"
+license: "MIT"
+dependencies:
+  "@test/errors": "^1.0.0"
+`)
+    const proj = await createInitializedProject()
+    dirs.push(errors, pagination, proj)
+
+    await installFromLocalPath(pagination)
+    await installFromLocalPath(errors)
+
+    const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+    expect(Object.keys(lockfile.packages)).toEqual(['@test/errors@1.0.0', '@test/pagination@2.0.0'])
+    expect(lockfile.packages['@test/pagination@2.0.0'].dependencies).toEqual({
+      '@test/errors': { specifier: '^1.0.0', version: '1.0.0' },
+    })
+  })
+
+  it('migrates a version 1 lockfile', async () => {
+    const src = await createSourcePackage()
+    const other = await createSourcePackage(VALID_SPEC.replace('@test/example', '@test/other'))
+    const proj = await createInitializedProject()
+    dirs.push(src, other, proj)
+    await installFromLocalPath(src)
+
+    await writeFile(join(proj, 'specpm-lock.yaml'), stringify({
+      lockfileVersion: 1,
+      packages: {
+        '@test/example@1.0.0': {
+          resolved: `local:${src}`,
+          integrity: 'sha256-old',
+          dependencies: {},
+          installedAt: '2024-01-01T00:00:00.000Z',
+        },
+      },
+    }))
+
+    await installFromLocalPath(other)
 
     const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+    expect(lockfile.lockfileVersion).toBe(2)
     const entry = lockfile.packages['@test/example@1.0.0']
-    expect(entry.installedAt).toBeDefined()
-    expect(new Date(entry.installedAt).getTime()).toBeGreaterThanOrEqual(new Date(before).getTime() - 1000)
+    expect(entry.resolved).toBe(`local:${relative(proj, src)}`)
+    expect(entry.integrity).not.toBe('sha256-old')
+    expect(entry.installedAt).toBeUndefined()
+  })
+})
+
+describe('specpm install --frozen-lockfile', () => {
+  const dirs: string[] = []
+  const originalCwd = process.cwd()
+
+  afterEach(async () => {
+    process.chdir(originalCwd)
+    for (const d of dirs) await rm(d, { recursive: true, force: true })
+    dirs.length = 0
+  })
+
+  it('records where a local package came from', async () => {
+    const src = await createSourcePackage()
+    const proj = await createInitializedProject()
+    dirs.push(src, proj)
+
+    await installFromLocalPath(src)
+
+    const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+    expect(lockfile.packages['@test/example@1.0.0'].resolved).toBe(`local:${relative(proj, src)}`)
+  })
+
+  it('restores packages exactly as locked without touching the lockfile', async () => {
+    const src = await createSourcePackage()
+    const proj = await createInitializedProject()
+    dirs.push(src, proj)
+    await installFromLocalPath(src)
+    const lockfileBefore = await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8')
+
+    await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+    const result = await installFromLockfile()
+    expect(result.ok).toBe(true)
+    if (result.ok) expect(result.value).toEqual(['@test/example'])
+
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'))).toBe(true)
+    expect(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8')).toBe(lockfileBefore)
+  })
+
+  it('skips packages that already match the lockfile', async () => {
+    const src = await createSourcePackage()
+    const proj = await createInitializedProject()
+    dirs.push(src, proj)
+    await installFromLocalPath(src)
+
+    const result = await installFromLockfile()
+    expect(result.ok).toBe(true)
+    if (result.ok) expect(result.value).toEqual([])
+  })
+
+  it('accepts a version 1 lockfile', async () => {
+    const src = await createSourcePackage()
+    const proj = await createInitializedProject()
+    dirs.push(src, proj)
+    await installFromLocalPath(src)
+
+    const specYaml = await readFile(join(src, 'spec.yaml'), 'utf-8')
+    await writeFile(join(proj, 'specpm-lock.yaml'), stringify({
+      lockfileVersion: 1,
+      packages: {
+        '@test/example@1.0.0': {
+          resolved: `local:${src}`,
+          integrity: `sha256-${createHash('sha256').update(specYaml).digest('hex')}`,
+          dependencies: {},
+          installedAt: '2024-01-01T00:00:00.000Z',
+        },
+      },
+    }))
+    await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+
+    const result = await installFromLockfile()
+    expect(result.ok).toBe(true)
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'))).toBe(true)
+  })
+
+  it('fails without a lockfile', async () => {
+    const proj = await createInitializedProject()
+    dirs.push(proj)
+
+    const result = await installFromLockfile()
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error).toContain('No specpm-lock.yaml found')
+  })
+
+  it('fails when specpm.yaml and the lockfile disagree', async () => {
+    const src = await createSourcePackage()
+    const proj = await createInitializedProject()
+    dirs.push(src, proj)
+    await installFromLocalPath(src)
+
+    const manifestPath = join(proj, 'specpm.yaml')
+    const manifest = parseYaml(await readFile(manifestPath, 'utf-8'))
+    manifest.dependencies['@test/example'] = '^2.0.0'
+    manifest.dependencies['@test/other'] = '^1.0.0'
+    await writeFile(manifestPath, stringify(manifest))
+
+    const result = await installFromLockfile()
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toContain('out of sync')
+      expect(result.error).toContain('@test/example@1.0.0 in specpm-lock.yaml does not satisfy ^2.0.0')
+      expect(result.error).toContain('@test/other@^1.0.0 (required by specpm.yaml) is missing')
+    }
+  })
+
+  it('fails when the source no longer matches the locked integrity', async () => {
+    const src = await createSourcePackage()
+    const proj = await createInitializedProject()
+    dirs.push(src, proj)
+    await installFromLocalPath(src)
+
+    await writeFile(join(src, 'spec.yaml'), VALID_SPEC.replace('Test spec', 'Changed spec'))
+    // A fresh checkout: no store to fall back on
+    await rm(join(proj, '.specpm'), { recursive: true })
+
+    const result = await installFromLockfile()
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error).toContain('Integrity check failed for @test/example@1.0.0')
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@test', 'example'))).toBe(false)
+  })
+
+  it('relinks a version kept in the store without going back to its source', async () => {
+    const src = await createSourcePackage()
+    const proj = await createInitializedProject()
+    dirs.push(src, proj)
+    await installFromLocalPath(src)
+
+    await rm(src, { recursive: true })
+    await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+    const result = await installFromLockfile()
+    expect(result.ok).toBe(true)
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'))).toBe(true)
+  })
+})
+
+describe('specpm install (no arguments)', () => {
+  const dirs: string[] = []
+  const originalCwd = process.cwd()
+
+  afterEach(async () => {
+    process.chdir(originalCwd)
+    for (const d of dirs) await rm(d, { recursive: true, force: true })
+    dirs.length = 0
+  })
+
+  async function setup(): Promise<string> {
+    const src = await createSourcePackage()
+    const devSrc = await createSourcePackage(VALID_SPEC.replace('@test/example', '@test/fixtures'))
+    const proj = await createInitializedProject()
+    dirs.push(src, devSrc, proj)
+    await installFromLocalPath(src)
+    await installFromLocalPath(devSrc, { saveDev: true })
+    return proj
+  }
+
+  it('restores every dependency from the lockfile', async () => {
+    const proj = await setup()
+    await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+
+    const result = await installAll()
+    expect(result.ok).toBe(true)
+    if (result.ok) expect(result.value.sort()).toEqual(['@test/example', '@test/fixtures'])
+
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'))).toBe(true)
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@test', 'fixtures', 'spec.yaml'))).toBe(true)
+  })
+
+  it('skips devDependencies with --production', async () => {
+    const proj = await setup()
+    await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+
+    const result = await installAll({ production: true })
+    expect(result.ok).toBe(true)
+
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'))).toBe(true)
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@test', 'fixtures'))).toBe(false)
+  })
+
+  it('leaves an out-of-date lockfile alone with --production', async () => {
+    const proj = await setup()
+    const lockfilePath = join(proj, 'specpm-lock.yaml')
+    const lockfile = parseYaml(await readFile(lockfilePath, 'utf-8'))
+    lockfile.dependencies['@test/example'].specifier = '^9.0.0'
+    await writeFile(lockfilePath, stringify(lockfile))
+    const before = await readFile(lockfilePath, 'utf-8')
+    await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+
+    const result = await installAll({ production: true })
+    expect(result.ok).toBe(true)
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@test', 'fixtures'))).toBe(false)
+    // Rewritten from a production install, it would lose the devDependencies
+    expect(await readFile(lockfilePath, 'utf-8')).toBe(before)
+  })
+
+  it('does nothing when everything is installed', async () => {
+    await setup()
+
+    const result = await installAll()
+    expect(result.ok).toBe(true)
+    if (result.ok) expect(result.value).toEqual([])
+  })
+
+  it('restores local packages when the lockfile is out of date', async () => {
+    const proj = await setup()
+    const manifestPath = join(proj, 'specpm.yaml')
+    const manifest = parseYaml(await readFile(manifestPath, 'utf-8'))
+    manifest.dependencies['@test/example'] = '^1.0.0'
+    await writeFile(manifestPath, stringify(manifest))
+    await rm(join(proj, '.specpm', 'specs', '@test', 'example'), { recursive: true })
+
+    const result = await installAll()
+    expect(result.ok).toBe(true)
+
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'))).toBe(true)
+    const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+    expect(lockfile.dependencies['@test/example'].specifier).toBe('^1.0.0')
+  })
+
+  it('rejects projects that are not initialized', async () => {
+    const proj = await mkdtemp(join(tmpdir(), 'specpm-noinit-'))
+    dirs.push(proj)
+    process.chdir(proj)
+
+    const result = await installAll()
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error).toContain('specpm init')
   })
 })
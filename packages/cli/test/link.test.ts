@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm, mkdir, writeFile, readFile, lstat, access } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parse as parseYaml, stringify } from 'yaml'
+import { installFromLocalPath, installAll, installFromLockfile } from '../src/commands/install.js'
+import { uninstallCommand } from '../src/commands/uninstall.js'
+import { checkCommand } from '../src/commands/check.js'
+import { contextCommand } from '../src/commands/context.js'
+import { readLockfile } from '../src/lib/lockfile.js'
+
+let root: string
+let origCwd: string
+
+async function fileExists(p: string): Promise<boolean> {
+  try { await access(p); return true } catch { return false }
+}
+
+async function writeYaml(path: string, content: unknown): Promise<void> {
+  await mkdir(join(path, '..'), { recursive: true })
+  await writeFile(path, stringify(content))
+}
+
+const source = () => join(root, 'specs', 'users')
+const installed = () => join(root, '.specpm', 'specs', '@test', 'users')
+
+/** specs/users: a spec requiring `interface User` to have the given fields */
+async function writeSpec(version: string, requiredFields: string[]): Promise<void> {
+  await writeYaml(join(source(), 'spec.yaml'), {
+    name: '@test/users', version, description: 'Users', author: 'test', license: 'MIT',
+    entities: ['user.json'],
+    constraints: 'constraints.yaml',
+  })
+  await writeFile(join(source(), 'user.json'), JSON.stringify({
+    $id: 'user', title: 'User', type: 'object',
+    properties: Object.fromEntries(requiredFields.map(field => [field, { type: 'string' }])),
+  }))
+  await writeYaml(join(source(), 'constraints.yaml'), {
+    constraints: [{
+      id: 'user-fields', description: `User has ${requiredFields.join(', ')}`, type: 'entity', severity: 'error',
+      check: { entity: 'User', requiredFields },
+    }],
+  })
+}
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'specpm-link-'))
+  origCwd = process.cwd()
+  process.chdir(root)
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+
+  await writeYaml(join(root, 'specpm.yaml'), { name: 'app', version: '1.0.0' })
+  await mkdir(join(root, 'src'), { recursive: true })
+  await writeFile(join(root, 'src', 'user.ts'), 'interface User { id: string }\n')
+  await writeSpec('1.0.0', ['id'])
+})
+
+afterEach(async () => {
+  vi.restoreAllMocks()
+  process.chdir(origCwd)
+  await rm(root, { recursive: true, force: true })
+})
+
+describe('specpm install --link', () => {
+  it('links the directory and records link: in specpm.yaml and the lockfile', async () => {
+    const result = await installFromLocalPath('./specs/users', { link: true })
+    expect(result.ok).toBe(true)
+
+    expect((await lstat(installed())).isSymbolicLink()).toBe(true)
+    const manifest = parseYaml(await readFile(join(root, 'specpm.yaml'), 'utf-8'))
+    expect(manifest.dependencies).toEqual({ '@test/users': 'link:specs/users' })
+
+    const lockfile = await readLockfile(root)
+    expect(lockfile.ok && lockfile.value?.packages).toEqual([
+      { name: '@test/users', version: '1.0.0', resolved: 'link:specs/users', integrity: '', dependencies: {} },
+    ])
+    expect(lockfile.ok && lockfile.value?.dependencies).toEqual({
+      '@test/users': { specifier: 'link:specs/users', version: '1.0.0' },
+    })
+  })
+
+  it('check and context read edits to the linked directory without reinstalling', async () => {
+    await installFromLocalPath('./specs/users', { link: true })
+    expect((await checkCommand({})).ok).toBe(true)
+
+    await writeSpec('1.1.0', ['id', 'email'])
+    const check = await checkCommand({})
+    expect(check.ok && check.value.summary.fail).toBe(1)
+
+    await contextCommand({ target: 'claude' })
+    expect(await readFile(join(root, 'CLAUDE.md'), 'utf-8')).toContain('User has id, email')
+  })
+
+  it('restores links from the lockfile, whatever version the directory is at now', async () => {
+    await installFromLocalPath('./specs/users', { link: true })
+    await writeSpec('2.0.0', ['id'])
+    await rm(join(root, '.specpm'), { recursive: true })
+
+    const frozen = await installFromLockfile()
+    expect(frozen.ok).toBe(true)
+    expect((await lstat(installed())).isSymbolicLink()).toBe(true)
+
+    // Without a lockfile, the link comes from specpm.yaml
+    await rm(join(root, '.specpm'), { recursive: true })
+    await rm(join(root, 'specpm-lock.yaml'))
+    const all = await installAll()
+    expect(all.ok).toBe(true)
+    expect((await lstat(installed())).isSymbolicLink()).toBe(true)
+    const lockfile = await readLockfile(root)
+    expect(lockfile.ok && lockfile.value?.packages.map(pkg => `${pkg.name}@${pkg.version} ${pkg.resolved}`))
+      .toEqual(['@test/users@2.0.0 link:specs/users'])
+  })
+
+  it('uninstall removes the link but not the linked directory', async () => {
+    await installFromLocalPath('./specs/users', { link: true })
+    const result = await uninstallCommand('@test/users', { context: false })
+    expect(result.ok).toBe(true)
+    expect(await fileExists(installed())).toBe(false)
+    expect(await fileExists(join(source(), 'spec.yaml'))).toBe(true)
+  })
+
+  it('records link paths relative to a workspace and rebases them for the lockfile', async () => {
+    await writeYaml(join(root, 'specpm.yaml'), { name: 'monorepo', version: '1.0.0', workspaces: ['apps/*'] })
+    await writeYaml(join(root, 'apps', 'web', 'specpm.yaml'), { name: 'web', version: '1.0.0' })
+    process.chdir(join(root, 'apps', 'web'))
+
+    const result = await installFromLocalPath('../../specs/users', { link: true })
+    expect(result.ok).toBe(true)
+    const manifest = parseYaml(await readFile(join(root, 'apps', 'web', 'specpm.yaml'), 'utf-8'))
+    expect(manifest.dependencies).toEqual({ '@test/users': 'link:../../specs/users' })
+
+    const lockfile = await readLockfile(root)
+    expect(lockfile.ok && lockfile.value?.dependencies['@test/users']?.specifier).toBe('link:specs/users')
+    process.chdir(root)
+    expect((await installFromLockfile()).ok).toBe(true)
+  })
+})
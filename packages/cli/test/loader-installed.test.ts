@@ -85,6 +85,20 @@ describe('getInstalledSpec', () => {
     expect(result.ok).toBe(false)
   })
 
+  it('reads a specific version from the store, whichever version is in use', async () => {
+    const dir = await createProject({ '@test/example': MINIMAL_SPEC })
+    dirs.push(dir)
+    const stored = join(dir, '.specpm', 'store', '@test', 'example@0.9.0')
+    await mkdir(stored, { recursive: true })
+    await writeFile(join(stored, 'spec.yaml'), MINIMAL_SPEC.replace('1.0.0', '0.9.0'))
+
+    const old = await getInstalledSpec(dir, '@test/example', '0.9.0')
+    expect(old.ok && old.value.manifest.version).toBe('0.9.0')
+    expect((await getInstalledSpec(dir, '@test/example', '1.0.0')).ok).toBe(true)
+    const missing = await getInstalledSpec(dir, '@test/example', '2.0.0')
+    expect(!missing.ok && missing.error[0].message).toBe('@test/example@2.0.0 is not installed (1.0.0 is)')
+  })
+
   it('errors for invalid name format', async () => {
     const dir = await createProject()
     dirs.push(dir)
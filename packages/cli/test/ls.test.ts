@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { stringify } from 'yaml'
+import { lsCommand, whyCommand } from '../src/commands/ls.js'
+
+describe('specpm ls and why', () => {
+  let tempDir: string
+  let origCwd: string
+
+  async function installSpec(name: string, version: string, dependencies?: Record<string, string>) {
+    const [scope, pkg] = name.slice(1).split('/')
+    const specDir = join(tempDir, '.specpm', 'specs', `@${scope}`, pkg)
+    await mkdir(specDir, { recursive: true })
+    await writeFile(join(specDir, 'spec.yaml'), stringify({
+      name, version, description: 'Test', author: 'test', license: 'MIT', ...(dependencies ? { dependencies } : {}),
+    }))
+  }
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'specpm-ls-'))
+    origCwd = process.cwd()
+    process.chdir(tempDir)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    // app → pagination → errors; app (dev) → testing → errors
+    await writeFile(join(tempDir, 'specpm.yaml'), stringify({
+      name: 'test-project',
+      version: '0.1.0',
+      dependencies: { '@data/pagination': '^1.0.0' },
+      devDependencies: { '@qa/testing': '^1.0.0' },
+    }))
+    await installSpec('@data/pagination', '1.2.0', { '@api/errors': '^2.0.0' })
+    await installSpec('@qa/testing', '1.0.0', { '@api/errors': '^2.1.0' })
+    await installSpec('@api/errors', '2.1.0')
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    process.chdir(origCwd)
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('lists direct dependencies with their type', async () => {
+    const result = await lsCommand()
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.dependencies.map(d => [d.name, d.version, d.dev])).toEqual([
+        ['@data/pagination', '1.2.0', false],
+        ['@qa/testing', '1.0.0', true],
+      ])
+      expect(result.value.dependencies[0].dependencies).toEqual([])
+      expect(result.value.problems).toEqual([])
+    }
+  })
+
+  it('prints the full tree with --tree, deduping repeated packages', async () => {
+    const result = await lsCommand({ tree: true })
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      const [pagination, testing] = result.value.dependencies
+      expect(pagination.dependencies[0]).toMatchObject({ name: '@api/errors', version: '2.1.0', dev: false })
+      // Production code depends on @api/errors too, so it isn't dev however it is reached
+      expect(testing.dependencies[0]).toMatchObject({ name: '@api/errors', deduped: true, dev: false })
+    }
+  })
+
+  it('labels a package dev only when no production dependency reaches it', async () => {
+    await installSpec('@qa/testing', '1.0.0', { '@api/errors': '^2.1.0', '@qa/mocks': '^1.0.0' })
+    await installSpec('@qa/mocks', '1.0.0')
+
+    const result = await lsCommand({ tree: true })
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      const testing = result.value.dependencies[1]
+      expect(testing.dependencies.map(d => [d.name, d.dev])).toEqual([['@api/errors', false], ['@qa/mocks', true]])
+    }
+  })
+
+  it('flags missing, invalid and extraneous specs', async () => {
+    await installSpec('@data/pagination', '1.2.0', { '@api/errors': '^3.0.0', '@api/links': '^1.0.0' })
+    await installSpec('@old/unused', '0.1.0')
+
+    const result = await lsCommand({ tree: true, json: true })
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      const children = result.value.dependencies[0].dependencies
+      expect(children.find(c => c.name === '@api/errors')?.problem).toBe('invalid')
+      expect(children.find(c => c.name === '@api/links')?.problem).toBe('missing')
+      expect(result.value.extraneous).toEqual([{ name: '@old/unused', version: '0.1.0' }])
+      expect(result.value.problems).toEqual([
+        'invalid: @api/errors@2.1.0 does not satisfy ^3.0.0, required by @data/pagination@1.2.0',
+        'missing: @api/links@^1.0.0, required by @data/pagination@1.2.0',
+        'extraneous: @old/unused@0.1.0',
+      ])
+    }
+  })
+
+  it('why lists every chain to a package', async () => {
+    const result = await whyCommand('@api/errors')
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.version).toBe('2.1.0')
+      expect(result.value.chains.map(c => [c.type, c.path.map(l => l.name)])).toEqual([
+        ['dependencies', ['@data/pagination', '@api/errors']],
+        ['devDependencies', ['@qa/testing', '@api/errors']],
+      ])
+      expect(result.value.chains[1].path[1].range).toBe('^2.1.0')
+    }
+  })
+
+  it('why reports extraneous and unknown packages', async () => {
+    await installSpec('@old/unused', '0.1.0')
+    const extraneous = await whyCommand('@old/unused')
+    expect(extraneous.ok).toBe(true)
+    if (extraneous.ok) expect(extraneous.value.chains).toEqual([])
+
+    const unknown = await whyCommand('@nope/nothing')
+    expect(unknown.ok).toBe(false)
+  })
+})
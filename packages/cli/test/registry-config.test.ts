@@ -1,9 +1,10 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { mkdtemp, rm, writeFile, readFile, mkdir } from 'node:fs/promises'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
 import { stringify, parse as parseYaml } from 'yaml'
 import { loadRegistryConfig, resolveRegistryForPackage, getAuthToken, addRegistry, removeRegistry, listRegistries } from '../src/lib/registry-config.js'
+import { resolveRegistryUrl, authHeaders, fetchTarball } from '../src/lib/registry-client.js'
 
 describe('registry config', () => {
   let tempDir: string
@@ -129,4 +130,50 @@ describe('registry add/remove/list', () => {
       expect(Object.keys(result.value)).toHaveLength(2)
     }
   })
+
+  it('routes packages to their scope registry, then the default', async () => {
+    await writeFile(join(tempDir, 'specpm.yaml'), stringify({
+      name: 'test',
+      version: '1.0.0',
+      registries: { '@acme': 'https://acme.specpm.dev', default: 'https://registry.specpm.dev' },
+    }))
+    expect(await resolveRegistryUrl(undefined, '@acme/errors', tempDir)).toBe('https://acme.specpm.dev')
+    expect(await resolveRegistryUrl(undefined, '@data/pagination', tempDir)).toBe('https://registry.specpm.dev')
+    expect(await resolveRegistryUrl(undefined, undefined, tempDir)).toBe('https://registry.specpm.dev')
+    expect(await resolveRegistryUrl('https://explicit.dev', '@acme/errors', tempDir)).toBe('https://explicit.dev')
+  })
+
+  it('sends the scope token from the environment', async () => {
+    process.env.SPECPM_TOKEN_ACME_CORP = 'scope-token'
+    try {
+      expect(await authHeaders('https://acme.specpm.dev', '@acme-corp/errors'))
+        .toEqual({ authorization: 'Bearer scope-token' })
+    } finally {
+      delete process.env.SPECPM_TOKEN_ACME_CORP
+    }
+  })
+
+  it('sends the scope token with tarball downloads only to the scope registry', async () => {
+    await writeFile(join(tempDir, 'specpm.yaml'), stringify({
+      name: 'test',
+      version: '1.0.0',
+      registries: { '@acme': 'https://acme.specpm.dev' },
+    }))
+    process.chdir(tempDir)
+    process.env.SPECPM_TOKEN_ACME = 'scope-token'
+    process.env.SPECPM_CACHE_DIR = join(tempDir, 'cache')
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('tarball'))
+    try {
+      const pkg = { name: '@acme/errors', version: '1.0.0' }
+      await fetchTarball('https://acme.specpm.dev/api/v1/packages/acme/errors/1.0.0/tarball', pkg)
+      await fetchTarball('https://evil.example.com/api/v1/packages/acme/errors/1.0.0/tarball', pkg)
+
+      expect(fetchSpy.mock.calls[0][1]).toEqual({ headers: { authorization: 'Bearer scope-token' } })
+      expect(fetchSpy.mock.calls[1][1]).toEqual({ headers: {} })
+    } finally {
+      fetchSpy.mockRestore()
+      delete process.env.SPECPM_TOKEN_ACME
+      delete process.env.SPECPM_CACHE_DIR
+    }
+  })
 })
@@ -1,9 +1,18 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest'
 import { mkdtemp, rm, mkdir, writeFile, readFile, access } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 import { execSync } from 'node:child_process'
-import { stringify } from 'yaml'
+import { stringify, parse as parseYaml } from 'yaml'
+import { initCommand } from '../src/commands/init.js'
+import { installFromRegistry, installFromLockfile, installAll } from '../src/commands/install.js'
+import { outdatedCommand, updateCommand } from '../src/commands/outdated.js'
+import { listCacheEntries } from '../src/lib/cache.js'
+import { publishCommand } from '../src/commands/publish.js'
+import { searchCommand } from '../src/commands/search.js'
+import { contextCommand } from '../src/commands/context.js'
+import { lsCommand } from '../src/commands/ls.js'
+import { listInstalledSpecs } from '../src/lib/loader.js'
 
 // We test by importing the functions directly, using a real registry server
 import { createServer } from '../../registry/src/server.js'
@@ -19,9 +28,9 @@ async function fileExists(p: string): Promise<boolean> {
 }
 
 // Helper: create a valid spec package directory
-async function createSpecDir(dir: string, name = '@test/example', version = '1.0.0') {
+async function createSpecDir(dir: string, name = '@test/example', version = '1.0.0', dependencies?: Record<string, string>) {
   await mkdir(dir, { recursive: true })
-  const manifest = { name, version, description: 'Test', author: 'test', license: 'MIT' }
+  const manifest = { name, version, description: 'Test', author: 'test', license: 'MIT', ...(dependencies ? { dependencies } : {}) }
   await writeFile(join(dir, 'spec.yaml'), stringify(manifest))
   await writeFile(join(dir, 'README.md'), '# Test')
   return manifest
@@ -37,11 +46,19 @@ async function createTarball(dir: string): Promise<Buffer> {
 }
 
 // Helper: publish via API
-async function publishViaApi(scope: string, name: string, version: string, tarball: Buffer, manifest: object) {
+async function publishViaApi(
+  scope: string, name: string, version: string, tarball: Buffer, manifest: object, tag?: string, verification?: object,
+) {
   const boundary = '----test-' + Date.now()
   const manifestStr = JSON.stringify(manifest)
   const parts: Buffer[] = []
   parts.push(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="manifest"\r\n\r\n${manifestStr}\r\n`))
+  if (tag) {
+    parts.push(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="tag"\r\n\r\n${tag}\r\n`))
+  }
+  if (verification) {
+    parts.push(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="verification"\r\n\r\n${JSON.stringify(verification)}\r\n`))
+  }
   parts.push(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="tarball"; filename="package.tgz"\r\nContent-Type: application/gzip\r\n\r\n`))
   parts.push(tarball)
   parts.push(Buffer.from(`\r\n--${boundary}--\r\n`))
@@ -59,6 +76,8 @@ async function publishViaApi(scope: string, name: string, version: string, tarba
 
 describe('CLI Registry Integration', () => {
   beforeEach(async () => {
+    // Keep the package cache out of the real home directory
+    process.env.SPECPM_CACHE_DIR = await mkdtemp(join(tmpdir(), 'specpm-cache-'))
     dataDir = await mkdtemp(join(tmpdir(), 'specpm-cli-reg-'))
     app = await createServer({ dataDir })
     await app.listen({ port: 0 })
@@ -75,6 +94,11 @@ describe('CLI Registry Integration', () => {
     token = (await loginRes.json() as any).token
   })
 
+  afterEach(async () => {
+    await rm(process.env.SPECPM_CACHE_DIR!, { recursive: true, force: true })
+    delete process.env.SPECPM_CACHE_DIR
+  })
+
   afterAll(async () => {
     await app?.close()
   })
@@ -110,6 +134,788 @@ describe('CLI Registry Integration', () => {
     })
   })
 
+  describe('Version-range installs', () => {
+    const dirs: string[] = []
+    const originalCwd = process.cwd()
+
+    afterEach(async () => {
+      process.chdir(originalCwd)
+      for (const d of dirs) await rm(d, { recursive: true, force: true })
+      dirs.length = 0
+    })
+
+    // Publishes the given versions in order, so the last one is the most recently published
+    async function publishVersions(versions: string[], tags: Record<string, string> = {}) {
+      for (const version of versions) {
+        const specDir = await mkdtemp(join(tmpdir(), 'specpm-spec-'))
+        dirs.push(specDir)
+        const manifest = await createSpecDir(specDir, '@test/example', version)
+        const tag = Object.keys(tags).find(t => tags[t] === version)
+        const res = await publishViaApi('test', 'example', version, await createTarball(specDir), manifest, tag)
+        expect(res.statusCode).toBe(201)
+      }
+    }
+
+    async function createProject(): Promise<string> {
+      const proj = await mkdtemp(join(tmpdir(), 'specpm-proj-'))
+      dirs.push(proj)
+      process.chdir(proj)
+      await initCommand({ yes: true })
+      return proj
+    }
+
+    async function installedVersion(proj: string): Promise<string> {
+      const spec = parseYaml(await readFile(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'), 'utf-8'))
+      return spec.version
+    }
+
+    it('installs the highest version rather than the last published', async () => {
+      await publishVersions(['2.0.0', '1.5.1'])
+      const proj = await createProject()
+
+      const result = await installFromRegistry('@test/example', { registry: registryUrl })
+      expect(result.ok).toBe(true)
+      expect(await installedVersion(proj)).toBe('2.0.0')
+
+      const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+      expect(manifest.dependencies['@test/example']).toBe('^2.0.0')
+    })
+
+    it('installs the highest version matching a range', async () => {
+      await publishVersions(['1.2.0', '2.0.0', '1.4.0'])
+      const proj = await createProject()
+
+      const result = await installFromRegistry('@test/example@^1.2.0', { registry: registryUrl })
+      expect(result.ok).toBe(true)
+      expect(await installedVersion(proj)).toBe('1.4.0')
+
+      const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+      expect(manifest.dependencies['@test/example']).toBe('^1.2.0')
+    })
+
+    it('resolves dist-tags', async () => {
+      await publishVersions(['1.0.0', '2.0.0'], { legacy: '1.0.0' })
+      const proj = await createProject()
+
+      const result = await installFromRegistry('@test/example@legacy', { registry: registryUrl })
+      expect(result.ok).toBe(true)
+      expect(await installedVersion(proj)).toBe('1.0.0')
+    })
+
+    it('lists available versions when nothing matches', async () => {
+      await publishVersions(['1.0.0', '1.1.0'])
+      await createProject()
+
+      const result = await installFromRegistry('@test/example@^3.0.0', { registry: registryUrl })
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error).toContain('No version of @test/example matches "^3.0.0"')
+        expect(result.error).toContain('1.0.0, 1.1.0')
+      }
+    })
+  })
+
+  describe('Transitive dependencies', () => {
+    const dirs: string[] = []
+    const originalCwd = process.cwd()
+
+    afterEach(async () => {
+      process.chdir(originalCwd)
+      for (const d of dirs) await rm(d, { recursive: true, force: true })
+      dirs.length = 0
+    })
+
+    async function publish(name: string, version: string, dependencies?: Record<string, string>) {
+      const specDir = await mkdtemp(join(tmpdir(), 'specpm-spec-'))
+      dirs.push(specDir)
+      const manifest = await createSpecDir(specDir, name, version, dependencies)
+      const [scope, pkg] = name.slice(1).split('/')
+      const res = await publishViaApi(scope, pkg, version, await createTarball(specDir), manifest)
+      expect(res.statusCode).toBe(201)
+    }
+
+    async function createProject(): Promise<string> {
+      const proj = await mkdtemp(join(tmpdir(), 'specpm-proj-'))
+      dirs.push(proj)
+      process.chdir(proj)
+      await initCommand({ yes: true })
+      return proj
+    }
+
+    it('installs dependencies of a registry package', async () => {
+      await publish('@data/errors', '1.0.0')
+      await publish('@data/errors', '1.3.0')
+      await publish('@data/errors', '2.0.0')
+      await publish('@data/pagination', '1.0.0', { '@data/errors': '^1.0.0' })
+      await publish('@auth/oauth2', '1.0.0', { '@data/pagination': '^1.0.0' })
+      const proj = await createProject()
+
+      const result = await installFromRegistry('@auth/oauth2', { registry: registryUrl })
+      expect(result.ok).toBe(true)
+
+      const errors = parseYaml(await readFile(join(proj, '.specpm', 'specs', '@data', 'errors', 'spec.yaml'), 'utf-8'))
+      expect(errors.version).toBe('1.3.0')
+      expect(await fileExists(join(proj, '.specpm', 'specs', '@data', 'pagination', 'spec.yaml'))).toBe(true)
+
+      // Only the requested package becomes a direct dependency
+      const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+      expect(Object.keys(manifest.dependencies)).toEqual(['@auth/oauth2'])
+
+      const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+      expect(Object.keys(lockfile.packages).sort()).toEqual([
+        '@auth/oauth2@1.0.0', '@data/errors@1.3.0', '@data/pagination@1.0.0',
+      ])
+    })
+
+    it('picks a version that satisfies every dependent', async () => {
+      await publish('@data/errors', '1.0.0')
+      await publish('@data/errors', '1.5.0')
+      await publish('@data/pagination', '1.0.0', { '@data/errors': '>=1.0.0' })
+      await publish('@api/rest', '1.0.0', { '@data/pagination': '^1.0.0', '@data/errors': '~1.0.0' })
+      const proj = await createProject()
+
+      const result = await installFromRegistry('@api/rest', { registry: registryUrl })
+      expect(result.ok).toBe(true)
+
+      const errors = parseYaml(await readFile(join(proj, '.specpm', 'specs', '@data', 'errors', 'spec.yaml'), 'utf-8'))
+      expect(errors.version).toBe('1.0.0')
+    })
+
+    it('reports conflicting ranges', async () => {
+      await publish('@data/errors', '1.0.0')
+      await publish('@data/errors', '2.0.0')
+      await publish('@data/pagination', '1.0.0', { '@data/errors': '^1.0.0' })
+      await publish('@api/rest', '1.0.0', { '@data/pagination': '^1.0.0', '@data/errors': '^2.0.0' })
+      const proj = await createProject()
+
+      const result = await installFromRegistry('@api/rest', { registry: registryUrl })
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error).toContain('Version conflict for @data/errors')
+        expect(result.error).toContain('required by @data/pagination@1.0.0')
+      }
+      expect(await fileExists(join(proj, '.specpm', 'specs', '@api', 'rest'))).toBe(false)
+    })
+
+    it('reports missing dependencies', async () => {
+      await publish('@auth/oauth2', '1.0.0', { '@data/missing': '^1.0.0' })
+      await createProject()
+
+      const result = await installFromRegistry('@auth/oauth2', { registry: registryUrl })
+      expect(result.ok).toBe(false)
+      if (!result.ok) expect(result.error).toContain('@data/missing not found')
+    })
+  })
+
+  describe('Frozen lockfile installs', () => {
+    const dirs: string[] = []
+    const originalCwd = process.cwd()
+
+    afterEach(async () => {
+      process.chdir(originalCwd)
+      for (const d of dirs) await rm(d, { recursive: true, force: true })
+      dirs.length = 0
+    })
+
+    async function publish(name: string, version: string, dependencies?: Record<string, string>) {
+      const specDir = await mkdtemp(join(tmpdir(), 'specpm-spec-'))
+      dirs.push(specDir)
+      const manifest = await createSpecDir(specDir, name, version, dependencies)
+      const [scope, pkg] = name.slice(1).split('/')
+      const res = await publishViaApi(scope, pkg, version, await createTarball(specDir), manifest)
+      expect(res.statusCode).toBe(201)
+    }
+
+    it('reinstalls the locked versions even after newer ones are published', async () => {
+      await publish('@data/errors', '1.0.0')
+      await publish('@data/pagination', '1.0.0', { '@data/errors': '^1.0.0' })
+      const proj = await mkdtemp(join(tmpdir(), 'specpm-proj-'))
+      dirs.push(proj)
+      process.chdir(proj)
+      await initCommand({ yes: true })
+      await installFromRegistry('@data/pagination', { registry: registryUrl })
+
+      const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+      expect(lockfile.packages['@data/errors@1.0.0'].resolved)
+        .toBe(`${registryUrl}/api/v1/packages/data/errors/1.0.0/tarball`)
+
+      await publish('@data/errors', '1.1.0')
+      await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+
+      const result = await installFromLockfile()
+      expect(result.ok).toBe(true)
+
+      const errors = parseYaml(await readFile(join(proj, '.specpm', 'specs', '@data', 'errors', 'spec.yaml'), 'utf-8'))
+      expect(errors.version).toBe('1.0.0')
+    })
+
+    it('bare install resolves from specpm.yaml when there is no lockfile', async () => {
+      await publish('@data/errors', '1.0.0')
+      await publish('@data/pagination', '1.0.0', { '@data/errors': '^1.0.0' })
+      const proj = await mkdtemp(join(tmpdir(), 'specpm-proj-'))
+      dirs.push(proj)
+      process.chdir(proj)
+      await initCommand({ yes: true })
+      await installFromRegistry('@data/pagination', { registry: registryUrl })
+
+      await publish('@data/errors', '1.1.0')
+      await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+      await rm(join(proj, 'specpm-lock.yaml'))
+
+      const result = await installAll({ registry: registryUrl })
+      expect(result.ok).toBe(true)
+
+      const errors = parseYaml(await readFile(join(proj, '.specpm', 'specs', '@data', 'errors', 'spec.yaml'), 'utf-8'))
+      expect(errors.version).toBe('1.1.0')
+      expect(await fileExists(join(proj, 'specpm-lock.yaml'))).toBe(true)
+    })
+  })
+
+  describe('Package cache', () => {
+    const dirs: string[] = []
+    const originalCwd = process.cwd()
+
+    afterEach(async () => {
+      process.chdir(originalCwd)
+      for (const d of dirs) await rm(d, { recursive: true, force: true })
+      dirs.length = 0
+    })
+
+    async function publish(name: string, version: string, dependencies?: Record<string, string>) {
+      const specDir = await mkdtemp(join(tmpdir(), 'specpm-spec-'))
+      dirs.push(specDir)
+      const manifest = await createSpecDir(specDir, name, version, dependencies)
+      const [scope, pkg] = name.slice(1).split('/')
+      const res = await publishViaApi(scope, pkg, version, await createTarball(specDir), manifest)
+      expect(res.statusCode).toBe(201)
+    }
+
+    async function setup(): Promise<string> {
+      await publish('@data/errors', '1.0.0')
+      await publish('@data/pagination', '1.0.0', { '@data/errors': '^1.0.0' })
+      const proj = await mkdtemp(join(tmpdir(), 'specpm-proj-'))
+      dirs.push(proj)
+      process.chdir(proj)
+      await initCommand({ yes: true })
+      const result = await installFromRegistry('@data/pagination', { registry: registryUrl })
+      expect(result.ok).toBe(true)
+      return proj
+    }
+
+    it('caches downloaded tarballs by integrity', async () => {
+      await setup()
+      const entries = await listCacheEntries()
+      expect(entries.map(e => `${e.name}@${e.version}`)).toEqual(['@data/errors@1.0.0', '@data/pagination@1.0.0'])
+
+      const meta = await (await fetch(`${registryUrl}/api/v1/packages/data/errors`)).json() as any
+      expect(entries[0].integrity).toBe(meta.versions['1.0.0'].integrity)
+    })
+
+    it('installs from the cache with --offline once the registry is gone', async () => {
+      const proj = await setup()
+      await app.close()
+
+      // Lockfile restore finds tarballs by their recorded URL
+      await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+      const restored = await installFromLockfile({ offline: true })
+      expect(restored.ok).toBe(true)
+      expect(await fileExists(join(proj, '.specpm', 'specs', '@data', 'errors', 'spec.yaml'))).toBe(true)
+
+      // Registry installs resolve from cached metadata
+      await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+      const installed = await installFromRegistry('@data/pagination', { registry: registryUrl, offline: true })
+      expect(installed.ok).toBe(true)
+      expect(await fileExists(join(proj, '.specpm', 'specs', '@data', 'pagination', 'spec.yaml'))).toBe(true)
+    })
+
+    it('fails offline installs of packages that are not cached', async () => {
+      await setup()
+      const result = await installFromRegistry('@data/other', { registry: registryUrl, offline: true })
+      expect(result.ok).toBe(false)
+      if (!result.ok) expect(result.error).toContain('not in the cache (offline)')
+    })
+
+    it('prefers cached metadata with --prefer-offline', async () => {
+      await setup()
+      await publish('@data/errors', '1.1.0')
+
+      // The cached metadata does not know about 1.1.0 yet
+      const cached = await installFromRegistry('@data/errors', { registry: registryUrl, preferOffline: true })
+      expect(cached.ok).toBe(true)
+      const manifest = parseYaml(await readFile('specpm.yaml', 'utf-8'))
+      expect(manifest.dependencies['@data/errors']).toBe('^1.0.0')
+
+      const online = await installFromRegistry('@data/errors', { registry: registryUrl })
+      expect(online.ok).toBe(true)
+      expect(parseYaml(await readFile('specpm.yaml', 'utf-8')).dependencies['@data/errors']).toBe('^1.1.0')
+    })
+  })
+
+  describe('Scoped registries', () => {
+    const dirs: string[] = []
+    const originalCwd = process.cwd()
+    let acme: FastifyInstance
+    let acmeUrl: string
+
+    beforeEach(async () => {
+      const acmeData = await mkdtemp(join(tmpdir(), 'specpm-acme-reg-'))
+      dirs.push(acmeData)
+      acme = await createServer({ dataDir: acmeData })
+      await acme.listen({ port: 0 })
+      const address = acme.server.address()
+      acmeUrl = `http://127.0.0.1:${typeof address === 'object' ? address!.port : 0}`
+
+      const loginRes = await fetch(`${acmeUrl}/api/v1/auth/login`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ username: 'acme', password: 'acmepass' }),
+      })
+      process.env.SPECPM_TOKEN_ACME = (await loginRes.json() as any).token
+    })
+
+    afterEach(async () => {
+      process.chdir(originalCwd)
+      delete process.env.SPECPM_TOKEN_ACME
+      await acme.close()
+      for (const d of dirs) await rm(d, { recursive: true, force: true })
+      dirs.length = 0
+    })
+
+    async function createProject(): Promise<string> {
+      const proj = await mkdtemp(join(tmpdir(), 'specpm-proj-'))
+      dirs.push(proj)
+      process.chdir(proj)
+      await initCommand({ yes: true })
+      const manifest = parseYaml(await readFile('specpm.yaml', 'utf-8'))
+      manifest.registries = { '@acme': acmeUrl, default: registryUrl }
+      await writeFile('specpm.yaml', stringify(manifest))
+      return proj
+    }
+
+    async function createSpec(name: string, version: string, dependencies?: Record<string, string>): Promise<string> {
+      const specDir = await mkdtemp(join(tmpdir(), 'specpm-spec-'))
+      dirs.push(specDir)
+      await createSpecDir(specDir, name, version, dependencies)
+      return specDir
+    }
+
+    it('publishes to the scope registry with SPECPM_TOKEN_<SCOPE>', async () => {
+      await createProject()
+      const result = await publishCommand(await createSpec('@acme/errors', '1.0.0'))
+      expect(result.ok).toBe(true)
+
+      expect((await fetch(`${acmeUrl}/api/v1/packages/acme/errors`)).ok).toBe(true)
+      expect((await fetch(`${registryUrl}/api/v1/packages/acme/errors`)).status).toBe(404)
+    })
+
+    it('fails to publish without a token for the scope registry', async () => {
+      await createProject()
+      delete process.env.SPECPM_TOKEN_ACME
+      const result = await publishCommand(await createSpec('@acme/errors', '1.0.0'))
+      expect(result.ok).toBe(false)
+      if (!result.ok) expect(result.error).toContain('SPECPM_TOKEN_ACME')
+    })
+
+    it('installs each package from the registry serving its scope', async () => {
+      await createProject()
+      expect((await publishCommand(await createSpec('@acme/errors', '1.0.0'))).ok).toBe(true)
+      const pagination = await createSpec('@data/pagination', '1.0.0', { '@acme/errors': '^1.0.0' })
+      const manifest = parseYaml(await readFile(join(pagination, 'spec.yaml'), 'utf-8'))
+      const res = await publishViaApi('data', 'pagination', '1.0.0', await createTarball(pagination), manifest)
+      expect(res.statusCode).toBe(201)
+
+      const result = await installFromRegistry('@data/pagination')
+      expect(result.ok).toBe(true)
+
+      const lockfile = parseYaml(await readFile('specpm-lock.yaml', 'utf-8'))
+      expect(lockfile.packages['@acme/errors@1.0.0'].resolved).toBe(`${acmeUrl}/api/v1/packages/acme/errors/1.0.0/tarball`)
+      expect(lockfile.packages['@data/pagination@1.0.0'].resolved).toBe(`${registryUrl}/api/v1/packages/data/pagination/1.0.0/tarball`)
+    })
+
+    it('searches the registry configured for --scope', async () => {
+      await createProject()
+      expect((await publishCommand(await createSpec('@acme/errors', '1.0.0'))).ok).toBe(true)
+
+      const scoped = await searchCommand('errors', { json: true, scope: '@acme' })
+      expect(scoped.ok).toBe(true)
+      if (scoped.ok) expect(scoped.value.results.map(r => r.name)).toContain('@acme/errors')
+
+      const unscoped = await searchCommand('errors', { json: true })
+      expect(unscoped.ok).toBe(true)
+      if (unscoped.ok) expect(unscoped.value.results).toHaveLength(0)
+    })
+  })
+
+  describe('Outdated and update', () => {
+    const dirs: string[] = []
+    const originalCwd = process.cwd()
+
+    afterEach(async () => {
+      process.chdir(originalCwd)
+      for (const d of dirs) await rm(d, { recursive: true, force: true })
+      dirs.length = 0
+    })
+
+    async function publish(name: string, version: string, dependencies?: Record<string, string>) {
+      const specDir = await mkdtemp(join(tmpdir(), 'specpm-spec-'))
+      dirs.push(specDir)
+      const manifest = await createSpecDir(specDir, name, version, dependencies)
+      const [scope, pkg] = name.slice(1).split('/')
+      const res = await publishViaApi(scope, pkg, version, await createTarball(specDir), manifest)
+      expect(res.statusCode).toBe(201)
+    }
+
+    async function setup(): Promise<string> {
+      await publish('@data/errors', '1.0.0')
+      const proj = await mkdtemp(join(tmpdir(), 'specpm-proj-'))
+      dirs.push(proj)
+      process.chdir(proj)
+      await initCommand({ yes: true })
+      await installFromRegistry('@data/errors', { registry: registryUrl })
+      await publish('@data/errors', '1.1.0')
+      await publish('@data/errors', '2.0.0')
+      return proj
+    }
+
+    async function installedVersion(proj: string, name: string): Promise<string> {
+      const [scope, pkg] = name.slice(1).split('/')
+      const spec = parseYaml(await readFile(join(proj, '.specpm', 'specs', `@${scope}`, pkg, 'spec.yaml'), 'utf-8'))
+      return spec.version
+    }
+
+    it('reports current, wanted and latest versions', async () => {
+      await setup()
+
+      const result = await outdatedCommand({ registry: registryUrl, json: true })
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.value).toEqual([{
+          name: '@data/errors',
+          current: '1.0.0',
+          wanted: '1.1.0',
+          latest: '2.0.0',
+          range: '^1.0.0',
+          type: 'dependencies',
+        }])
+      }
+    })
+
+    it('updates to the wanted version within the declared range', async () => {
+      const proj = await setup()
+
+      const result = await updateCommand(undefined, { registry: registryUrl })
+      expect(result.ok).toBe(true)
+
+      expect(await installedVersion(proj, '@data/errors')).toBe('1.1.0')
+      const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+      expect(manifest.dependencies['@data/errors']).toBe('^1.0.0')
+      const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+      expect(Object.keys(lockfile.packages)).toEqual(['@data/errors@1.1.0'])
+    })
+
+    it('updates to latest and widens the range with --latest', async () => {
+      const proj = await setup()
+
+      const result = await updateCommand('@data/errors', { registry: registryUrl, latest: true })
+      expect(result.ok).toBe(true)
+
+      expect(await installedVersion(proj, '@data/errors')).toBe('2.0.0')
+      const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+      expect(manifest.dependencies['@data/errors']).toBe('^2.0.0')
+    })
+
+    it('refuses updates that break another installed spec', async () => {
+      const proj = await setup()
+      await publish('@data/pagination', '1.0.0', { '@data/errors': '^1.0.0' })
+      await installFromRegistry('@data/pagination', { registry: registryUrl })
+
+      const result = await updateCommand('@data/errors', { registry: registryUrl, latest: true })
+      expect(result.ok).toBe(false)
+      if (!result.ok) expect(result.error).toContain('Version conflict for @data/errors')
+      expect(await installedVersion(proj, '@data/errors')).toBe('1.0.0')
+    })
+
+    it('rejects packages that are not dependencies', async () => {
+      await setup()
+
+      const result = await updateCommand('@data/other', { registry: registryUrl })
+      expect(result.ok).toBe(false)
+      if (!result.ok) expect(result.error).toContain('not a dependency')
+    })
+  })
+
+  describe('Aliases and replacements', () => {
+    const dirs: string[] = []
+    const originalCwd = process.cwd()
+
+    afterEach(async () => {
+      process.chdir(originalCwd)
+      for (const d of dirs) await rm(d, { recursive: true, force: true })
+      dirs.length = 0
+    })
+
+    async function publish(name: string, version: string, dependencies?: Record<string, string>) {
+      const specDir = await mkdtemp(join(tmpdir(), 'specpm-spec-'))
+      dirs.push(specDir)
+      const manifest = await createSpecDir(specDir, name, version, dependencies)
+      const [scope, pkg] = name.slice(1).split('/')
+      const res = await publishViaApi(scope, pkg, version, await createTarball(specDir), manifest)
+      expect(res.statusCode).toBe(201)
+    }
+
+    async function createProject(overrides?: Record<string, unknown>): Promise<string> {
+      const proj = await mkdtemp(join(tmpdir(), 'specpm-proj-'))
+      dirs.push(proj)
+      process.chdir(proj)
+      await initCommand({ yes: true })
+      if (overrides) {
+        const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+        await writeFile(join(proj, 'specpm.yaml'), stringify({ ...manifest, overrides }))
+      }
+      return proj
+    }
+
+    async function installedSpecs(proj: string): Promise<string[]> {
+      const result = await listInstalledSpecs(proj)
+      return result.ok
+        ? result.value.map(spec => `${spec.manifest.name}@${spec.manifest.version}${spec.aliasOf ? ` (${spec.aliasOf})` : ''}`).sort()
+        : []
+    }
+
+    it('installs a package under an alias', async () => {
+      await publish('@acme/pagination', '2.0.0')
+      await publish('@acme/pagination', '2.1.0')
+      const proj = await createProject()
+
+      const result = await installFromRegistry('@data/pagination@npm:@acme/pagination@^2', { registry: registryUrl })
+      expect(result.ok).toBe(true)
+
+      expect(await installedSpecs(proj)).toEqual(['@data/pagination@2.1.0 (@acme/pagination)'])
+      const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+      expect(manifest.dependencies).toEqual({ '@data/pagination': 'npm:@acme/pagination@^2' })
+      const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+      expect(lockfile.packages['@data/pagination@2.1.0'].package).toBe('@acme/pagination')
+      expect(lockfile.packages['@data/pagination@2.1.0'].resolved)
+        .toBe(`${registryUrl}/api/v1/packages/acme/pagination/2.1.0/tarball`)
+
+      // A fresh checkout restores the alias from the lockfile, and a bare install finds nothing to do
+      await rm(join(proj, '.specpm'), { recursive: true })
+      expect((await installFromLockfile()).ok).toBe(true)
+      expect(await installedSpecs(proj)).toEqual(['@data/pagination@2.1.0 (@acme/pagination)'])
+      const all = await installAll({ registry: registryUrl })
+      expect(all.ok && all.value).toEqual([])
+    })
+
+    it('replaces a package every spec depends on with a fork', async () => {
+      await publish('@data/pagination', '1.0.0')
+      await publish('@acme/pagination', '1.5.0')
+      await publish('@api/rest', '1.0.0', { '@data/pagination': '^1.0.0' })
+      const proj = await createProject({ '@data/pagination': { replace: 'npm:@acme/pagination@^1.5.0' } })
+
+      const result = await installFromRegistry('@api/rest', { registry: registryUrl })
+      expect(result.ok).toBe(true)
+      expect(await installedSpecs(proj)).toEqual(['@api/rest@1.0.0', '@data/pagination@1.5.0 (@acme/pagination)'])
+
+      // The lockfile agrees with specpm.yaml, so a frozen install accepts it
+      await rm(join(proj, '.specpm'), { recursive: true })
+      expect((await installFromLockfile()).ok).toBe(true)
+      expect(await installedSpecs(proj)).toEqual(['@api/rest@1.0.0', '@data/pagination@1.5.0 (@acme/pagination)'])
+
+      // Dropping the replacement puts the lockfile out of date, and a bare install goes back to the original
+      const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+      delete manifest.overrides
+      await writeFile(join(proj, 'specpm.yaml'), stringify(manifest))
+      const frozen = await installFromLockfile()
+      expect(frozen.ok).toBe(false)
+      if (!frozen.ok) expect(frozen.error).toContain('@data/pagination in specpm-lock.yaml is @acme/pagination, not @data/pagination')
+      expect((await installAll({ registry: registryUrl })).ok).toBe(true)
+      expect(await installedSpecs(proj)).toEqual(['@api/rest@1.0.0', '@data/pagination@1.0.0'])
+    })
+
+    it('replaces a package with a local directory, read live by context and ls', async () => {
+      await publish('@data/pagination', '1.0.0')
+      await publish('@api/rest', '1.0.0', { '@data/pagination': '^1.0.0' })
+      const proj = await createProject({ '@data/pagination': { replace: './local-specs/pagination' } })
+      const local = join(proj, 'local-specs', 'pagination')
+      await mkdir(local, { recursive: true })
+      await writeFile(join(local, 'spec.yaml'), stringify({
+        name: '@acme/pagination', version: '3.0.0', description: 'Cursor pagination, our way', author: 'acme', license: 'MIT',
+      }))
+
+      const result = await installFromRegistry('@api/rest', { registry: registryUrl })
+      expect(result.ok).toBe(true)
+      expect(await installedSpecs(proj)).toEqual(['@api/rest@1.0.0', '@data/pagination@3.0.0 (@acme/pagination)'])
+
+      const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+      expect(lockfile.packages['@data/pagination@3.0.0']).toEqual({
+        package: '@acme/pagination',
+        resolved: 'link:local-specs/pagination',
+        dependencies: {},
+      })
+
+      await writeFile(join(local, 'spec.yaml'), stringify({
+        name: '@acme/pagination', version: '3.0.0', description: 'Keyset pagination', author: 'acme', license: 'MIT',
+      }))
+      await contextCommand({ target: 'claude' })
+      const context = await readFile(join(proj, 'CLAUDE.md'), 'utf-8')
+      expect(context).toContain('## @data/pagination v3.0.0')
+      expect(context).toContain('_Provided by @acme/pagination._')
+      expect(context).toContain('Keyset pagination')
+
+      const ls = await lsCommand({ tree: true, json: true })
+      expect(ls.ok && ls.value.problems).toEqual([])
+    })
+
+    it('rejects a malformed replacement', async () => {
+      await publish('@api/rest', '1.0.0')
+      await createProject({ '@data/pagination': { replace: 'npm:pagination' } })
+
+      const result = await installAll({ registry: registryUrl })
+      expect(result.ok).toBe(false)
+      if (!result.ok) expect(result.error).toContain('Invalid replace for @data/pagination')
+    })
+  })
+
+  describe('Install-time quality summary', () => {
+    const dirs: string[] = []
+    const originalCwd = process.cwd()
+
+    beforeEach(() => {
+      process.env.SPECPM_TOKEN_AUTH = token
+    })
+
+    afterEach(async () => {
+      process.chdir(originalCwd)
+      delete process.env.SPECPM_TOKEN_AUTH
+      vi.restoreAllMocks()
+      for (const d of dirs) await rm(d, { recursive: true, force: true })
+      dirs.length = 0
+    })
+
+    /** Publish through `specpm publish`, so the registry records a verification summary */
+    async function publishVerified(name: string, version: string, constraintEntity = 'User') {
+      const specDir = await mkdtemp(join(tmpdir(), 'specpm-spec-'))
+      dirs.push(specDir)
+      await createSpecDir(specDir, name, version)
+      const manifest = parseYaml(await readFile(join(specDir, 'spec.yaml'), 'utf-8'))
+      await mkdir(join(specDir, 'entities'))
+      await writeFile(join(specDir, 'entities', 'user.schema.json'), JSON.stringify({ title: 'User', type: 'object' }))
+      await writeFile(join(specDir, 'constraints.yaml'), stringify({ constraints: [
+        { id: 'user-id', description: 'Users have ids', type: 'entity', severity: 'error', check: { entity: constraintEntity } },
+      ] }))
+      await writeFile(join(specDir, 'spec.yaml'), stringify({
+        ...manifest, entities: ['entities/user.schema.json'], constraints: 'constraints.yaml',
+      }))
+      const result = await publishCommand(specDir, { registry: registryUrl })
+      expect(result.ok).toBe(true)
+    }
+
+    async function createProject(): Promise<string> {
+      const proj = await mkdtemp(join(tmpdir(), 'specpm-proj-'))
+      dirs.push(proj)
+      process.chdir(proj)
+      await initCommand({ yes: true })
+      return proj
+    }
+
+    it('shows verification, publisher and contents before installing', async () => {
+      await publishVerified('@auth/users', '1.0.0')
+      await createProject()
+      const output: string[] = []
+      vi.spyOn(console, 'error').mockImplementation((...args) => { output.push(args.join(' ')) })
+
+      const result = await installFromRegistry('@auth/users', { registry: registryUrl })
+      expect(result.ok).toBe(true)
+
+      const summary = output.join('\n')
+      expect(summary).toContain('@auth/users@1.0.0')
+      expect(summary).toMatch(/Verification: L1 \(self-reported\) · Published by testuser on \d{4}-\d{2}-\d{2}/)
+      expect(summary).toContain('Contents: 1 entity, 0 state machines, 1 constraint')
+      expect(summary).not.toContain('Deprecated')
+      // The summary comes before the install
+      expect(output.findIndex(line => line.includes('Verification:')))
+        .toBeLessThan(output.findIndex(line => line.includes('Installed @auth/users')))
+    })
+
+    it('warns about deprecated versions', async () => {
+      await publishVerified('@auth/users', '1.0.0')
+      await fetch(`${registryUrl}/api/v1/packages/auth/users/1.0.0/deprecate`, {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+        body: JSON.stringify({ message: 'Use @auth/accounts' }),
+      })
+      await createProject()
+      const output: string[] = []
+      vi.spyOn(console, 'error').mockImplementation((...args) => { output.push(args.join(' ')) })
+
+      expect((await installFromRegistry('@auth/users', { registry: registryUrl, dryRun: true })).ok).toBe(true)
+      expect(output.join('\n')).toContain('Deprecated: Use @auth/accounts')
+    })
+
+    it('refuses packages below --min-level before writing anything', async () => {
+      // A constraint on an undeclared entity fails L1, so this version is published as L0
+      await publishVerified('@auth/users', '1.0.0', 'Account')
+      const proj = await createProject()
+      const manifestBefore = await readFile(join(proj, 'specpm.yaml'), 'utf-8')
+
+      const refused = await installFromRegistry('@auth/users', { registry: registryUrl, minLevel: 'L1' })
+      expect(refused.ok).toBe(false)
+      if (!refused.ok) expect(refused.error).toContain('@auth/users@1.0.0: L0 (self-reported)')
+      expect(await fileExists(join(proj, '.specpm', 'specs', '@auth'))).toBe(false)
+      expect(await readFile(join(proj, 'specpm.yaml'), 'utf-8')).toBe(manifestBefore)
+
+      expect((await installFromRegistry('@auth/users', { registry: registryUrl, minLevel: '0' })).ok).toBe(true)
+      const invalid = await installFromRegistry('@auth/users', { registry: registryUrl, minLevel: 'high' })
+      expect(invalid.ok).toBe(false)
+    })
+
+    it('accepts a self-reported level for --min-level', async () => {
+      await publishVerified('@auth/users', '1.0.0')
+      await createProject()
+      expect((await installFromRegistry('@auth/users', { registry: registryUrl, minLevel: 'L1' })).ok).toBe(true)
+    })
+
+    it('does not let a self-reported level claim more than L1', async () => {
+      const specDir = await mkdtemp(join(tmpdir(), 'specpm-spec-'))
+      dirs.push(specDir)
+      const manifest = await createSpecDir(specDir, '@auth/users', '1.0.0')
+      await publishViaApi('auth', 'users', '1.0.0', await createTarball(specDir), manifest, undefined,
+        { level: 3, entities: 0, states: 0, constraints: 0 })
+      await createProject()
+
+      const refused = await installFromRegistry('@auth/users', { registry: registryUrl, minLevel: 'L3' })
+      expect(refused.ok).toBe(false)
+      if (!refused.ok) expect(refused.error).toContain('@auth/users@1.0.0: L1 (self-reported)')
+    })
+
+    it('enforces check.required-level from specpm-team.yaml, including dependencies', async () => {
+      await publishVerified('@auth/users', '1.0.0')
+      // Published straight through the API: no verification recorded
+      const specDir = await mkdtemp(join(tmpdir(), 'specpm-spec-'))
+      dirs.push(specDir)
+      const manifest = await createSpecDir(specDir, '@auth/sessions', '1.0.0', { '@auth/users': '^1.0.0' })
+      await publishViaApi('auth', 'sessions', '1.0.0', await createTarball(specDir), manifest)
+      const proj = await createProject()
+      await writeFile(join(proj, 'specpm-team.yaml'), stringify({ check: { 'required-level': 1 } }))
+
+      // Levels the publisher reported don't meet the team policy
+      const selfReported = await installFromRegistry('@auth/users', { registry: registryUrl })
+      expect(selfReported.ok).toBe(false)
+      if (!selfReported.ok) expect(selfReported.error).toContain('@auth/users@1.0.0: L1 (self-reported)')
+      const refused = await installFromRegistry('@auth/sessions', { registry: registryUrl })
+      expect(refused.ok).toBe(false)
+      if (!refused.ok) expect(refused.error).toContain('@auth/sessions@1.0.0: unverified')
+
+      // A bare install is held to the same policy
+      const projectManifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+      projectManifest.dependencies['@auth/sessions'] = '^1.0.0'
+      await writeFile(join(proj, 'specpm.yaml'), stringify(projectManifest))
+      const all = await installAll({ registry: registryUrl })
+      expect(all.ok).toBe(false)
+      if (!all.ok) expect(all.error).toContain('below the required verification level L1')
+    })
+  })
+
   // Task 2.6: Publish command
   describe('Task 2.6: Publish command', () => {
     it('dry-run does not upload', async () => {
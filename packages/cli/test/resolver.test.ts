@@ -2,7 +2,8 @@ import { describe, it, expect, afterEach } from 'vitest'
 import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
-import { satisfiesRange, resolveDependencies } from '../src/lib/resolver.js'
+import { satisfiesRange, maxSatisfying, resolveDependencies, resolveRegistryDependencies, findPeerIssues } from '../src/lib/resolver.js'
+import type { RegistryPackageMetadata } from '../src/lib/registry-client.js'
 
 function makeSpec(name: string, version: string, deps: Record<string, string> = {}): string {
   const depsYaml = Object.keys(deps).length > 0
@@ -58,6 +59,33 @@ describe('satisfiesRange', () => {
   it('wildcard', () => {
     expect(satisfiesRange('99.99.99', '*')).toBe(true)
   })
+
+  it('compound ranges', () => {
+    expect(satisfiesRange('1.5.0', '>=1.2.0 <2.0.0')).toBe(true)
+    expect(satisfiesRange('1.3.0', '1.2 - 1.4')).toBe(true)
+    expect(satisfiesRange('2.1.0', '^1.0.0 || ^2.0.0')).toBe(true)
+    expect(satisfiesRange('1.7.0', '1.x')).toBe(true)
+  })
+
+  it('prereleases only match ranges that name them', () => {
+    expect(satisfiesRange('1.1.0-beta.1', '^1.0.0')).toBe(false)
+    expect(satisfiesRange('1.1.0-beta.2', '^1.1.0-beta.1')).toBe(true)
+  })
+})
+
+describe('maxSatisfying', () => {
+  it('picks the highest matching version regardless of order', () => {
+    expect(maxSatisfying(['1.2.0', '2.0.0', '1.10.0', '1.3.5'], '^1.2.0')).toBe('1.10.0')
+  })
+
+  it('returns null when nothing matches', () => {
+    expect(maxSatisfying(['1.0.0', '1.1.0'], '^2.0.0')).toBeNull()
+  })
+
+  it('orders versions produced by `specpm version --preid`', () => {
+    expect(maxSatisfying(['1.1.0-beta.2', '1.1.0-beta.10', '1.1.0-beta.9'], '^1.1.0-beta.1')).toBe('1.1.0-beta.10')
+    expect(maxSatisfying(['1.1.0-beta.10', '1.1.0'], '^1.1.0-beta.1')).toBe('1.1.0')
+  })
 })
 
 describe('resolveDependencies', () => {
@@ -129,3 +157,117 @@ describe('resolveDependencies', () => {
     if (result.ok) expect(result.value).toEqual([])
   })
 })
+
+describe('resolveRegistryDependencies', () => {
+  const dirs: string[] = []
+  afterEach(async () => {
+    for (const d of dirs) await rm(d, { recursive: true, force: true })
+    dirs.length = 0
+  })
+
+  function fakeRegistry(packages: Record<string, Record<string, Record<string, string>>>) {
+    const fetched: string[] = []
+    const fetchMetadata = async (name: string) => {
+      fetched.push(name)
+      const versions = packages[name]
+      if (!versions) return { ok: false as const, error: `Package ${name} not found in registry` }
+      const meta: RegistryPackageMetadata = { name, versions: {} }
+      for (const [version, dependencies] of Object.entries(versions)) {
+        meta.versions[version] = {
+          version,
+          manifest: { name, version, description: 'Test', author: 'test', license: 'MIT', dependencies },
+          integrity: 'sha256-test',
+          size: 0,
+          publishedAt: '',
+          tarballUrl: '',
+        }
+      }
+      return { ok: true as const, value: meta }
+    }
+    return { fetched, fetchMetadata }
+  }
+
+  it('orders dependencies before dependents', async () => {
+    const dir = await createProjectWithSpecs([])
+    dirs.push(dir)
+    const registry = fakeRegistry({
+      '@test/a': { '1.0.0': { '@test/b': '^1.0.0' } },
+      '@test/b': { '1.0.0': { '@test/c': '^1.0.0' } },
+      '@test/c': { '1.0.0': {}, '1.2.0': {} },
+    })
+
+    const result = await resolveRegistryDependencies({ '@test/a': '1.0.0' }, registry.fetchMetadata, dir)
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.map(p => `${p.name}@${p.version}`)).toEqual(['@test/c@1.2.0', '@test/b@1.0.0', '@test/a@1.0.0'])
+    }
+  })
+
+  it('reuses installed packages that satisfy the range', async () => {
+    const dir = await createProjectWithSpecs([{ name: '@test/b', version: '1.1.0' }])
+    dirs.push(dir)
+    const registry = fakeRegistry({
+      '@test/a': { '1.0.0': { '@test/b': '^1.0.0' } },
+      '@test/b': { '1.1.0': {}, '1.2.0': {} },
+    })
+
+    const result = await resolveRegistryDependencies({ '@test/a': '1.0.0' }, registry.fetchMetadata, dir)
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      const b = result.value.find(p => p.name === '@test/b')!
+      expect(b.installed).toBe(true)
+      expect(b.version).toBe('1.1.0')
+    }
+    expect(registry.fetched).not.toContain('@test/b')
+  })
+
+  it('reports conflicting ranges with the version each would pick', async () => {
+    const dir = await createProjectWithSpecs([])
+    dirs.push(dir)
+    // 1.4.0 is still in the store from an earlier install
+    await mkdir(join(dir, '.specpm', 'store', '@test', 'c@1.4.0'), { recursive: true })
+    const registry = fakeRegistry({
+      '@test/a': { '1.0.0': { '@test/c': '^1.0.0' } },
+      '@test/b': { '1.0.0': { '@test/c': '^2.0.0' } },
+      '@test/c': { '1.4.0': {}, '2.1.0': {} },
+    })
+
+    const result = await resolveRegistryDependencies({ '@test/a': '1.0.0', '@test/b': '1.0.0' }, registry.fetchMetadata, dir)
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.type).toBe('version-conflict')
+      expect(result.error.message).toContain('^1.0.0 (required by @test/a@1.0.0) → 1.4.0 (in store)')
+      expect(result.error.message).toContain('^2.0.0 (required by @test/b@1.0.0) → 2.1.0')
+    }
+  })
+})
+
+describe('findPeerIssues', () => {
+  const manifest = (name: string, version: string, peerDependencies?: Record<string, string>) =>
+    ({ name, version, description: 'Test', author: 'test', license: 'MIT', peerDependencies })
+
+  it('accepts peers that are installed in range', () => {
+    const issues = findPeerIssues([
+      manifest('@data/pagination', '1.0.0', { '@api/errors': '^2.0.0' }),
+      manifest('@api/errors', '2.1.0'),
+    ])
+    expect(issues).toEqual([])
+  })
+
+  it('reports missing peers and which package requires them', () => {
+    const issues = findPeerIssues([manifest('@data/pagination', '1.0.0', { '@api/errors': '^2.0.0' })])
+    expect(issues).toHaveLength(1)
+    expect(issues[0].installed).toBeNull()
+    expect(issues[0].message).toBe('@data/pagination@1.0.0 requires peer @api/errors@^2.0.0, but it is not installed')
+  })
+
+  it('reports peers outside the declared range', () => {
+    const issues = findPeerIssues([
+      manifest('@data/pagination', '1.0.0', { '@api/errors': '^2.0.0' }),
+      manifest('@api/errors', '1.4.0'),
+    ])
+    expect(issues).toHaveLength(1)
+    expect(issues[0].installed).toBe('1.4.0')
+    expect(issues[0].message).toContain('but 1.4.0 is installed')
+  })
+})
@@ -0,0 +1,221 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtemp, rm, mkdir, writeFile, readFile, access } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { execFileSync, execSync } from 'node:child_process'
+import { parse as parseYaml, stringify } from 'yaml'
+import { initCommand } from '../src/commands/init.js'
+import { installFromSource, installFromLockfile, installAll } from '../src/commands/install.js'
+import { parsePackageSource, isSourceSpecifier, isRegistryTarball } from '../src/lib/sources.js'
+
+async function fileExists(p: string): Promise<boolean> {
+  try { await access(p); return true } catch { return false }
+}
+
+function specYaml(version: string): string {
+  return stringify({ name: '@test/example', version, description: 'Test spec', author: 'test', license: 'MIT' })
+}
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+    cwd, stdio: 'pipe', encoding: 'utf-8',
+  }).trim()
+}
+
+/** A monorepo with the spec under specs/example, tagged v1.0.0 and then bumped to 1.1.0 */
+async function createGitRepo(): Promise<{ repo: string; v1: string }> {
+  const repo = await mkdtemp(join(tmpdir(), 'specpm-repo-'))
+  await mkdir(join(repo, 'specs', 'example'), { recursive: true })
+  git(repo, 'init', '--quiet')
+  await writeFile(join(repo, 'specs', 'example', 'spec.yaml'), specYaml('1.0.0'))
+  git(repo, 'add', '-A')
+  git(repo, 'commit', '--quiet', '-m', 'v1')
+  git(repo, 'tag', 'v1.0.0')
+  const v1 = git(repo, 'rev-parse', 'HEAD')
+  await writeFile(join(repo, 'specs', 'example', 'spec.yaml'), specYaml('1.1.0'))
+  git(repo, 'commit', '--quiet', '-am', 'v1.1')
+  return { repo, v1 }
+}
+
+async function createProject(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'specpm-proj-'))
+  process.chdir(dir)
+  await initCommand({ yes: true })
+  return dir
+}
+
+describe('parsePackageSource', () => {
+  function parsed(source: string) {
+    const result = parsePackageSource(source)
+    return result.ok ? result.value : result.error
+  }
+
+  it('parses git URLs with a ref and path', () => {
+    expect(parsed('git+https://example.com/org/specs.git#v1.2.0&path:specs/auth')).toEqual({
+      type: 'git', url: 'https://example.com/org/specs.git', ref: 'v1.2.0', path: 'specs/auth',
+    })
+    expect(parsed('git+file:///srv/specs')).toEqual({ type: 'git', url: 'file:///srv/specs' })
+  })
+
+  it('expands github shorthand', () => {
+    expect(parsed('github:acme/specs/packages/auth#main')).toEqual({
+      type: 'git', url: 'https://github.com/acme/specs.git', ref: 'main', path: 'packages/auth',
+    })
+    expect(parsed('github:acme/auth-spec')).toEqual({ type: 'git', url: 'https://github.com/acme/auth-spec.git' })
+  })
+
+  it('recognizes tarballs and ignores other sources', () => {
+    expect(parsed('./dist/auth-1.0.0.tgz')).toEqual({ type: 'tarball', path: './dist/auth-1.0.0.tgz' })
+    expect(parsed('file:dist/auth-1.0.0.tgz')).toEqual({ type: 'tarball', path: 'dist/auth-1.0.0.tgz' })
+    expect(parsed('https://cdn.example.com/auth.tar.gz')).toEqual({ type: 'tarball-url', url: 'https://cdn.example.com/auth.tar.gz' })
+    expect(parsed('./specs/auth')).toBeNull()
+    expect(parsed('@auth/oauth2')).toBeNull()
+  })
+
+  it('reports a source URL that does not parse instead of throwing', () => {
+    expect(parsePackageSource('https://')).toEqual({ ok: false, error: 'Invalid source URL: https://' })
+    expect(isSourceSpecifier('https://')).toBe(true)
+  })
+
+  it('tells registry tarballs from other sources', () => {
+    expect(isRegistryTarball('https://registry.specpm.dev/api/v1/packages/auth/oauth2/1.0.0/tarball')).toBe(true)
+    expect(isRegistryTarball('https://cdn.example.com/auth.tgz')).toBe(false)
+    expect(isRegistryTarball('git+https://example.com/specs.git#abc')).toBe(false)
+  })
+})
+
+describe('specpm install (git and tarball sources)', () => {
+  const dirs: string[] = []
+  const originalCwd = process.cwd()
+
+  afterEach(async () => {
+    process.chdir(originalCwd)
+    for (const d of dirs) await rm(d, { recursive: true, force: true })
+    dirs.length = 0
+  })
+
+  it('installs from a git repository at a tag and locks the commit', async () => {
+    const { repo, v1 } = await createGitRepo()
+    const proj = await createProject()
+    dirs.push(repo, proj)
+
+    const result = await installFromSource(`git+file://${repo}#v1.0.0&path:specs/example`)
+    expect(result.ok).toBe(true)
+
+    const installed = parseYaml(await readFile(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'), 'utf-8'))
+    expect(installed.version).toBe('1.0.0')
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@test', 'example', '.git'))).toBe(false)
+
+    const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+    expect(lockfile.packages['@test/example@1.0.0'].resolved).toBe(`git+file://${repo}#${v1}&path:specs/example`)
+    const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+    expect(manifest.dependencies['@test/example']).toBe(`git+file://${repo}#v1.0.0&path:specs/example`)
+  })
+
+  it('installs git sources from specpm.yaml without a lockfile', async () => {
+    const { repo, v1 } = await createGitRepo()
+    const proj = await createProject()
+    dirs.push(repo, proj)
+    await installFromSource(`git+file://${repo}#v1.0.0&path:specs/example`)
+
+    // A fresh checkout of a project that doesn't commit its lockfile
+    await rm(join(proj, '.specpm'), { recursive: true })
+    await rm(join(proj, 'specpm-lock.yaml'))
+    expect((await installAll()).ok).toBe(true)
+
+    const installed = parseYaml(await readFile(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'), 'utf-8'))
+    expect(installed.version).toBe('1.0.0')
+    const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+    expect(lockfile.packages['@test/example@1.0.0'].resolved).toBe(`git+file://${repo}#${v1}&path:specs/example`)
+
+    // Pointing specpm.yaml at another ref installs that one
+    const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+    manifest.dependencies['@test/example'] = `git+file://${repo}#HEAD&path:specs/example`
+    await writeFile(join(proj, 'specpm.yaml'), stringify(manifest))
+    expect((await installAll()).ok).toBe(true)
+    const updated = parseYaml(await readFile(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'), 'utf-8'))
+    expect(updated.version).toBe('1.1.0')
+  })
+
+  it('restores git packages from the locked commit', async () => {
+    const { repo } = await createGitRepo()
+    const proj = await createProject()
+    dirs.push(repo, proj)
+    await installFromSource(`git+file://${repo}#v1.0.0&path:specs/example`)
+
+    // Moving the tag does not change what the lockfile installs
+    git(repo, 'tag', '-f', 'v1.0.0', 'HEAD')
+    await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+
+    expect((await installFromLockfile()).ok).toBe(true)
+    const restored = parseYaml(await readFile(join(proj, '.specpm', 'specs', '@test', 'example', 'spec.yaml'), 'utf-8'))
+    expect(restored.version).toBe('1.0.0')
+
+    // A bare install keeps the locked source too, rather than looking for a registry
+    await rm(join(proj, '.specpm', 'specs'), { recursive: true })
+    expect((await installAll()).ok).toBe(true)
+  })
+
+  it('reports unknown refs', async () => {
+    const { repo } = await createGitRepo()
+    const proj = await createProject()
+    dirs.push(repo, proj)
+
+    const result = await installFromSource(`git+file://${repo}#v9.9.9`)
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error).toContain('Failed to fetch')
+  })
+
+  it('never passes a URL or ref to git as an option', async () => {
+    const proj = await createProject()
+    dirs.push(proj)
+    const marker = join(proj, 'pwned')
+
+    const url = await installFromSource(`git+--upload-pack=touch ${marker}#main`)
+    expect(url.ok).toBe(false)
+    // git looked for a repository by that name instead of taking the option
+    if (!url.ok) expect(url.error).toContain(`repository '--upload-pack=touch ${marker}' does not exist`)
+    const ref = await installFromSource(`git+file://${proj}#--output=${marker}`)
+    expect(ref.ok).toBe(false)
+    if (!ref.ok) expect(ref.error).toContain('Invalid git ref')
+    expect(await fileExists(marker)).toBe(false)
+  })
+
+  it('reports a specpm.yaml source URL that does not parse', async () => {
+    const proj = await createProject()
+    dirs.push(proj)
+    const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+    manifest.dependencies = { '@test/example': 'https://' }
+    await writeFile(join(proj, 'specpm.yaml'), stringify(manifest))
+
+    const result = await installAll()
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error).toContain('Invalid source URL: https://')
+    expect((await installFromSource('https://')).ok).toBe(false)
+  })
+
+  it('installs a local tarball and locks its hash', async () => {
+    const src = await mkdtemp(join(tmpdir(), 'specpm-src-'))
+    const proj = await createProject()
+    dirs.push(src, proj)
+    await writeFile(join(src, 'spec.yaml'), specYaml('2.0.0'))
+    execSync(`tar czf ${join(proj, 'example-2.0.0.tgz')} -C ${src} .`, { stdio: 'pipe' })
+
+    const result = await installFromSource('./example-2.0.0.tgz')
+    expect(result.ok).toBe(true)
+
+    const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+    expect(lockfile.packages['@test/example@2.0.0'].resolved).toMatch(/^tarball:example-2\.0\.0\.tgz#sha256-[0-9a-f]{64}$/)
+    const manifest = parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+    expect(manifest.dependencies['@test/example']).toBe('file:example-2.0.0.tgz')
+
+    // A changed tarball no longer matches the lockfile
+    await writeFile(join(src, 'README.md'), '# changed')
+    execSync(`tar czf ${join(proj, 'example-2.0.0.tgz')} -C ${src} .`, { stdio: 'pipe' })
+    // A fresh checkout: no store to fall back on
+    await rm(join(proj, '.specpm'), { recursive: true })
+    const restored = await installFromLockfile()
+    expect(restored.ok).toBe(false)
+    if (!restored.ok) expect(restored.error).toContain('Integrity check failed')
+  })
+})
@@ -74,6 +74,26 @@ describe('specpm team check', () => {
     }
   })
 
+  it('accepts compound version ranges', async () => {
+    const specDir = join(tempDir, '.specpm', 'specs', '@auth', 'oauth2')
+    await mkdir(specDir, { recursive: true })
+    await writeFile(join(specDir, 'spec.yaml'), stringify({
+      name: '@auth/oauth2',
+      version: '2.0.0',
+      description: 'OAuth2 spec',
+      author: 'test',
+      license: 'MIT',
+    }))
+
+    await writeFile(join(tempDir, 'specpm-team.yaml'), stringify({
+      required: ['@auth/oauth2@^1.4.0 || >=2.0.0 <3.0.0'],
+    }))
+
+    const result = await teamCheckCommand({ json: false })
+    expect(result.ok).toBe(true)
+    if (result.ok) expect(result.value.passed).toBe(true)
+  })
+
   it('detects outdated specs', async () => {
     const specDir = join(tempDir, '.specpm', 'specs', '@auth', 'oauth2')
     await mkdir(specDir, { recursive: true })
@@ -110,4 +130,28 @@ describe('specpm team check', () => {
       expect(result.value.recommended).toContain('@company/logging')
     }
   })
+
+  it('reports peer dependencies that are missing or out of range', async () => {
+    const install = async (name: string, version: string, extra: Record<string, unknown> = {}) => {
+      const [scope, pkg] = name.slice(1).split('/')
+      const specDir = join(tempDir, '.specpm', 'specs', `@${scope}`, pkg)
+      await mkdir(specDir, { recursive: true })
+      await writeFile(join(specDir, 'spec.yaml'), stringify({
+        name, version, description: 'Test', author: 'test', license: 'MIT', ...extra,
+      }))
+    }
+    await install('@data/pagination', '1.0.0', { peerDependencies: { '@api/errors': '^2.0.0', '@api/links': '1.x' } })
+    await install('@api/errors', '1.0.0')
+    await writeFile(join(tempDir, 'specpm-team.yaml'), stringify({ recommended: [] }))
+
+    const result = await teamCheckCommand({ json: false })
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.passed).toBe(false)
+      expect(result.value.peerIssues.map(p => p.message)).toEqual([
+        '@data/pagination@1.0.0 requires peer @api/errors@^2.0.0, but 1.0.0 is installed',
+        '@data/pagination@1.0.0 requires peer @api/links@1.x, but it is not installed',
+      ])
+    }
+  })
 })
@@ -0,0 +1,159 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile, readFile, access } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { parse as parseYaml, stringify } from 'yaml'
+import { initCommand } from '../src/commands/init.js'
+import { installFromLocalPath } from '../src/commands/install.js'
+import { uninstallCommand } from '../src/commands/uninstall.js'
+
+async function fileExists(p: string): Promise<boolean> {
+  try { await access(p); return true } catch { return false }
+}
+
+async function createSourcePackage(name: string, dependencies?: Record<string, string>): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'specpm-src-'))
+  const manifest = { name, version: '1.0.0', description: 'Test spec', author: 'test', license: 'MIT', ...(dependencies ? { dependencies } : {}) }
+  await writeFile(join(dir, 'spec.yaml'), stringify(manifest))
+  return dir
+}
+
+async function createInitializedProject(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'specpm-proj-'))
+  process.chdir(dir)
+  await initCommand({ yes: true })
+  return dir
+}
+
+async function readManifest(proj: string) {
+  return parseYaml(await readFile(join(proj, 'specpm.yaml'), 'utf-8'))
+}
+
+// Drop a direct dependency from specpm.yaml so it is only installed transitively
+async function makeTransitive(proj: string, name: string) {
+  const manifest = await readManifest(proj)
+  delete manifest.dependencies[name]
+  await writeFile(join(proj, 'specpm.yaml'), stringify(manifest))
+}
+
+describe('specpm uninstall', () => {
+  const dirs: string[] = []
+  const originalCwd = process.cwd()
+
+  afterEach(async () => {
+    process.chdir(originalCwd)
+    for (const d of dirs) await rm(d, { recursive: true, force: true })
+    dirs.length = 0
+  })
+
+  async function setup(): Promise<string> {
+    const errors = await createSourcePackage('@data/errors')
+    const pagination = await createSourcePackage('@data/pagination', { '@data/errors': '^1.0.0' })
+    const proj = await createInitializedProject()
+    dirs.push(errors, pagination, proj)
+    await installFromLocalPath(errors)
+    await installFromLocalPath(pagination)
+    return proj
+  }
+
+  it('removes the package, its specpm.yaml entry and its lockfile entry', async () => {
+    const proj = await setup()
+
+    const result = await uninstallCommand('@data/pagination', { context: false })
+    expect(result.ok).toBe(true)
+
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@data', 'pagination'))).toBe(false)
+    expect((await readManifest(proj)).dependencies['@data/pagination']).toBeUndefined()
+    const lockfile = parseYaml(await readFile(join(proj, 'specpm-lock.yaml'), 'utf-8'))
+    expect(Object.keys(lockfile.packages)).toEqual(['@data/errors@1.0.0'])
+  })
+
+  it('removes the package from the store', async () => {
+    const proj = await setup()
+
+    const result = await uninstallCommand('@data/pagination', { context: false })
+    expect(result.ok).toBe(true)
+
+    expect(await fileExists(join(proj, '.specpm', 'store', '@data', 'pagination@1.0.0'))).toBe(false)
+    expect(await fileExists(join(proj, '.specpm', 'store', '@data', 'errors@1.0.0'))).toBe(true)
+  })
+
+  it('keeps dependencies that are also direct dependencies', async () => {
+    const proj = await setup()
+
+    await uninstallCommand('@data/pagination', { context: false })
+
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@data', 'errors'))).toBe(true)
+  })
+
+  it('prunes transitive dependencies nothing else needs', async () => {
+    const proj = await setup()
+    await makeTransitive(proj, '@data/errors')
+
+    const result = await uninstallCommand('@data/pagination', { context: false })
+    expect(result.ok).toBe(true)
+    if (result.ok) expect(result.value.sort()).toEqual(['@data/errors', '@data/pagination'])
+
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@data'))).toBe(false)
+  })
+
+  it('keeps transitive dependencies another package still needs', async () => {
+    const proj = await setup()
+    const rest = await createSourcePackage('@api/rest', { '@data/errors': '^1.0.0' })
+    dirs.push(rest)
+    await installFromLocalPath(rest)
+    await makeTransitive(proj, '@data/errors')
+
+    await uninstallCommand('@data/pagination', { context: false })
+
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@data', 'errors'))).toBe(true)
+  })
+
+  it('refuses to remove a package another installed spec depends on', async () => {
+    const proj = await setup()
+
+    const result = await uninstallCommand('@data/errors', { context: false })
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error).toContain('required by @data/pagination@1.0.0')
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@data', 'errors'))).toBe(true)
+  })
+
+  it('removes a depended-on package with --force', async () => {
+    const proj = await setup()
+
+    const result = await uninstallCommand('@data/errors', { force: true, context: false })
+    expect(result.ok).toBe(true)
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@data', 'errors'))).toBe(false)
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@data', 'pagination'))).toBe(true)
+  })
+
+  it('dry-run changes nothing', async () => {
+    const proj = await setup()
+    const manifestBefore = await readFile(join(proj, 'specpm.yaml'), 'utf-8')
+
+    const result = await uninstallCommand('@data/pagination', { dryRun: true })
+    expect(result.ok).toBe(true)
+    expect(await fileExists(join(proj, '.specpm', 'specs', '@data', 'pagination'))).toBe(true)
+    expect(await readFile(join(proj, 'specpm.yaml'), 'utf-8')).toBe(manifestBefore)
+  })
+
+  it('rejects packages that are not installed', async () => {
+    const proj = await createInitializedProject()
+    dirs.push(proj)
+
+    const result = await uninstallCommand('@data/missing')
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error).toContain('@data/missing is not installed')
+  })
+
+  it('regenerates context files when asked', async () => {
+    await setup()
+
+    const result = await uninstallCommand('@data/pagination', { context: true })
+    expect(result.ok).toBe(true)
+
+    const context = await readFile(join(process.cwd(), 'CLAUDE.md'), 'utf-8')
+    expect(context).toContain('@data/errors')
+    expect(context).not.toContain('@data/pagination')
+  })
+})
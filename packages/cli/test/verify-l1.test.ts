@@ -128,6 +128,21 @@ describe('L1 verification', () => {
     expect(result.issues.some(i => i.code === 'L1-CONTEXT-PRIORITY')).toBe(true)
   })
 
+  it('warns on context.appliesTo globs outside the project', async () => {
+    await setupPackage({
+      manifest: {
+        name: '@test/pkg', version: '1.0.0', description: 'Test', author: 'test', license: 'MIT',
+        context: { appliesTo: ['src/auth/**', '../shared/**', '/etc/*'] },
+      },
+    })
+
+    const result = await verifyL1(tmpDir)
+    expect(result.passed).toBe(true)
+    const globs = result.issues.filter(i => i.code === 'L1-CONTEXT-APPLIES-TO').map(i => i.message)
+    expect(globs).toHaveLength(2)
+    expect(globs[0]).toContain('"../shared/**"')
+  })
+
   it('passes package with no constraints', async () => {
     await setupPackage({
       entities: [{ $id: 'user', title: 'User', type: 'object' }],
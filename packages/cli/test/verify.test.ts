@@ -1,8 +1,9 @@
-import { describe, it, expect, afterEach } from 'vitest'
+import { describe, it, expect, afterEach, vi } from 'vitest'
 import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
 import { verifyL0 } from '../src/lib/verifier/l0.js'
+import { verifyCommand } from '../src/commands/verify.js'
 
 async function createSpecDir(files: Record<string, string>): Promise<string> {
   const dir = await mkdtemp(join(tmpdir(), 'specpm-verify-'))
@@ -151,4 +152,62 @@ license: "MIT"
     // Should fail on schema validation (name pattern)
     expect(result.issues.some(i => i.severity === 'error')).toBe(true)
   })
+
+  it('fails for invalid dependency ranges', async () => {
+    const dir = await createSpecDir({
+      'spec.yaml': VALID_SPEC + `
+dependencies:
+  "@api/errors": "not-a-range"
+peerDependencies:
+  "@api/links": "^1.0.0"
+`,
+      'entities/user.schema.json': VALID_ENTITY,
+      'constraints/constraints.yaml': VALID_CONSTRAINTS,
+    })
+    dirs.push(dir)
+    const result = await verifyL0(dir)
+    expect(result.passed).toBe(false)
+    const invalid = result.issues.filter(i => i.code === 'L0-RANGE-INVALID')
+    expect(invalid).toHaveLength(1)
+    expect(invalid[0].path).toBe('/dependencies/@api/errors')
+  })
+})
+
+describe('verifyCommand', () => {
+  const dirs: string[] = []
+  const origCwd = process.cwd()
+  afterEach(async () => {
+    process.chdir(origCwd)
+    vi.restoreAllMocks()
+    for (const d of dirs) await rm(d, { recursive: true, force: true })
+    dirs.length = 0
+  })
+
+  it('warns about peers the current project does not satisfy', async () => {
+    const dir = await createSpecDir({
+      'spec.yaml': VALID_SPEC + `
+peerDependencies:
+  "@api/errors": "^2.0.0"
+`,
+      'entities/user.schema.json': VALID_ENTITY,
+      'constraints/constraints.yaml': VALID_CONSTRAINTS,
+    })
+    const project = await createSpecDir({
+      'specpm.yaml': 'name: test-project\nversion: 0.1.0\n',
+      '.specpm/specs/@api/errors/spec.yaml': 'name: "@api/errors"\nversion: "1.0.0"\ndescription: "Errors"\nauthor: "test"\nlicense: "MIT"\n',
+    })
+    dirs.push(dir, project)
+    process.chdir(project)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    const result = await verifyCommand(dir, { json: true })
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      // Peers depend on the consuming project, so they warn rather than fail
+      expect(result.value.passed).toBe(true)
+      const peer = result.value.issues.find(i => i.code === 'L0-PEER-RANGE')
+      expect(peer?.severity).toBe('warning')
+      expect(peer?.message).toBe('@auth/email-password@1.0.0 requires peer @api/errors@^2.0.0, but 1.0.0 is installed')
+    }
+  })
 })
@@ -0,0 +1,303 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm, mkdir, writeFile, readFile, access } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parse as parseYaml, stringify } from 'yaml'
+import {
+  listWorkspaces, findWorkspaceRoot, selectWorkspaces, projectDependencies,
+} from '../src/lib/workspace.js'
+import { listInstalledSpecs } from '../src/lib/loader.js'
+import { installFromLocalPath, installAll } from '../src/commands/install.js'
+import { uninstallCommand } from '../src/commands/uninstall.js'
+import { checkCommand } from '../src/commands/check.js'
+import { contextCommand } from '../src/commands/context.js'
+import { ciCommand } from '../src/commands/ci.js'
+import { lsCommand, whyCommand } from '../src/commands/ls.js'
+
+let root: string
+let origCwd: string
+
+async function fileExists(p: string): Promise<boolean> {
+  try { await access(p); return true } catch { return false }
+}
+
+async function writeYaml(path: string, content: unknown): Promise<void> {
+  await mkdir(join(path, '..'), { recursive: true })
+  await writeFile(path, stringify(content))
+}
+
+/** A spec requiring `interface <entity>` to have an `id` field */
+async function createSpec(name: string, entity: string): Promise<string> {
+  const dir = join(root, 'specs', name.split('/')[1])
+  await writeYaml(join(dir, 'spec.yaml'), {
+    name, version: '1.0.0', description: 'Test', author: 'test', license: 'MIT',
+    entities: ['entity.json'],
+    constraints: 'constraints.yaml',
+  })
+  await writeFile(join(dir, 'entity.json'), JSON.stringify({
+    $id: entity.toLowerCase(), title: entity, type: 'object', properties: { id: { type: 'string' } },
+  }))
+  await writeYaml(join(dir, 'constraints.yaml'), {
+    constraints: [{
+      id: `${entity.toLowerCase()}-id`, description: `${entity} has an id`, type: 'entity', severity: 'error',
+      check: { entity, requiredFields: ['id'] },
+    }],
+  })
+  return dir
+}
+
+/**
+ * Root with `workspaces: [apps/*]`, two apps and two specs in specs/:
+ * web and api both use @test/users; only api uses @test/orders
+ */
+async function setupWorkspace(): Promise<void> {
+  await writeYaml(join(root, 'specpm.yaml'), { name: 'monorepo', version: '1.0.0', workspaces: ['apps/*'] })
+  await writeYaml(join(root, 'apps', 'web', 'specpm.yaml'), { name: 'web', version: '1.0.0' })
+  await writeYaml(join(root, 'apps', 'api', 'specpm.yaml'), { name: 'api', version: '1.0.0' })
+  // Not a workspace: no specpm.yaml
+  await mkdir(join(root, 'apps', 'scripts'), { recursive: true })
+  await createSpec('@test/users', 'User')
+  await createSpec('@test/orders', 'Order')
+
+  await mkdir(join(root, 'apps', 'web', 'src'), { recursive: true })
+  await writeFile(join(root, 'apps', 'web', 'src', 'index.ts'), 'interface User { id: string }\n')
+  await mkdir(join(root, 'apps', 'api', 'src'), { recursive: true })
+  await writeFile(join(root, 'apps', 'api', 'src', 'index.ts'), 'interface User { id: string }\ninterface Order { total: number }\n')
+}
+
+async function installIn(workspace: string, ...specs: string[]): Promise<void> {
+  process.chdir(join(root, 'apps', workspace))
+  for (const spec of specs) {
+    const result = await installFromLocalPath(join(root, 'specs', spec))
+    expect(result.ok).toBe(true)
+  }
+  process.chdir(root)
+}
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'specpm-workspace-'))
+  origCwd = process.cwd()
+  process.chdir(root)
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(async () => {
+  vi.restoreAllMocks()
+  process.chdir(origCwd)
+  await rm(root, { recursive: true, force: true })
+})
+
+describe('workspace discovery', () => {
+  it('lists workspaces matched by patterns that have a specpm.yaml', async () => {
+    await setupWorkspace()
+    const result = await listWorkspaces(root)
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.map(ws => [ws.name, ws.path])).toEqual([['api', 'apps/api'], ['web', 'apps/web']])
+    }
+  })
+
+  it('rejects entries outside the root and missing workspaces', async () => {
+    await writeYaml(join(root, 'specpm.yaml'), { name: 'monorepo', version: '1.0.0', workspaces: ['../elsewhere'] })
+    expect((await listWorkspaces(root)).ok).toBe(false)
+
+    await writeYaml(join(root, 'specpm.yaml'), { name: 'monorepo', version: '1.0.0', workspaces: ['apps/missing'] })
+    const result = await listWorkspaces(root)
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error).toContain('apps/missing has no specpm.yaml')
+  })
+
+  it('finds the workspace root from a workspace only', async () => {
+    await setupWorkspace()
+    expect(await findWorkspaceRoot(join(root, 'apps', 'web'))).toBe(root)
+    expect(await findWorkspaceRoot(join(root, 'apps', 'scripts'))).toBeNull()
+    expect(await findWorkspaceRoot(root)).toBeNull()
+  })
+
+  it('selects workspaces by name or path, from the root or inside a workspace', async () => {
+    await setupWorkspace()
+    expect(await selectWorkspaces(root, {})).toEqual({ ok: true, value: null })
+
+    const all = await selectWorkspaces(join(root, 'apps', 'web'), { recursive: true })
+    expect(all.ok && all.value!.map(ws => ws.name)).toEqual(['api', 'web'])
+
+    const byPath = await selectWorkspaces(root, { workspace: 'apps/web' })
+    expect(byPath.ok && byPath.value!.map(ws => ws.name)).toEqual(['web'])
+
+    const unknown = await selectWorkspaces(root, { workspace: 'mobile' })
+    expect(unknown.ok).toBe(false)
+    if (!unknown.ok) expect(unknown.error).toContain('Available: api, web')
+  })
+
+  it('merges workspace dependencies, intersecting ranges for shared specs', async () => {
+    await setupWorkspace()
+    await writeYaml(join(root, 'apps', 'web', 'specpm.yaml'), {
+      name: 'web', version: '1.0.0', dependencies: { '@test/users': '^1.0.0' }, devDependencies: { '@test/qa': '^2.0.0' },
+    })
+    await writeYaml(join(root, 'apps', 'api', 'specpm.yaml'), {
+      name: 'api', version: '1.0.0', dependencies: { '@test/users': '^1.2.0 || ^2.0.0' },
+    })
+
+    const all = await projectDependencies(root, { dependencies: { '@test/orders': '^1.0.0' } })
+    expect(all).toEqual({
+      ok: true,
+      value: { '@test/orders': '^1.0.0', '@test/users': '^1.2.0 ^1.0.0 || ^2.0.0 ^1.0.0', '@test/qa': '^2.0.0' },
+    })
+    const production = await projectDependencies(root, {}, { production: true })
+    expect(production.ok && Object.keys(production.value)).toEqual(['@test/users'])
+  })
+
+  it('reports workspaces that link, alias or fetch one spec differently', async () => {
+    await setupWorkspace()
+    await writeYaml(join(root, 'apps', 'web', 'specpm.yaml'), {
+      name: 'web', version: '1.0.0', dependencies: { '@test/users': 'link:../../specs/users' },
+    })
+    await writeYaml(join(root, 'apps', 'api', 'specpm.yaml'), {
+      name: 'api', version: '1.0.0', dependencies: { '@test/users': 'npm:@test/accounts@^1.0.0' },
+    })
+    const result = await projectDependencies(root, { dependencies: { '@test/users': '^1.0.0' } })
+    expect(result).toEqual({
+      ok: false,
+      error: 'Conflicting specifiers for @test/users: npm:@test/accounts@^1.0.0 in workspace api and link:specs/users in workspace web',
+    })
+
+    // The same directory linked from two workspaces is one specifier
+    await writeYaml(join(root, 'apps', 'api', 'specpm.yaml'), {
+      name: 'api', version: '1.0.0', dependencies: { '@test/users': 'link:../../specs/users' },
+    })
+    expect(await projectDependencies(root, {})).toEqual({ ok: true, value: { '@test/users': 'link:specs/users' } })
+  })
+})
+
+describe('workspace installs', () => {
+  it('hoists specs into the workspace root and records them in the workspace', async () => {
+    await setupWorkspace()
+    await installIn('web', 'users')
+    await installIn('api', 'users', 'orders')
+
+    expect(await fileExists(join(root, '.specpm', 'specs', '@test', 'users', 'spec.yaml'))).toBe(true)
+    expect(await fileExists(join(root, 'apps', 'web', '.specpm', 'specs'))).toBe(false)
+
+    const web = parseYaml(await readFile(join(root, 'apps', 'web', 'specpm.yaml'), 'utf-8'))
+    expect(web.dependencies).toEqual({ '@test/users': '1.0.0' })
+    expect(await fileExists(join(root, 'apps', 'web', 'specpm-lock.yaml'))).toBe(false)
+
+    const lockfile = parseYaml(await readFile(join(root, 'specpm-lock.yaml'), 'utf-8'))
+    expect(Object.keys(lockfile.dependencies)).toEqual(['@test/orders', '@test/users'])
+    expect(lockfile.packages['@test/users@1.0.0'].resolved).toBe('local:specs/users')
+
+    // Each workspace sees only what it depends on
+    const webSpecs = await listInstalledSpecs(join(root, 'apps', 'web'))
+    expect(webSpecs.ok && webSpecs.value.map(s => s.manifest.name)).toEqual(['@test/users'])
+    const rootSpecs = await listInstalledSpecs(root)
+    expect(rootSpecs.ok && rootSpecs.value.length).toBe(2)
+  })
+
+  it('restores every workspace from the root lockfile', async () => {
+    await setupWorkspace()
+    await installIn('web', 'users')
+    await installIn('api', 'orders')
+    await rm(join(root, '.specpm', 'specs'), { recursive: true })
+
+    // Running inside a workspace installs for the whole workspace root
+    process.chdir(join(root, 'apps', 'web'))
+    const result = await installAll()
+    expect(result.ok).toBe(true)
+    if (result.ok) expect(result.value.sort()).toEqual(['@test/orders', '@test/users'])
+    expect(await fileExists(join(root, '.specpm', 'specs', '@test', 'orders', 'spec.yaml'))).toBe(true)
+  })
+
+  it('keeps a spec another workspace still depends on when uninstalling', async () => {
+    await setupWorkspace()
+    await installIn('web', 'users')
+    await installIn('api', 'users', 'orders')
+
+    process.chdir(join(root, 'apps', 'web'))
+    const shared = await uninstallCommand('@test/users', { context: false })
+    expect(shared.ok && shared.value).toEqual([])
+    expect(await fileExists(join(root, '.specpm', 'specs', '@test', 'users'))).toBe(true)
+    const web = parseYaml(await readFile(join(root, 'apps', 'web', 'specpm.yaml'), 'utf-8'))
+    expect(web.dependencies).toEqual({})
+
+    process.chdir(join(root, 'apps', 'api'))
+    const result = await uninstallCommand('@test/orders', { context: false })
+    expect(result.ok && result.value).toEqual(['@test/orders'])
+    expect(await fileExists(join(root, '.specpm', 'specs', '@test', 'orders'))).toBe(false)
+  })
+})
+
+describe('commands across workspaces', () => {
+  beforeEach(async () => {
+    await setupWorkspace()
+    await installIn('web', 'users')
+    await installIn('api', 'users', 'orders')
+  })
+
+  it('ls and why at the root count every workspace\'s dependencies', async () => {
+    const tree = await lsCommand()
+    expect(tree.ok).toBe(true)
+    if (tree.ok) {
+      expect(tree.value.dependencies.map(d => d.name).sort()).toEqual(['@test/orders', '@test/users'])
+      expect(tree.value.extraneous).toEqual([])
+      expect(tree.value.problems).toEqual([])
+    }
+
+    const why = await whyCommand('@test/orders')
+    expect(why.ok && why.value.chains.map(chain => chain.path.map(link => link.name))).toEqual([['@test/orders']])
+  })
+
+  it('check -r aggregates every workspace', async () => {
+    const result = await checkCommand({ recursive: true })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.workspaces).toEqual([
+      { name: 'api', path: 'apps/api', summary: { pass: 1, fail: 1, warn: 0, skip: 0 } },
+      { name: 'web', path: 'apps/web', summary: { pass: 1, fail: 0, warn: 0, skip: 0 } },
+    ])
+    expect(result.value.summary).toEqual({ pass: 2, fail: 1, warn: 0, skip: 0 })
+    expect(result.value.results.find(r => r.status === 'fail')?.workspace).toBe('api')
+    expect(result.value.specs.sort()).toEqual(['@test/orders', '@test/users'])
+  })
+
+  it('check --workspace runs one workspace', async () => {
+    const result = await checkCommand({ workspace: 'web' })
+    expect(result.ok && result.value.summary).toEqual({ pass: 1, fail: 0, warn: 0, skip: 0 })
+  })
+
+  it('context -r writes context into each workspace', async () => {
+    const result = await contextCommand({ recursive: true, target: 'claude' })
+    expect(result.ok).toBe(true)
+    const web = await readFile(join(root, 'apps', 'web', 'CLAUDE.md'), 'utf-8')
+    expect(web).toContain('@test/users')
+    expect(web).not.toContain('@test/orders')
+    const api = await readFile(join(root, 'apps', 'api', 'CLAUDE.md'), 'utf-8')
+    expect(api).toContain('@test/orders')
+  })
+
+  it('ci -r fails when any workspace fails and reports each one', async () => {
+    const result = await ciCommand({ recursive: true, reporter: 'json' })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.passed).toBe(false)
+    expect(result.value.workspaces).toEqual([
+      { name: 'api', path: 'apps/api', passed: false },
+      { name: 'web', path: 'apps/web', passed: true },
+    ])
+
+    const web = await ciCommand({ workspace: 'web', reporter: 'json' })
+    expect(web.ok && web.value.passed).toBe(true)
+  })
+
+  it('reports a missing workspace setup', async () => {
+    const standalone = await mkdtemp(join(tmpdir(), 'specpm-standalone-'))
+    try {
+      await writeYaml(join(standalone, 'specpm.yaml'), { name: 'app', version: '1.0.0' })
+      const result = await checkCommand({ recursive: true, cwd: standalone })
+      expect(result.ok).toBe(false)
+      if (!result.ok) expect(result.error).toContain('No workspaces found')
+    } finally {
+      await rm(standalone, { recursive: true, force: true })
+    }
+  })
+})
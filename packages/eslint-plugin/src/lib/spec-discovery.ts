@@ -1,10 +1,12 @@
-import { readFileSync, existsSync, readdirSync, statSync } from 'node:fs'
-import { join, dirname } from 'node:path'
+import { readFileSync, existsSync, readdirSync, statSync, lstatSync, readlinkSync } from 'node:fs'
+import { join, dirname, resolve, sep } from 'node:path'
 import { parse as parseYaml } from 'yaml'
-import type { SpecYaml, SpecPackage, ConstraintsFile } from 'shared'
+import { workspaceRootOf, reachableSpecs, installedAs, type SpecYaml, type SpecPackage, type ConstraintsFile } from 'shared'
 
 // Module-level cache: specs keyed by project root
 const specsCache = new Map<string, SpecPackage[]>()
+// Directories of linked specs (`specpm link`), which are re-read on every lookup
+const linkedDirs = new Set<string>()
 
 /**
  * Walk up from a file path to find specpm.yaml, return its directory or null.
@@ -24,6 +26,15 @@ export function findProjectRoot(filePath: string): string | null {
   return null
 }
 
+function readManifestSync(directory: string): Record<string, unknown> | null {
+  try {
+    const parsed = parseYaml(readFileSync(join(directory, 'specpm.yaml'), 'utf-8'))
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null
+  } catch {
+    return null
+  }
+}
+
 /**
  * Load a spec package from a directory (sync for ESLint compatibility).
  */
@@ -62,17 +73,39 @@ function loadSpecPackageSync(directory: string): SpecPackage | null {
 }
 
 /**
- * Load all installed specs from .specpm/specs/ for a project root.
- * Results are cached per lint run.
+ * Load all installed specs from .specpm/specs/ for a project root. A workspace sees
+ * the specs hoisted to its workspace root that its specpm.yaml depends on.
+ * Results are cached per lint run, except linked specs, which are read live.
  */
 export function loadInstalledSpecs(projectRoot: string): SpecPackage[] {
-  if (specsCache.has(projectRoot)) {
-    return specsCache.get(projectRoot)!
+  const cached = specsCache.get(projectRoot)
+  if (cached) {
+    return cached.map(pkg => {
+      const live = linkedDirs.has(pkg.directory) ? loadSpecPackageSync(pkg.directory) : null
+      return live ? installedAs(live, pkg.manifest.name) : pkg
+    })
   }
 
+  const workspaceRoot = workspaceRootOf(projectRoot, readManifestSync)
+  const packages = workspaceRoot
+    ? reachableSpecs(readManifestSync(projectRoot), scanSpecsDir(workspaceRoot))
+    : scanSpecsDir(projectRoot)
+  specsCache.set(projectRoot, packages)
+  return packages
+}
+
+/**
+ * Installed specs link into .specpm/store/; a link anywhere else is a `specpm link` to a directory being edited
+ */
+function isLinkedOutsideStore(projectRoot: string, pkgDir: string): boolean {
+  if (!lstatSync(pkgDir).isSymbolicLink()) return false
+  const target = resolve(dirname(pkgDir), readlinkSync(pkgDir))
+  return !target.startsWith(join(projectRoot, '.specpm', 'store') + sep)
+}
+
+function scanSpecsDir(projectRoot: string): SpecPackage[] {
   const specsDir = join(projectRoot, '.specpm', 'specs')
   if (!existsSync(specsDir)) {
-    specsCache.set(projectRoot, [])
     return []
   }
 
@@ -85,13 +118,14 @@ export function loadInstalledSpecs(projectRoot: string): SpecPackage[] {
     const names = readdirSync(scopeDir)
     for (const name of names) {
       const pkgDir = join(scopeDir, name)
-      if (!statSync(pkgDir).isDirectory()) continue
+      // A link whose directory has gone away is skipped
+      if (!statSync(pkgDir, { throwIfNoEntry: false })?.isDirectory()) continue
       const pkg = loadSpecPackageSync(pkgDir)
-      if (pkg) packages.push(pkg)
+      if (!pkg) continue
+      if (isLinkedOutsideStore(projectRoot, pkgDir)) linkedDirs.add(pkgDir)
+      packages.push(installedAs(pkg, `${entry}/${name}`))
     }
   }
-
-  specsCache.set(projectRoot, packages)
   return packages
 }
 
@@ -110,6 +144,7 @@ export function getSpecsForFile(filePath: string): SpecPackage[] {
  */
 export function clearSpecCache(): void {
   specsCache.clear()
+  linkedDirs.clear()
 }
 
 /**
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
-import { mkdirSync, writeFileSync, rmSync, existsSync } from 'node:fs'
+import { mkdirSync, writeFileSync, rmSync, existsSync, symlinkSync, renameSync, readFileSync } from 'node:fs'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
 
@@ -184,6 +184,61 @@ describe('eslint-plugin-specpm', () => {
       const specs = loadInstalledSpecs(dir)
       expect(specs).toEqual([])
     })
+
+    it('loads specs hoisted to the workspace root', () => {
+      const root = join(TMP, 'workspace')
+      mkdirSync(root, { recursive: true })
+      setupSpecProject(root)
+      writeFileSync(join(root, 'specpm.yaml'), 'name: monorepo\nversion: 1.0.0\nworkspaces:\n  - apps/*\n')
+      mkdirSync(join(root, 'apps', 'web', 'src'), { recursive: true })
+      mkdirSync(join(root, 'apps', 'docs'), { recursive: true })
+      writeFileSync(join(root, 'apps', 'web', 'specpm.yaml'),
+        'name: web\nversion: 1.0.0\ndependencies:\n  "@auth/email-password": ^1.0.0\n')
+      writeFileSync(join(root, 'apps', 'docs', 'specpm.yaml'), 'name: docs\nversion: 1.0.0\n')
+
+      const web = findProjectRoot(join(root, 'apps', 'web', 'src', 'index.ts'))!
+      expect(web).toBe(join(root, 'apps', 'web'))
+      expect(loadInstalledSpecs(web).map(s => s.manifest.name)).toEqual(['@auth/email-password'])
+      // Workspaces only see the hoisted specs they depend on
+      expect(loadInstalledSpecs(join(root, 'apps', 'docs'))).toEqual([])
+    })
+
+    it('reads linked specs live instead of from the cache', () => {
+      const source = join(TMP, 'linked-source')
+      mkdirSync(source, { recursive: true })
+      setupSpecProject(source)
+      const specDir = join(source, '.specpm', 'specs', '@auth', 'email-password')
+
+      const project = join(TMP, 'linked-project')
+      mkdirSync(join(project, '.specpm', 'specs', '@auth'), { recursive: true })
+      writeFileSync(join(project, 'specpm.yaml'), 'name: linked\nversion: 1.0.0\n')
+      symlinkSync(specDir, join(project, '.specpm', 'specs', '@auth', 'email-password'), 'junction')
+
+      expect(loadInstalledSpecs(project).map(s => s.manifest.version)).toEqual(['1.0.0'])
+      const specYaml = join(specDir, 'spec.yaml')
+      writeFileSync(specYaml, readFileSync(specYaml, 'utf-8').replace('version: "1.0.0"', 'version: "1.1.0"'))
+      expect(loadInstalledSpecs(project).map(s => s.manifest.version)).toEqual(['1.1.0'])
+
+      // A link to a directory that has gone away is skipped
+      clearSpecCache()
+      renameSync(specDir, `${specDir}-moved`)
+      expect(loadInstalledSpecs(project)).toEqual([])
+    })
+
+    it('sees an aliased spec under the name it is installed as', () => {
+      const source = join(TMP, 'alias-source')
+      mkdirSync(source, { recursive: true })
+      setupSpecProject(source)
+
+      const project = join(TMP, 'alias-project')
+      mkdirSync(join(project, '.specpm', 'specs', '@identity'), { recursive: true })
+      writeFileSync(join(project, 'specpm.yaml'), 'name: aliased\nversion: 1.0.0\n')
+      symlinkSync(join(source, '.specpm', 'specs', '@auth', 'email-password'),
+        join(project, '.specpm', 'specs', '@identity', 'login'), 'junction')
+
+      const specs = loadInstalledSpecs(project)
+      expect(specs.map(s => [s.manifest.name, s.aliasOf])).toEqual([['@identity/login', '@auth/email-password']])
+    })
   })
 
   // TASK 5.3: entity-match rule
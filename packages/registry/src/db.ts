@@ -46,6 +46,9 @@ function initSchema(db: Database.Database): void {
       tarball_path TEXT NOT NULL,
       size INTEGER NOT NULL DEFAULT 0,
       published_at TEXT NOT NULL DEFAULT (datetime('now')),
+      verification TEXT,
+      publisher TEXT,
+      deprecated TEXT,
       UNIQUE(package_id, version)
     );
 
@@ -56,6 +59,14 @@ function initSchema(db: Database.Database): void {
       UNIQUE(package_id, tag)
     );
 
+    CREATE TABLE IF NOT EXISTS dist_tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      package_id INTEGER NOT NULL REFERENCES packages(id),
+      tag TEXT NOT NULL,
+      version TEXT NOT NULL,
+      UNIQUE(package_id, tag)
+    );
+
     CREATE TABLE IF NOT EXISTS download_counts (
       package_id INTEGER PRIMARY KEY REFERENCES packages(id),
       count INTEGER NOT NULL DEFAULT 0
@@ -65,4 +76,10 @@ function initSchema(db: Database.Database): void {
       name, description, tags, content='packages', content_rowid='id'
     );
   `)
+
+  // Columns added to versions later; CREATE TABLE IF NOT EXISTS leaves older databases without them
+  const columns = (db.prepare('PRAGMA table_info(versions)').all() as { name: string }[]).map(c => c.name)
+  for (const column of ['verification', 'publisher', 'deprecated']) {
+    if (!columns.includes(column)) db.exec(`ALTER TABLE versions ADD COLUMN ${column} TEXT`)
+  }
 }
@@ -1,18 +1,51 @@
 import { mkdir, writeFile, readFile, access } from 'node:fs/promises'
 import { join } from 'node:path'
 import { createHash } from 'node:crypto'
-import { tmpdir } from 'node:os'
-import { mkdtemp, rm } from 'node:fs/promises'
-import { execSync } from 'node:child_process'
 import type { FastifyInstance } from 'fastify'
 import type Database from 'better-sqlite3'
 import { getUserFromToken } from './auth.js'
 import { indexPackageForSearch } from './search.js'
+import { readTarball } from 'shared'
 
 async function fileExists(p: string): Promise<boolean> {
   try { await access(p); return true } catch { return false }
 }
 
+/** Highest level a publisher can claim without the registry checking it */
+const MAX_SELF_REPORTED_LEVEL = 1
+
+/**
+ * The `verification` field `specpm publish` sends: the level the package passed and what it
+ * contains. The registry doesn't verify packages itself, so the level is recorded as
+ * self-reported and capped at L1. Returns the JSON to store, or null when the field is malformed.
+ */
+function parseVerification(value: string): string | null {
+  let parsed: Record<string, unknown>
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    return null
+  }
+  const count = (v: unknown) => Number.isInteger(v) && (v as number) >= 0
+  if (!parsed || typeof parsed !== 'object' || !Number.isInteger(parsed.level) ||
+    (parsed.level as number) < 0 || (parsed.level as number) > 3 ||
+    !count(parsed.entities) || !count(parsed.states) || !count(parsed.constraints)) {
+    return null
+  }
+  const { entities, states, constraints } = parsed
+  const level = Math.min(parsed.level as number, MAX_SELF_REPORTED_LEVEL)
+  return JSON.stringify({ level, entities, states, constraints, selfReported: true })
+}
+
+/** Publish details of a version row, as returned in package and version metadata */
+function versionDetails(v: { verification: string | null; publisher: string | null; deprecated: string | null }) {
+  return {
+    verification: v.verification ? JSON.parse(v.verification) : undefined,
+    publishedBy: v.publisher ?? undefined,
+    deprecated: v.deprecated ?? undefined,
+  }
+}
+
 export function registerPackageRoutes(app: FastifyInstance, db: Database.Database, dataDir: string): void {
 
   // PUT /api/v1/packages/:scope/:name/:version - Publish
@@ -28,6 +61,8 @@ export function registerPackageRoutes(app: FastifyInstance, db: Database.Databas
     // Parse multipart
     let tarballBuffer: Buffer | null = null
     let manifestJson: string | null = null
+    let distTag: string | null = null
+    let verificationJson: string | null = null
 
     const parts = request.parts()
     for await (const part of parts) {
@@ -38,6 +73,10 @@ export function registerPackageRoutes(app: FastifyInstance, db: Database.Databas
       } else {
         if (part.fieldname === 'manifest') {
           manifestJson = part.value as string
+        } else if (part.fieldname === 'tag') {
+          distTag = part.value as string
+        } else if (part.fieldname === 'verification') {
+          verificationJson = part.value as string
         }
       }
     }
@@ -47,6 +86,10 @@ export function registerPackageRoutes(app: FastifyInstance, db: Database.Databas
     }
 
     const manifest = JSON.parse(manifestJson)
+    const verification = verificationJson === null ? null : parseVerification(verificationJson)
+    if (verificationJson !== null && verification === null) {
+      return reply.status(400).send({ error: 'verification must be { level: 0-3, entities, states, constraints }' })
+    }
 
     // Check version doesn't exist
     const existing = db.prepare('SELECT id FROM packages WHERE name = ?').get(packageName) as { id: number } | undefined
@@ -58,24 +101,13 @@ export function registerPackageRoutes(app: FastifyInstance, db: Database.Databas
       }
     }
 
-    // L0 verification on tarball contents
-    const tempDir = await mkdtemp(join(tmpdir(), 'specpm-verify-'))
-    try {
-      // Extract tarball to temp dir
-      const tarballTempPath = join(tempDir, 'package.tgz')
-      await writeFile(tarballTempPath, tarballBuffer)
-      const extractDir = join(tempDir, 'package')
-      await mkdir(extractDir, { recursive: true })
-      execSync(`tar xzf ${tarballTempPath} -C ${extractDir}`, { stdio: 'pipe' })
-
-      // Run L0 verification
-      const { verifyL0 } = await import('../../node_modules/cli/src/lib/verifier/l0.js').catch(() => ({ verifyL0: null }))
-      // For now, basic check: spec.yaml must exist in extracted contents
-      if (!(await fileExists(join(extractDir, 'spec.yaml')))) {
-        return reply.status(400).send({ error: 'Tarball must contain spec.yaml at root' })
-      }
-    } finally {
-      await rm(tempDir, { recursive: true, force: true })
+    // Check tarball contents in memory: no escaping paths or links, at most 1MB unpacked
+    const entries = readTarball(tarballBuffer)
+    if (!entries.ok) {
+      return reply.status(400).send({ error: `Invalid tarball: ${entries.error}` })
+    }
+    if (!entries.value.some(entry => entry.path === 'spec.yaml')) {
+      return reply.status(400).send({ error: 'Tarball must contain spec.yaml at root' })
     }
 
     // Compute integrity
@@ -91,7 +123,7 @@ export function registerPackageRoutes(app: FastifyInstance, db: Database.Databas
     let packageId: number
     if (existing) {
       packageId = existing.id
-      db.prepare('UPDATE packages SET updated_at = datetime("now") WHERE id = ?').run(packageId)
+      db.prepare("UPDATE packages SET updated_at = datetime('now') WHERE id = ?").run(packageId)
     } else {
       const result = db.prepare(
         'INSERT INTO packages (name, description, author, owner_id) VALUES (?, ?, ?, ?)'
@@ -100,8 +132,15 @@ export function registerPackageRoutes(app: FastifyInstance, db: Database.Databas
     }
 
     db.prepare(
-      'INSERT INTO versions (package_id, version, manifest, integrity, tarball_path, size) VALUES (?, ?, ?, ?, ?, ?)'
-    ).run(packageId, version, manifestJson, integrity, tarballPath, tarballBuffer.length)
+      'INSERT INTO versions (package_id, version, manifest, integrity, tarball_path, size, verification, publisher) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    ).run(packageId, version, manifestJson, integrity, tarballPath, tarballBuffer.length, verification, user.username)
+
+    // Point the dist-tag at this version (only when explicitly requested)
+    if (distTag) {
+      db.prepare(
+        'INSERT INTO dist_tags (package_id, tag, version) VALUES (?, ?, ?) ON CONFLICT(package_id, tag) DO UPDATE SET version = excluded.version'
+      ).run(packageId, distTag, version)
+    }
 
     // Index for search
     const tags = manifest.tags ?? []
@@ -136,11 +175,19 @@ export function registerPackageRoutes(app: FastifyInstance, db: Database.Databas
         integrity: v.integrity,
         size: v.size,
         publishedAt: v.published_at,
+        ...versionDetails(v),
         tarballUrl: `/api/v1/packages/${scope}/${name}/${v.version}/tarball`,
       }
     }
 
-    const etag = createHash('md5').update(JSON.stringify(versionMap)).digest('hex')
+    const tagRows = db.prepare('SELECT tag, version FROM dist_tags WHERE package_id = ?')
+      .all(pkg.id) as { tag: string; version: string }[]
+    const distTags: Record<string, string> = {}
+    for (const t of tagRows) {
+      distTags[t.tag] = t.version
+    }
+
+    const etag = createHash('md5').update(JSON.stringify({ versionMap, distTags })).digest('hex')
     if (request.headers['if-none-match'] === etag) {
       return reply.status(304).send()
     }
@@ -152,6 +199,7 @@ export function registerPackageRoutes(app: FastifyInstance, db: Database.Databas
         description: pkg.description,
         author: pkg.author,
         versions: versionMap,
+        distTags,
         createdAt: pkg.created_at,
         updatedAt: pkg.updated_at,
       })
@@ -173,7 +221,7 @@ export function registerPackageRoutes(app: FastifyInstance, db: Database.Databas
       return reply.status(404).send({ error: 'Version not found' })
     }
 
-    const etag = createHash('md5').update(v.manifest + v.integrity).digest('hex')
+    const etag = createHash('md5').update(v.manifest + v.integrity + (v.deprecated ?? '')).digest('hex')
     if (request.headers['if-none-match'] === etag) {
       return reply.status(304).send()
     }
@@ -187,10 +235,41 @@ export function registerPackageRoutes(app: FastifyInstance, db: Database.Databas
         integrity: v.integrity,
         size: v.size,
         publishedAt: v.published_at,
+        ...versionDetails(v),
         tarballUrl: `/api/v1/packages/${scope}/${name}/${v.version}/tarball`,
       })
   })
 
+  // PUT /api/v1/packages/:scope/:name/:version/deprecate - Deprecate a version (an empty message undeprecates it)
+  app.put('/api/v1/packages/:scope/:name/:version/deprecate', async (request, reply) => {
+    const user = getUserFromToken(db, request.headers.authorization)
+    if (!user) {
+      return reply.status(401).send({ error: 'Authentication required' })
+    }
+
+    const { scope, name, version } = request.params as { scope: string; name: string; version: string }
+    const { message } = (request.body ?? {}) as { message?: unknown }
+    if (typeof message !== 'string') {
+      return reply.status(400).send({ error: 'message field required' })
+    }
+
+    const pkg = db.prepare('SELECT id, owner_id FROM packages WHERE name = ?')
+      .get(`@${scope}/${name}`) as { id: number; owner_id: number } | undefined
+    if (!pkg) {
+      return reply.status(404).send({ error: 'Package not found' })
+    }
+    if (pkg.owner_id !== user.id) {
+      return reply.status(403).send({ error: 'Only the package owner can deprecate it' })
+    }
+
+    const result = db.prepare('UPDATE versions SET deprecated = ? WHERE package_id = ? AND version = ?')
+      .run(message || null, pkg.id, version)
+    if (result.changes === 0) {
+      return reply.status(404).send({ error: 'Version not found' })
+    }
+    return { name: `@${scope}/${name}`, version, deprecated: message || undefined }
+  })
+
   // GET /api/v1/packages/:scope/:name/:version/tarball - Download tarball
   app.get('/api/v1/packages/:scope/:name/:version/tarball', async (request, reply) => {
     const { scope, name, version } = request.params as { scope: string; name: string; version: string }
@@ -1,5 +1,6 @@
 import type { FastifyInstance } from 'fastify'
 import type Database from 'better-sqlite3'
+import { maxSatisfying } from 'shared'
 
 interface SearchParams {
   q?: string
@@ -104,8 +105,10 @@ export function registerSearchRoutes(app: FastifyInstance, db: Database.Database
 
     // Enrich with latest version and tags
     const enriched = results.map((row: any) => {
-      const latestVersion = db.prepare(
-        'SELECT version FROM versions WHERE package_id = ? ORDER BY published_at DESC LIMIT 1'
+      const versions = (db.prepare('SELECT version FROM versions WHERE package_id = ?')
+        .all(row.id) as { version: string }[]).map(v => v.version)
+      const latestTag = db.prepare(
+        "SELECT version FROM dist_tags WHERE package_id = ? AND tag = 'latest'"
       ).get(row.id) as { version: string } | undefined
 
       const tags = db.prepare(
@@ -114,7 +117,7 @@ export function registerSearchRoutes(app: FastifyInstance, db: Database.Database
 
       return {
         name: row.name,
-        version: latestVersion?.version ?? '0.0.0',
+        version: latestTag?.version ?? latestVersion(versions) ?? '0.0.0',
         description: row.description ?? '',
         author: row.author ?? '',
         downloads: row.downloads,
@@ -165,3 +168,10 @@ export function indexPackageForSearch(db: Database.Database, packageId: number,
   // Ensure download_counts row exists
   db.prepare('INSERT OR IGNORE INTO download_counts (package_id, count) VALUES (?, 0)').run(packageId)
 }
+
+/**
+ * Highest stable version, or the highest prerelease when nothing stable exists
+ */
+function latestVersion(versions: string[]): string | null {
+  return maxSatisfying(versions, '*') ?? maxSatisfying(versions, '*', { includePrerelease: true })
+}
@@ -7,6 +7,7 @@ import { join } from 'node:path'
 import { execSync } from 'node:child_process'
 import { createHash } from 'node:crypto'
 import { stringify } from 'yaml'
+import { createTarball } from 'shared'
 
 let app: FastifyInstance
 let dataDir: string
@@ -42,7 +43,9 @@ async function publishPackage(
   name: string,
   version: string,
   tarball: Buffer,
-  manifest: object
+  manifest: object,
+  tag?: string,
+  verification?: object,
 ) {
   const boundary = '----formdata-' + Date.now()
   const manifestStr = JSON.stringify(manifest)
@@ -52,6 +55,18 @@ async function publishPackage(
   parts.push(Buffer.from(
     `--${boundary}\r\nContent-Disposition: form-data; name="manifest"\r\n\r\n${manifestStr}\r\n`
   ))
+  // optional dist-tag field
+  if (tag) {
+    parts.push(Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="tag"\r\n\r\n${tag}\r\n`
+    ))
+  }
+  // optional verification summary
+  if (verification) {
+    parts.push(Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="verification"\r\n\r\n${JSON.stringify(verification)}\r\n`
+    ))
+  }
   // tarball file
   parts.push(Buffer.from(
     `--${boundary}\r\nContent-Disposition: form-data; name="tarball"; filename="package.tgz"\r\nContent-Type: application/gzip\r\n\r\n`
@@ -121,6 +136,21 @@ describe('Registry', () => {
       const res = await publishPackage(app, 'invalid-token', 'test', 'example', '1.0.0', tarball, manifest)
       expect(res.statusCode).toBe(401)
     })
+
+    it('rejects unreadable tarballs or ones without spec.yaml with 400', async () => {
+      const { manifest } = await createTestTarball()
+      const noSpec = createTarball([{ path: 'README.md', content: Buffer.from('# Test') }])
+      const res = await publishPackage(app, authToken, 'test', 'example', '1.0.0', noSpec, manifest)
+      expect(res.statusCode).toBe(400)
+      expect(JSON.parse(res.body).error).toContain('spec.yaml')
+
+      const { tarball } = await createTestTarball()
+      const corrupt = Buffer.from(tarball)
+      corrupt[0] = 0
+      const bad = await publishPackage(app, authToken, 'test', 'example', '1.0.0', corrupt, manifest)
+      expect(bad.statusCode).toBe(400)
+      expect(JSON.parse(bad.body).error).toContain('Invalid tarball')
+    })
   })
 
   // Task 2.3: Package storage
@@ -186,6 +216,20 @@ describe('Registry', () => {
       expect(body.integrity).toMatch(/^sha256-/)
     })
 
+    it('returns dist-tags in package metadata', async () => {
+      const { tarball, manifest } = await createTestTarball()
+      await publishPackage(app, authToken, 'test', 'example', '1.0.0', tarball, manifest, 'stable')
+      await publishPackage(app, authToken, 'test', 'example', '1.1.0', tarball, { ...manifest, version: '1.1.0' })
+
+      const res = await app.inject({
+        method: 'GET',
+        url: '/api/v1/packages/test/example',
+      })
+      const body = JSON.parse(res.body)
+      expect(Object.keys(body.versions)).toHaveLength(2)
+      expect(body.distTags).toEqual({ stable: '1.0.0' })
+    })
+
     it('returns 404 for missing package', async () => {
       const res = await app.inject({
         method: 'GET',
@@ -195,6 +239,61 @@ describe('Registry', () => {
     })
   })
 
+  describe('Publish details and deprecation', () => {
+    it('returns the verification summary and publisher with version metadata', async () => {
+      const { tarball, manifest } = await createTestTarball()
+      const verification = { level: 1, entities: 2, states: 1, constraints: 4 }
+      await publishPackage(app, authToken, 'test', 'example', '1.0.0', tarball, manifest, undefined, verification)
+
+      const res = await app.inject({ method: 'GET', url: '/api/v1/packages/test/example' })
+      const body = JSON.parse(res.body)
+      expect(body.versions['1.0.0'].verification).toEqual({ ...verification, selfReported: true })
+      expect(body.versions['1.0.0'].publishedBy).toBe('testuser')
+      expect(body.versions['1.0.0'].deprecated).toBeUndefined()
+    })
+
+    it('caps a self-reported verification level at L1', async () => {
+      const { tarball, manifest } = await createTestTarball()
+      const verification = { level: 3, entities: 0, states: 0, constraints: 0 }
+      await publishPackage(app, authToken, 'test', 'example', '1.0.0', tarball, manifest, undefined, verification)
+
+      const res = await app.inject({ method: 'GET', url: '/api/v1/packages/test/example/1.0.0' })
+      expect(JSON.parse(res.body).verification).toEqual({ ...verification, level: 1, selfReported: true })
+    })
+
+    it('rejects a malformed verification summary with 400', async () => {
+      const { tarball, manifest } = await createTestTarball()
+      const res = await publishPackage(app, authToken, 'test', 'example', '1.0.0', tarball, manifest, undefined, { level: 5 })
+      expect(res.statusCode).toBe(400)
+    })
+
+    it('lets the owner deprecate and undeprecate a version', async () => {
+      const { tarball, manifest } = await createTestTarball()
+      await publishPackage(app, authToken, 'test', 'example', '1.0.0', tarball, manifest)
+      const deprecate = (message: string, token = authToken) => app.inject({
+        method: 'PUT',
+        url: '/api/v1/packages/test/example/1.0.0/deprecate',
+        headers: { authorization: `Bearer ${token}` },
+        payload: { message },
+      })
+
+      expect((await deprecate('Use @test/other')).statusCode).toBe(200)
+      let res = await app.inject({ method: 'GET', url: '/api/v1/packages/test/example/1.0.0' })
+      expect(JSON.parse(res.body).deprecated).toBe('Use @test/other')
+
+      const other = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { username: 'someoneelse', password: 'pass123' },
+      })
+      expect((await deprecate('Mine now', JSON.parse(other.body).token)).statusCode).toBe(403)
+
+      expect((await deprecate('')).statusCode).toBe(200)
+      res = await app.inject({ method: 'GET', url: '/api/v1/packages/test/example/1.0.0' })
+      expect(JSON.parse(res.body).deprecated).toBeUndefined()
+    })
+  })
+
   // Task 2.7: Authentication
   describe('Task 2.7: Authentication', () => {
     it('login returns token', async () => {
@@ -153,4 +153,16 @@ describe('GET /api/v1/search', () => {
     expect(body.results[0].version).toBe('1.0.0')
     expect(body.results[0].tags).toContain('pagination')
   })
+
+  it('reports the highest stable version rather than the last published', async () => {
+    for (const version of ['1.2.0', '1.10.0-beta.1', '1.1.0']) {
+      await publishPackage('data', 'errors', version, {
+        name: '@data/errors', version, description: 'Error envelope spec',
+        author: 'test', license: 'MIT', tags: ['errors'],
+      })
+    }
+    const res = await app.inject({ method: 'GET', url: '/api/v1/search?q=envelope' })
+    const body = JSON.parse(res.payload)
+    expect(body.results[0].version).toBe('1.2.0')
+  })
 })
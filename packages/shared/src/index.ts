@@ -1,2 +1,5 @@
 export * from './types.js'
 export * from './schema.js'
+export * from './semver.js'
+export * from './tar.js'
+export * from './workspace.js'
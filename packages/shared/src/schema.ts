@@ -47,6 +47,10 @@ export const specYamlSchema = {
           items: { type: 'string' },
         },
         tokenBudget: { type: 'number' },
+        appliesTo: {
+          type: 'array',
+          items: { type: 'string' },
+        },
       },
       additionalProperties: false,
     },
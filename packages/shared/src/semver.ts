@@ -0,0 +1,274 @@
+/**
+ * SemVer 2.0 versions and ranges (the npm range grammar): comparators, X-ranges,
+ * tilde, caret, hyphen ranges and `||` unions, with prerelease ordering.
+ */
+
+export interface SemVer {
+  major: number
+  minor: number
+  patch: number
+  prerelease: (string | number)[]
+}
+
+interface Comparator {
+  operator: '<' | '<=' | '>' | '>=' | '='
+  version: SemVer
+}
+
+export interface SatisfiesOptions {
+  /** Let prerelease versions match any range, not just ones naming a prerelease of the same version */
+  includePrerelease?: boolean
+}
+
+const VERSION_PATTERN = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/
+const PARTIAL_PATTERN = /^v?(\*|x|X|0|[1-9]\d*)(?:\.(\*|x|X|0|[1-9]\d*)(?:\.(\*|x|X|0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?)?)?$/
+
+function parsePrerelease(prerelease: string | undefined): (string | number)[] {
+  if (!prerelease) return []
+  return prerelease.split('.').map(id => /^\d+$/.test(id) ? parseInt(id, 10) : id)
+}
+
+/**
+ * Parse a full version string. Build metadata is accepted and ignored.
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(VERSION_PATTERN)
+  if (!match) return null
+  return {
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2], 10),
+    patch: parseInt(match[3], 10),
+    prerelease: parsePrerelease(match[4]),
+  }
+}
+
+function compareIdentifiers(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  // Numeric identifiers always have lower precedence than alphanumeric ones
+  if (typeof a === 'number') return -1
+  if (typeof b === 'number') return 1
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function compareParsed(a: SemVer, b: SemVer): number {
+  if (a.major !== b.major) return a.major - b.major
+  if (a.minor !== b.minor) return a.minor - b.minor
+  if (a.patch !== b.patch) return a.patch - b.patch
+
+  // A release ranks above any of its prereleases
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    if (a.prerelease[i] === undefined) return -1
+    if (b.prerelease[i] === undefined) return 1
+    const diff = compareIdentifiers(a.prerelease[i], b.prerelease[i])
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+/**
+ * Compare two versions by SemVer precedence. Returns a negative number, zero or a positive number.
+ * Unparseable versions sort before valid ones.
+ */
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a)
+  const vb = parseVersion(b)
+  if (!va || !vb) return (va ? 1 : 0) - (vb ? 1 : 0)
+  return compareParsed(va, vb)
+}
+
+export function isPrerelease(version: string): boolean {
+  return (parseVersion(version)?.prerelease.length ?? 0) > 0
+}
+
+interface PartialVersion {
+  major: number | null
+  minor: number | null
+  patch: number | null
+  prerelease: (string | number)[]
+}
+
+function parsePartial(text: string): PartialVersion | null {
+  const match = text.match(PARTIAL_PATTERN)
+  if (!match) return null
+  const num = (part: string | undefined) => part === undefined || /^[*xX]$/.test(part) ? null : parseInt(part, 10)
+  const major = num(match[1])
+  const minor = major === null ? null : num(match[2])
+  const patch = minor === null ? null : num(match[3])
+  return { major, minor, patch, prerelease: patch === null ? [] : parsePrerelease(match[4]) }
+}
+
+function version(major: number, minor: number, patch: number, prerelease: (string | number)[] = []): SemVer {
+  return { major, minor, patch, prerelease }
+}
+
+/** The lowest version of the given release, below all its prereleases (`1.2.0-0`) */
+function floor(major: number, minor: number, patch: number): SemVer {
+  return version(major, minor, patch, [0])
+}
+
+function lowerBound(p: PartialVersion): SemVer {
+  return version(p.major ?? 0, p.minor ?? 0, p.patch ?? 0, p.prerelease)
+}
+
+/** Exclusive upper bound for a partial version: `1` → `<2.0.0-0`, `1.2` → `<1.3.0-0` */
+function upperBound(p: PartialVersion): SemVer | null {
+  if (p.major === null) return null
+  if (p.minor === null) return floor(p.major + 1, 0, 0)
+  return floor(p.major, p.minor + 1, 0)
+}
+
+/** Comparators matching every version of a partial: `1.x` → `>=1.0.0 <2.0.0-0` */
+function xRange(p: PartialVersion): Comparator[] {
+  if (p.major === null) return []
+  if (p.patch !== null) return [{ operator: '=', version: lowerBound(p) }]
+  return [
+    { operator: '>=', version: lowerBound(p) },
+    { operator: '<', version: upperBound(p)! },
+  ]
+}
+
+function tilde(p: PartialVersion): Comparator[] {
+  if (p.major === null) return []
+  return [
+    { operator: '>=', version: lowerBound(p) },
+    { operator: '<', version: p.minor === null ? floor(p.major + 1, 0, 0) : floor(p.major, p.minor + 1, 0) },
+  ]
+}
+
+/** Caret ranges allow changes that do not modify the left-most non-zero part */
+function caret(p: PartialVersion): Comparator[] {
+  if (p.major === null) return []
+  let upper: SemVer
+  if (p.major > 0 || p.minor === null) {
+    upper = floor(p.major + 1, 0, 0)
+  } else if (p.minor > 0 || p.patch === null) {
+    upper = floor(0, p.minor + 1, 0)
+  } else {
+    upper = floor(0, 0, p.patch + 1)
+  }
+  return [{ operator: '>=', version: lowerBound(p) }, { operator: '<', version: upper }]
+}
+
+const NEVER: Comparator[] = [{ operator: '<', version: floor(0, 0, 0) }]
+
+function primitive(operator: string, p: PartialVersion): Comparator[] {
+  if (operator === '' || operator === '=') return xRange(p)
+  if (p.major === null) {
+    // `>=*` and `<=*` match anything; `>*` and `<*` match nothing
+    return operator === '>=' || operator === '<=' ? [] : NEVER
+  }
+  if (p.patch !== null) {
+    return [{ operator: operator as Comparator['operator'], version: lowerBound(p) }]
+  }
+  switch (operator) {
+    case '>=': return [{ operator: '>=', version: lowerBound(p) }]
+    case '<': return [{ operator: '<', version: floor(p.major, p.minor ?? 0, 0) }]
+    case '>': return [{ operator: '>=', version: p.minor === null ? version(p.major + 1, 0, 0) : version(p.major, p.minor + 1, 0) }]
+    case '<=': return [{ operator: '<', version: upperBound(p)! }]
+  }
+  return NEVER
+}
+
+function parseSimple(token: string): Comparator[] | null {
+  const match = token.match(/^(<=|>=|<|>|=|~>?|\^)?(.*)$/)!
+  const operator = match[1] ?? ''
+  const p = parsePartial(match[2])
+  if (!p) return null
+  if (operator.startsWith('~')) return tilde(p)
+  if (operator === '^') return caret(p)
+  return primitive(operator, p)
+}
+
+function parseHyphen(from: string, to: string): Comparator[] | null {
+  const low = parsePartial(from)
+  const high = parsePartial(to)
+  if (!low || !high) return null
+
+  const comparators: Comparator[] = []
+  if (low.major !== null) comparators.push({ operator: '>=', version: lowerBound(low) })
+  if (high.major !== null) {
+    comparators.push(high.patch !== null
+      ? { operator: '<=', version: lowerBound(high) }
+      : { operator: '<', version: upperBound(high)! })
+  }
+  return comparators
+}
+
+/**
+ * Parse a range into a union of comparator sets, or null if it is not valid
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = []
+  for (const part of range.split('||')) {
+    // Allow whitespace between an operator and its version: `>= 1.2.3`
+    const text = part.trim().replace(/(<=|>=|<|>|=|~>?|\^)\s+/g, '$1')
+
+    const hyphen = text.match(/^(\S+)\s+-\s+(\S+)$/)
+    if (hyphen) {
+      const comparators = parseHyphen(hyphen[1], hyphen[2])
+      if (!comparators) return null
+      sets.push(comparators)
+      continue
+    }
+
+    const comparators: Comparator[] = []
+    for (const token of text.split(/\s+/).filter(Boolean)) {
+      const parsed = parseSimple(token)
+      if (!parsed) return null
+      comparators.push(...parsed)
+    }
+    sets.push(comparators)
+  }
+  return sets
+}
+
+export function validRange(range: string): boolean {
+  return parseRange(range) !== null
+}
+
+function testComparator(v: SemVer, c: Comparator): boolean {
+  const cmp = compareParsed(v, c.version)
+  switch (c.operator) {
+    case '<': return cmp < 0
+    case '<=': return cmp <= 0
+    case '>': return cmp > 0
+    case '>=': return cmp >= 0
+    case '=': return cmp === 0
+  }
+}
+
+function testSet(v: SemVer, set: Comparator[], options: SatisfiesOptions): boolean {
+  if (!set.every(c => testComparator(v, c))) return false
+  if (v.prerelease.length === 0 || options.includePrerelease) return true
+
+  // A prerelease only matches when the range names a prerelease of the same release,
+  // so `^1.0.0` never picks up `2.0.0-beta.1` or `1.5.0-beta.1` by accident
+  return set.some(c =>
+    c.version.prerelease.length > 0 &&
+    c.version.major === v.major && c.version.minor === v.minor && c.version.patch === v.patch)
+}
+
+/**
+ * Check whether a version satisfies a range. Invalid versions or ranges never match.
+ */
+export function satisfies(versionString: string, range: string, options: SatisfiesOptions = {}): boolean {
+  const v = parseVersion(versionString)
+  const sets = parseRange(range)
+  if (!v || !sets) return false
+  return sets.some(set => testSet(v, set, options))
+}
+
+/**
+ * The highest version that satisfies a range, or null if none does
+ */
+export function maxSatisfying(versions: string[], range: string, options: SatisfiesOptions = {}): string | null {
+  let best: string | null = null
+  for (const v of versions) {
+    if (!satisfies(v, range, options)) continue
+    if (best === null || compareVersions(v, best) > 0) best = v
+  }
+  return best
+}
@@ -0,0 +1,329 @@
+/**
+ * In-process tar + gzip for spec package tarballs, shared by publish, install and the registry.
+ * Reads ustar, pax and GNU long-name archives; writes deterministic ustar (pax for long paths).
+ * Only regular files and directories are accepted: absolute paths, `..` segments, symlinks,
+ * hardlinks and device entries are rejected, and unpacked contents are capped at MAX_UNPACKED_SIZE.
+ */
+import { gzipSync, gunzipSync } from 'node:zlib'
+import { readdir, readFile, writeFile, mkdir, lstat } from 'node:fs/promises'
+import { join, dirname, resolve, relative, isAbsolute, sep } from 'node:path'
+import type { Result } from './types.js'
+
+/** 1MB: the most a spec package may hold once unpacked */
+export const MAX_UNPACKED_SIZE = 1_048_576
+
+export interface TarFile {
+  /** Relative path with `/` separators */
+  path: string
+  content: Buffer
+}
+
+export interface TarLimits {
+  /** Maximum total size of the unpacked files in bytes (default MAX_UNPACKED_SIZE) */
+  maxSize?: number
+}
+
+export interface PackOptions extends TarLimits {
+  /** File or directory names skipped at any depth, e.g. `.git` or `node_modules` */
+  exclude?: string[]
+}
+
+const BLOCK = 512
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Check an entry path and normalize it (`./a//b/` → `a/b`). Returns null for paths that
+ * would land outside the extraction directory.
+ */
+function safeEntryPath(path: string): string | null {
+  if (path.includes('\0') || path.includes('\\') || path.startsWith('/') || /^[A-Za-z]:/.test(path)) return null
+  const segments = path.split('/').filter(segment => segment !== '' && segment !== '.')
+  if (segments.some(segment => segment === '..')) return null
+  return segments.join('/')
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end === -1 ? length : end).toString('utf-8')
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  const text = readString(block, offset, length).trim()
+  return text === '' ? 0 : parseInt(text, 8)
+}
+
+function checksum(block: Buffer): number {
+  let sum = 0
+  for (let i = 0; i < BLOCK; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : block[i]
+  }
+  return sum
+}
+
+/** Parse pax `<length> key=value\n` records */
+function parsePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {}
+  let offset = 0
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset)
+    if (space === -1) break
+    const length = parseInt(data.subarray(offset, space).toString('utf-8'), 10)
+    if (!(length > 0)) break
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf-8')
+    const equals = record.indexOf('=')
+    if (equals > 0) records[record.slice(0, equals)] = record.slice(equals + 1)
+    offset += length
+  }
+  return records
+}
+
+/**
+ * Read a gzipped tarball into memory without touching the filesystem
+ */
+export function readTarball(tarball: Buffer, limits: TarLimits = {}): Result<TarFile[], string> {
+  const maxSize = limits.maxSize ?? MAX_UNPACKED_SIZE
+
+  let archive: Buffer
+  try {
+    // Headers and padding add to the file contents; anything beyond twice the limit is a bomb
+    archive = gunzipSync(tarball, { maxOutputLength: maxSize * 2 + BLOCK * 64 })
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+      return { ok: false, error: `Tarball exceeds the ${maxSize} byte unpacked size limit` }
+    }
+    return { ok: false, error: `Not a gzipped tarball: ${errorMessage(error)}` }
+  }
+
+  const files: TarFile[] = []
+  const seen = new Set<string>()
+  let total = 0
+  let longName: string | null = null
+  let paxPath: string | null = null
+  let offset = 0
+
+  while (offset + BLOCK <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK)
+    // Two zero blocks (or one, from lenient writers) end the archive
+    if (header.every(byte => byte === 0)) break
+
+    if (checksum(header) !== readOctal(header, 148, 8)) {
+      return { ok: false, error: `Corrupt tarball: bad header checksum at offset ${offset}` }
+    }
+
+    const size = readOctal(header, 124, 12)
+    const type = String.fromCharCode(header[156] || 0x30)
+    const dataStart = offset + BLOCK
+    const dataEnd = dataStart + size
+    if (!Number.isFinite(size) || size < 0 || dataEnd > archive.length) {
+      return { ok: false, error: 'Corrupt tarball: entry runs past the end of the archive' }
+    }
+    const data = archive.subarray(dataStart, dataEnd)
+    offset = dataStart + Math.ceil(size / BLOCK) * BLOCK
+
+    // Extended headers describe the entry that follows
+    if (type === 'L') {
+      longName = readString(data, 0, data.length)
+      continue
+    }
+    if (type === 'x') {
+      paxPath = parsePax(data)['path'] ?? null
+      continue
+    }
+    if (type === 'g') continue
+
+    const prefix = readString(header, 345, 155)
+    const name = readString(header, 0, 100)
+    const rawPath = paxPath ?? longName ?? (prefix ? `${prefix}/${name}` : name)
+    longName = null
+    paxPath = null
+
+    const path = safeEntryPath(rawPath)
+    if (path === null) {
+      return { ok: false, error: `Refusing to extract ${rawPath}: path escapes the package directory` }
+    }
+
+    if (type === '5') continue
+    if (type === '1' || type === '2') {
+      return { ok: false, error: `Refusing to extract ${rawPath}: ${type === '2' ? 'symlinks' : 'hardlinks'} are not allowed` }
+    }
+    if (type !== '0' && type !== '7') {
+      return { ok: false, error: `Refusing to extract ${rawPath}: unsupported entry type '${type}'` }
+    }
+    if (path === '') {
+      return { ok: false, error: 'Corrupt tarball: file entry without a name' }
+    }
+
+    total += size
+    if (total > maxSize) {
+      return { ok: false, error: `Tarball exceeds the ${maxSize} byte unpacked size limit` }
+    }
+    // Later entries replace earlier ones, as with tar itself
+    if (seen.has(path)) {
+      files.splice(files.findIndex(file => file.path === path), 1)
+    }
+    seen.add(path)
+    files.push({ path, content: Buffer.from(data) })
+  }
+
+  // A file and a directory can't share a path
+  for (const file of files) {
+    if (files.some(other => other.path.startsWith(`${file.path}/`))) {
+      return { ok: false, error: `Corrupt tarball: ${file.path} is both a file and a directory` }
+    }
+  }
+
+  return { ok: true, value: files }
+}
+
+function writeString(block: Buffer, value: string, offset: number, length: number): void {
+  block.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf-8')
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+  writeString(block, value.toString(8).padStart(length - 1, '0'), offset, length - 1)
+}
+
+function header(path: string, size: number, type: string): Buffer {
+  const block = Buffer.alloc(BLOCK)
+  writeString(block, path, 0, 100)
+  writeOctal(block, type === '5' ? 0o755 : 0o644, 100, 8)
+  writeOctal(block, 0, 108, 8) // uid
+  writeOctal(block, 0, 116, 8) // gid
+  writeOctal(block, size, 124, 12)
+  writeOctal(block, 0, 136, 12) // mtime: fixed, so the same files always pack to the same bytes
+  block[156] = type.charCodeAt(0)
+  writeString(block, 'ustar', 257, 6)
+  writeString(block, '00', 263, 2)
+  writeOctal(block, checksum(block), 148, 7)
+  block[155] = 0x20
+  return block
+}
+
+function padding(size: number): Buffer {
+  return Buffer.alloc((BLOCK - (size % BLOCK)) % BLOCK)
+}
+
+/**
+ * The longest start of `value` that fits in `bytes` bytes of UTF-8, without splitting a character
+ */
+function truncateUtf8(value: string, bytes: number): string {
+  const encoded = Buffer.from(value)
+  if (encoded.length <= bytes) return value
+  let end = bytes
+  // Back up over continuation bytes to the start of the character that would be cut
+  while (end > 0 && (encoded[end] & 0xc0) === 0x80) end--
+  return encoded.subarray(0, end).toString('utf-8')
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`
+  let length = Buffer.byteLength(body) + 1
+  while (String(length).length + Buffer.byteLength(body) !== length) length++
+  return `${length}${body}`
+}
+
+/** Compare paths by code point; `localeCompare` would make the bytes depend on the locale */
+function compareCodePoints(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * Pack files into a gzipped tarball. Files are written in path order with fixed metadata,
+ * so the same files always produce the same bytes (and the same integrity hash).
+ */
+export function createTarball(files: TarFile[]): Buffer {
+  const blocks: Buffer[] = []
+  for (const file of [...files].sort((a, b) => compareCodePoints(a.path, b.path))) {
+    const path = safeEntryPath(file.path)
+    if (!path) throw new Error(`Invalid tarball entry path: ${file.path}`)
+
+    if (Buffer.byteLength(path) > 100) {
+      const pax = Buffer.from(paxRecord('path', path))
+      blocks.push(header('PaxHeader', pax.length, 'x'), pax, padding(pax.length))
+    }
+    blocks.push(header(truncateUtf8(path, 100), file.content.length, '0'))
+    blocks.push(file.content, padding(file.content.length))
+  }
+  blocks.push(Buffer.alloc(BLOCK * 2))
+  return gzipSync(Buffer.concat(blocks))
+}
+
+/**
+ * Pack a directory's files. Symlinks are rejected rather than followed or stored.
+ */
+export async function packDirectory(directory: string, options: PackOptions = {}): Promise<Result<Buffer, string>> {
+  const maxSize = options.maxSize ?? MAX_UNPACKED_SIZE
+  const exclude = new Set(options.exclude ?? [])
+  const files: TarFile[] = []
+  let total = 0
+
+  async function walk(dir: string): Promise<string | null> {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      if (exclude.has(entry.name)) continue
+      const fullPath = join(dir, entry.name)
+      const path = relative(directory, fullPath).split(sep).join('/')
+      if (entry.isSymbolicLink()) {
+        return `Cannot pack ${path}: symlinks are not allowed in spec packages`
+      }
+      if (entry.isDirectory()) {
+        const error = await walk(fullPath)
+        if (error) return error
+      } else if (entry.isFile()) {
+        const content = await readFile(fullPath)
+        total += content.length
+        if (total > maxSize) {
+          return `Package exceeds the ${maxSize} byte size limit`
+        }
+        files.push({ path, content })
+      }
+    }
+    return null
+  }
+
+  try {
+    const error = await walk(directory)
+    if (error) return { ok: false, error }
+  } catch (error) {
+    return { ok: false, error: `Failed to read ${directory}: ${errorMessage(error)}` }
+  }
+  return { ok: true, value: createTarball(files) }
+}
+
+/**
+ * Extract a gzipped tarball into `targetDir`. Nothing is written unless the whole archive is valid.
+ * Returns the extracted paths.
+ */
+export async function unpackTarball(
+  tarball: Buffer,
+  targetDir: string,
+  limits: TarLimits = {},
+): Promise<Result<string[], string>> {
+  const filesResult = readTarball(tarball, limits)
+  if (!filesResult.ok) return filesResult
+
+  const root = resolve(targetDir)
+  try {
+    for (const file of filesResult.value) {
+      const target = resolve(root, ...file.path.split('/'))
+      const rel = relative(root, target)
+      if (rel.startsWith('..') || isAbsolute(rel)) {
+        return { ok: false, error: `Refusing to extract ${file.path}: path escapes the package directory` }
+      }
+      await mkdir(dirname(target), { recursive: true })
+      // A symlink already in the target directory must not redirect the write
+      const existing = await lstat(target).catch(() => null)
+      if (existing?.isSymbolicLink()) {
+        return { ok: false, error: `Refusing to extract ${file.path}: target is a symlink` }
+      }
+      await writeFile(target, file.content)
+    }
+  } catch (error) {
+    return { ok: false, error: `Failed to extract tarball: ${errorMessage(error)}` }
+  }
+  return { ok: true, value: filesResult.value.map(file => file.path) }
+}
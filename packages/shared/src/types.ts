@@ -15,6 +15,8 @@ export interface SpecYaml {
   context?: {
     priority?: string[]
     tokenBudget?: number
+    /** Globs for the project files this spec is about, e.g. `src/auth/**` */
+    appliesTo?: string[]
   }
 }
 
@@ -33,6 +35,11 @@ export interface ConstraintsFile {
 export interface SpecPackage {
   manifest: SpecYaml
   directory: string
+  /**
+   * Name in the package's own spec.yaml, when it is installed under another name (an alias
+   * or a replacement). `manifest.name` is always the name it is installed as.
+   */
+  aliasOf?: string
   entities: Record<string, unknown>[]
   states: Record<string, unknown>[]
   constraints: ConstraintDefinition[]
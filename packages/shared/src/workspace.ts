@@ -0,0 +1,73 @@
+/**
+ * How installed specs are found for a project, shared by the CLI and the ESLint plugin.
+ * Reading specpm.yaml is left to the caller, which passes in a reader.
+ */
+import { dirname, relative, normalize, sep } from 'node:path'
+import type { SpecPackage } from './types.js'
+
+/** specpm.yaml parsed into an object, or null when it is missing or unreadable */
+export type ManifestReader = (directory: string) => Record<string, unknown> | null
+
+/**
+ * Whether a `workspaces:` entry (a directory, or `dir/*`) covers a path relative to the root
+ */
+export function matchesWorkspace(pattern: string, path: string): boolean {
+  const trimmed = normalize(pattern).split(sep).join('/').replace(/\/+$/, '')
+  if (trimmed === '*') return !path.includes('/')
+  if (trimmed.endsWith('/*')) {
+    const base = trimmed.slice(0, -2)
+    return path.startsWith(`${base}/`) && !path.slice(base.length + 1).includes('/')
+  }
+  return trimmed === path
+}
+
+/**
+ * Walk up from a project to the workspace root that lists it under `workspaces:`, or null
+ * for a standalone project (or a workspace root itself). A directory without a readable
+ * specpm.yaml is never a workspace.
+ */
+export function workspaceRootOf(projectRoot: string, readManifest: ManifestReader): string | null {
+  if (!readManifest(projectRoot)) return null
+  let dir = dirname(projectRoot)
+  while (true) {
+    const workspaces = readManifest(dir)?.['workspaces']
+    if (Array.isArray(workspaces)) {
+      const path = relative(dir, projectRoot).split(sep).join('/')
+      if (workspaces.some(pattern => typeof pattern === 'string' && matchesWorkspace(pattern, path))) {
+        return dir
+      }
+    }
+    const parent = dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+}
+
+/**
+ * The specs a project depends on, directly or transitively, out of those installed at its
+ * workspace root. With no manifest, nothing is reachable.
+ */
+export function reachableSpecs(manifest: Record<string, unknown> | null, specs: SpecPackage[]): SpecPackage[] {
+  const byName = new Map(specs.map(spec => [spec.manifest.name, spec]))
+  const reached = new Set<string>()
+  const stack = [
+    ...Object.keys((manifest?.['dependencies'] ?? {}) as Record<string, string>),
+    ...Object.keys((manifest?.['devDependencies'] ?? {}) as Record<string, string>),
+  ]
+  while (stack.length > 0) {
+    const name = stack.pop()!
+    if (reached.has(name)) continue
+    reached.add(name)
+    stack.push(...Object.keys(byName.get(name)?.manifest.dependencies ?? {}))
+  }
+  return specs.filter(spec => reached.has(spec.manifest.name))
+}
+
+/**
+ * A package as seen under the name it is installed as. An alias or a replacement keeps its own
+ * name in `aliasOf`, so everything that looks specs up by name finds it in place of the original.
+ */
+export function installedAs(spec: SpecPackage, name: string): SpecPackage {
+  if (spec.manifest.name === name) return spec
+  return { ...spec, manifest: { ...spec.manifest, name }, aliasOf: spec.manifest.name }
+}
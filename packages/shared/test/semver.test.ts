@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { compareVersions, satisfies, maxSatisfying, validRange, parseVersion } from '../src/semver.js'
+
+describe('parseVersion', () => {
+  it('parses prerelease and ignores build metadata', () => {
+    expect(parseVersion('1.2.3-beta.1+build.5')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: ['beta', 1] })
+  })
+
+  it('rejects partial or malformed versions', () => {
+    expect(parseVersion('1.2')).toBeNull()
+    expect(parseVersion('01.2.3')).toBeNull()
+    expect(parseVersion('latest')).toBeNull()
+  })
+})
+
+describe('compareVersions', () => {
+  it('orders by SemVer precedence', () => {
+    const ordered = [
+      '1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta',
+      '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0', '1.0.1', '1.10.0', '2.0.0',
+    ]
+    const shuffled = [...ordered].reverse()
+    expect(shuffled.sort(compareVersions)).toEqual(ordered)
+  })
+
+  it('ignores build metadata', () => {
+    expect(compareVersions('1.0.0+a', '1.0.0+b')).toBe(0)
+  })
+})
+
+describe('satisfies', () => {
+  const cases: [string, string, boolean][] = [
+    ['1.2.3', '1.2.3', true],
+    ['1.2.4', '1.2.3', false],
+    ['1.2.3', '=1.2.3', true],
+    ['1.9.0', '^1.2.3', true],
+    ['2.0.0', '^1.2.3', false],
+    ['0.2.5', '^0.2.3', true],
+    ['0.3.0', '^0.2.3', false],
+    ['0.0.3', '^0.0.3', true],
+    ['0.0.4', '^0.0.3', false],
+    ['0.0.9', '^0.0', true],
+    ['0.1.0', '^0.0', false],
+    ['1.2.9', '~1.2.3', true],
+    ['1.3.0', '~1.2.3', false],
+    ['1.9.0', '~1', true],
+    ['1.5.0', '1.x', true],
+    ['2.0.0', '1.x', false],
+    ['1.2.7', '1.2.*', true],
+    ['1.3.0', '1.2', false],
+    ['5.0.0', '*', true],
+    ['5.0.0', '', true],
+    ['1.5.0', '>=1.2.0 <2.0.0', true],
+    ['2.0.0', '>=1.2.0 <2.0.0', false],
+    ['1.1.0', '>= 1.2.0', false],
+    ['1.3.0', '1.2 - 1.4', true],
+    ['1.4.9', '1.2 - 1.4', true],
+    ['1.5.0', '1.2 - 1.4', false],
+    ['1.2.3', '1.2.3 - 2.3.4', true],
+    ['2.3.5', '1.2.3 - 2.3.4', false],
+    ['2.5.0', '^1.0.0 || ^2.0.0', true],
+    ['3.0.0', '^1.0.0 || ^2.0.0', false],
+    ['1.3.0', '>1.2', true],
+    ['1.2.9', '>1.2', false],
+    ['1.1.9', '<1.2', true],
+    ['1.2.0', '<1.2', false],
+    ['1.2.9', '<=1.2', true],
+    ['1.3.0', '<=1.2', false],
+    ['1.2.3-beta.2', '^1.2.3-beta.1', true],
+    ['1.2.3', '^1.2.3-beta.1', true],
+    ['1.3.0-beta.1', '^1.2.3-beta.1', false],
+    ['2.0.0-beta.1', '^1.0.0', false],
+    ['1.5.0-beta.1', '^1.0.0', false],
+    ['1.0.0-beta.1', '*', false],
+    ['1.0.0-rc.1', '>=1.0.0-beta.2 <1.0.0', true],
+  ]
+
+  for (const [version, range, expected] of cases) {
+    it(`${version} ${expected ? 'satisfies' : 'does not satisfy'} "${range}"`, () => {
+      expect(satisfies(version, range)).toBe(expected)
+    })
+  }
+
+  it('matches any prerelease with includePrerelease', () => {
+    expect(satisfies('1.5.0-beta.1', '^1.0.0', { includePrerelease: true })).toBe(true)
+  })
+
+  it('never matches invalid input', () => {
+    expect(satisfies('not-a-version', '*')).toBe(false)
+    expect(satisfies('1.0.0', '>=abc')).toBe(false)
+  })
+})
+
+describe('validRange', () => {
+  it('accepts the range grammar and rejects garbage', () => {
+    expect(validRange('>=1.2.0 <2.0.0 || 3.x')).toBe(true)
+    expect(validRange('1.2 - 1.4')).toBe(true)
+    expect(validRange('beta')).toBe(false)
+  })
+})
+
+describe('maxSatisfying', () => {
+  it('orders prereleases correctly', () => {
+    expect(maxSatisfying(['1.0.0-beta.2', '1.0.0-beta.10', '1.0.0-beta.9'], '>=1.0.0-beta.1 <1.0.0')).toBe('1.0.0-beta.10')
+  })
+
+  it('prefers releases over their prereleases', () => {
+    expect(maxSatisfying(['1.0.0-rc.1', '1.0.0'], '^1.0.0-rc.1')).toBe('1.0.0')
+  })
+})
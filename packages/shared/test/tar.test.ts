@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, mkdir, writeFile, readFile, symlink, access } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { gzipSync, gunzipSync } from 'node:zlib'
+import { execFileSync } from 'node:child_process'
+import { createTarball, readTarball, packDirectory, unpackTarball, MAX_UNPACKED_SIZE } from '../src/tar.js'
+
+/** A raw tar header with a valid checksum, for entries createTarball refuses to write */
+function rawEntry(name: string, type: string, content = Buffer.alloc(0), linkname = ''): Buffer {
+  const header = Buffer.alloc(512)
+  header.write(name, 0)
+  header.write('0000644\0', 100)
+  header.write(content.length.toString(8).padStart(11, '0'), 124)
+  header.write('00000000000', 136)
+  header.write(type, 156)
+  header.write(linkname, 157)
+  header.write('ustar\0', 257)
+  header.fill(0x20, 148, 156)
+  let sum = 0
+  for (const byte of header) sum += byte
+  header.write(sum.toString(8).padStart(6, '0') + '\0 ', 148)
+  const padding = Buffer.alloc((512 - (content.length % 512)) % 512)
+  return Buffer.concat([header, content, padding])
+}
+
+function rawTarball(...entries: Buffer[]): Buffer {
+  return gzipSync(Buffer.concat([...entries, Buffer.alloc(1024)]))
+}
+
+let tmp: string
+
+beforeEach(async () => {
+  tmp = await mkdtemp(join(tmpdir(), 'specpm-tar-'))
+})
+
+afterEach(async () => {
+  await rm(tmp, { recursive: true, force: true })
+})
+
+describe('createTarball / readTarball', () => {
+  it('round-trips files, including nested and long paths', () => {
+    const longPath = `${'deeply/nested/'.repeat(10)}schema with spaces.json`
+    const files = [
+      { path: 'spec.yaml', content: Buffer.from('name: "@acme/example"\n') },
+      { path: 'entities/user.json', content: Buffer.from('{}') },
+      { path: longPath, content: Buffer.from('{"type":"object"}') },
+      { path: 'empty.md', content: Buffer.alloc(0) },
+    ]
+    const result = readTarball(createTarball(files))
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(Object.fromEntries(result.value.map(f => [f.path, f.content.toString()]))).toEqual(
+      Object.fromEntries(files.map(f => [f.path, f.content.toString()])),
+    )
+  })
+
+  it('writes entries in code-point order whatever the locale', () => {
+    const files = ['b.md', 'B.md', 'a.md', 'é.md'].map(path => ({ path, content: Buffer.from(path) }))
+    const result = readTarball(createTarball(files))
+    expect(result.ok && result.value.map(f => f.path)).toEqual(['B.md', 'a.md', 'b.md', 'é.md'])
+  })
+
+  it('cuts long multibyte paths in the ustar header on a character boundary', () => {
+    const path = `docs/${'é'.repeat(30)}${'😀'.repeat(10)}.md`
+    const tarball = createTarball([{ path, content: Buffer.from('# Docs') }])
+
+    // The pax header carries the full path; the ustar header after it holds as much as fits
+    const archive = gunzipSync(tarball)
+    const ustar = archive.subarray(1024, 1024 + 100)
+    const name = ustar.subarray(0, ustar.indexOf(0) === -1 ? 100 : ustar.indexOf(0)).toString('utf-8')
+    expect(name).not.toContain('\uFFFD')
+    expect(path.startsWith(name)).toBe(true)
+
+    const result = readTarball(tarball)
+    expect(result.ok && result.value.map(f => f.path)).toEqual([path])
+  })
+
+  it('produces the same bytes for the same files in any order', () => {
+    const a = { path: 'a.txt', content: Buffer.from('a') }
+    const b = { path: 'b/b.txt', content: Buffer.from('b') }
+    expect(createTarball([a, b]).equals(createTarball([b, a]))).toBe(true)
+  })
+
+  it('produces archives the system tar can read', async () => {
+    await writeFile(join(tmp, 'package.tgz'), createTarball([
+      { path: 'spec.yaml', content: Buffer.from('version: 1.0.0\n') },
+      { path: 'docs/guide.md', content: Buffer.from('# Guide') },
+    ]))
+    const listing = execFileSync('tar', ['tzf', join(tmp, 'package.tgz')], { encoding: 'utf-8' })
+    expect(listing.trim().split('\n').sort()).toEqual(['docs/guide.md', 'spec.yaml'])
+  })
+
+  it('reads archives written by the system tar', async () => {
+    const src = join(tmp, 'src')
+    await mkdir(join(src, 'entities'), { recursive: true })
+    await writeFile(join(src, 'spec.yaml'), 'version: 1.0.0\n')
+    await writeFile(join(src, 'entities', 'user.json'), '{}')
+    execFileSync('tar', ['czf', join(tmp, 'package.tgz'), '-C', src, '.'])
+
+    const result = readTarball(await readFile(join(tmp, 'package.tgz')))
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.map(f => f.path).sort()).toEqual(['entities/user.json', 'spec.yaml'])
+  })
+
+  it('rejects entries that escape the package directory', () => {
+    for (const name of ['../evil.txt', 'docs/../../evil.txt', '/etc/evil.txt']) {
+      const result = readTarball(rawTarball(rawEntry(name, '0', Buffer.from('x'))))
+      expect(result.ok).toBe(false)
+      if (!result.ok) expect(result.error).toContain('escapes the package directory')
+    }
+  })
+
+  it('rejects symlinks and hardlinks', () => {
+    const symlinked = readTarball(rawTarball(rawEntry('spec.yaml', '2', Buffer.alloc(0), '/etc/passwd')))
+    expect(symlinked.ok).toBe(false)
+    if (!symlinked.ok) expect(symlinked.error).toContain('symlinks are not allowed')
+
+    const hardlinked = readTarball(rawTarball(rawEntry('spec.yaml', '1', Buffer.alloc(0), 'other')))
+    expect(hardlinked.ok).toBe(false)
+    if (!hardlinked.ok) expect(hardlinked.error).toContain('hardlinks are not allowed')
+  })
+
+  it('rejects corrupt headers', () => {
+    const entry = rawEntry('spec.yaml', '0', Buffer.from('x'))
+    entry[0] = 'S'.charCodeAt(0)
+    const result = readTarball(rawTarball(entry))
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error).toContain('checksum')
+  })
+
+  it('enforces the unpacked size limit', () => {
+    const big = createTarball([{ path: 'big.txt', content: Buffer.alloc(MAX_UNPACKED_SIZE + 1, 'a') }])
+    // Compresses to a few KB, so only the unpacked size can catch it
+    expect(big.length).toBeLessThan(10_000)
+    const result = readTarball(big)
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error).toContain('size limit')
+
+    const bomb = gzipSync(Buffer.alloc(MAX_UNPACKED_SIZE * 4))
+    const bombResult = readTarball(bomb)
+    expect(bombResult.ok).toBe(false)
+    if (!bombResult.ok) expect(bombResult.error).toContain('size limit')
+  })
+})
+
+describe('packDirectory', () => {
+  it('packs a directory, skipping excluded names at any depth', async () => {
+    await mkdir(join(tmp, 'docs', 'node_modules'), { recursive: true })
+    await mkdir(join(tmp, '.git'))
+    await writeFile(join(tmp, 'spec.yaml'), 'version: 1.0.0\n')
+    await writeFile(join(tmp, 'docs', 'guide.md'), '# Guide')
+    await writeFile(join(tmp, 'docs', 'node_modules', 'x.js'), '')
+    await writeFile(join(tmp, '.git', 'HEAD'), 'ref: refs/heads/main')
+
+    const result = await packDirectory(tmp, { exclude: ['.git', 'node_modules'] })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const entries = readTarball(result.value)
+    expect(entries.ok && entries.value.map(f => f.path)).toEqual(['docs/guide.md', 'spec.yaml'])
+    // Gzipped output
+    expect(gunzipSync(result.value).length % 512).toBe(0)
+  })
+
+  it('refuses symlinks and oversized packages', async () => {
+    await writeFile(join(tmp, 'spec.yaml'), 'version: 1.0.0\n')
+    await symlink('/etc/passwd', join(tmp, 'passwd'))
+    const linked = await packDirectory(tmp)
+    expect(linked.ok).toBe(false)
+    if (!linked.ok) expect(linked.error).toContain('symlinks are not allowed')
+
+    await rm(join(tmp, 'passwd'))
+    await writeFile(join(tmp, 'big.bin'), Buffer.alloc(MAX_UNPACKED_SIZE))
+    const big = await packDirectory(tmp)
+    expect(big.ok).toBe(false)
+    if (!big.ok) expect(big.error).toContain('size limit')
+  })
+})
+
+describe('unpackTarball', () => {
+  it('writes files below the target directory', async () => {
+    const tarball = createTarball([
+      { path: 'spec.yaml', content: Buffer.from('version: 1.0.0\n') },
+      { path: 'entities/user.json', content: Buffer.from('{}') },
+    ])
+    const result = await unpackTarball(tarball, join(tmp, 'out'))
+    expect(result.ok).toBe(true)
+    expect(await readFile(join(tmp, 'out', 'entities', 'user.json'), 'utf-8')).toBe('{}')
+  })
+
+  it('writes nothing when any entry is rejected', async () => {
+    const tarball = rawTarball(
+      rawEntry('spec.yaml', '0', Buffer.from('x')),
+      rawEntry('../evil.txt', '0', Buffer.from('x')),
+    )
+    const result = await unpackTarball(tarball, join(tmp, 'out'))
+    expect(result.ok).toBe(false)
+    await expect(access(join(tmp, 'out', 'spec.yaml'))).rejects.toThrow()
+    await expect(access(join(tmp, 'evil.txt'))).rejects.toThrow()
+  })
+
+  it('does not write through symlinks already in the target directory', async () => {
+    const out = join(tmp, 'out')
+    await mkdir(out)
+    await writeFile(join(tmp, 'outside.txt'), 'original')
+    await symlink(join(tmp, 'outside.txt'), join(out, 'spec.yaml'))
+
+    const result = await unpackTarball(createTarball([{ path: 'spec.yaml', content: Buffer.from('pwned') }]), out)
+    expect(result.ok).toBe(false)
+    expect(await readFile(join(tmp, 'outside.txt'), 'utf-8')).toBe('original')
+  })
+})
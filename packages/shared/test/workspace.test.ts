@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { join } from 'node:path'
+import { matchesWorkspace, workspaceRootOf, reachableSpecs, installedAs } from '../src/workspace.js'
+import type { SpecPackage } from '../src/types.js'
+
+function spec(name: string, dependencies?: Record<string, string>): SpecPackage {
+  return {
+    manifest: { name, version: '1.0.0', description: 'Test', author: 'test', license: 'MIT', ...(dependencies ? { dependencies } : {}) },
+    directory: `/specs/${name}`,
+    entities: [],
+    states: [],
+    constraints: [],
+    docs: [],
+  }
+}
+
+describe('matchesWorkspace', () => {
+  it('matches a directory or the directories one level below `dir/*`', () => {
+    expect(matchesWorkspace('apps/web', 'apps/web')).toBe(true)
+    expect(matchesWorkspace('apps/web/', 'apps/web')).toBe(true)
+    expect(matchesWorkspace('packages/*', 'packages/api')).toBe(true)
+    expect(matchesWorkspace('packages/*', 'packages/api/nested')).toBe(false)
+    expect(matchesWorkspace('*', 'api')).toBe(true)
+    expect(matchesWorkspace('apps/web', 'apps/admin')).toBe(false)
+  })
+})
+
+describe('workspaceRootOf', () => {
+  const root = join('/repo')
+  const manifests: Record<string, Record<string, unknown>> = {
+    [root]: { name: 'root', workspaces: ['packages/*'] },
+    [join(root, 'packages', 'api')]: { name: 'api' },
+    [join(root, 'tools')]: { name: 'tools' },
+  }
+  const read = (dir: string) => manifests[dir] ?? null
+
+  it('finds the root that lists a project', () => {
+    expect(workspaceRootOf(join(root, 'packages', 'api'), read)).toBe(root)
+  })
+
+  it('returns null for projects no root lists, and for directories without a specpm.yaml', () => {
+    expect(workspaceRootOf(join(root, 'tools'), read)).toBeNull()
+    expect(workspaceRootOf(join(root, 'packages', 'web'), read)).toBeNull()
+    expect(workspaceRootOf(root, read)).toBeNull()
+  })
+})
+
+describe('reachableSpecs', () => {
+  it('keeps the specs a manifest depends on, directly or transitively', () => {
+    const specs = [spec('@a/one', { '@a/two': '^1.0.0' }), spec('@a/two'), spec('@a/three')]
+    const reached = reachableSpecs({ devDependencies: { '@a/one': '^1.0.0' } }, specs)
+    expect(reached.map(s => s.manifest.name)).toEqual(['@a/one', '@a/two'])
+    expect(reachableSpecs(null, specs)).toEqual([])
+  })
+})
+
+describe('installedAs', () => {
+  it('renames an alias and records what it is', () => {
+    const original = spec('@acme/pagination')
+    const aliased = installedAs(original, '@data/pagination')
+    expect(aliased.manifest.name).toBe('@data/pagination')
+    expect(aliased.aliasOf).toBe('@acme/pagination')
+    expect(installedAs(original, '@acme/pagination')).toBe(original)
+  })
+})